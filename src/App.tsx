@@ -6,37 +6,45 @@ import { CoinForm } from "./CoinForm";
 import Coins from "./Coins";
 // import { ConnectMenu } from "./ConnectMenu"; // ConnectMenu is used in Header.tsx
 import SwapTile from "./SwapTile";
+import { TradeView } from "./TradeView";
+import { CreatorView } from "./CreatorView";
 import { Header, AppView } from "./Header.tsx"; // Explicitly add .tsx extension
 // import { ExplorerView } from "./ExplorerView"; // No longer need the placeholder
 import Footer from "./Footer"; // Import the Footer component
+import { useTransactionWatcher } from "./hooks/use-transactions";
+import { useCoinStats, useHotCoinReserves, useLiveReserves } from "./hooks/metadata";
+import { goBack, navigate, useRoute } from "./hooks/use-route";
 
 function App() {
-  const [view, setView] = useState<AppView>("swap");
+  // The view (and the coin, pair or explorer page it shows) comes from the URL
+  const route = useRoute();
+  const view = route.view;
   const [tapCount, setTapCount] = useState(0);
   const [lastTap, setLastTap] = useState(0);
 
+  // Settle pending transactions from any view, including ones restored after a reload
+  useTransactionWatcher();
+  // Faster reserve refresh for the coins on screen and in the wallet
+  useHotCoinReserves();
+  // Pool reserves follow Sync events, so open quotes and cards update as trades land
+  useLiveReserves();
+  // 24h volume, fees and price change for every coin, from the last day of pool logs
+  useCoinStats();
+
   useEffect(() => {
     sdk.actions.ready();
-    
-    // Listen for custom view change events
-    const handleViewChange = (event: CustomEvent) => {
-      if (event.detail && typeof event.detail === 'string') {
-        setView(event.detail as AppView);
-      }
-    };
-    
-    window.addEventListener('coinchan:setView', handleViewChange as EventListener);
-    
-    return () => {
-      window.removeEventListener('coinchan:setView', handleViewChange as EventListener);
-    };
   }, []);
 
+  // Views without parameters; coins and creators are opened by ID. Re-picking the current view keeps its URL (pair, page)
+  const setView = (next: AppView) => {
+    if (next !== "coin" && next !== "creator" && next !== view) navigate({ view: next });
+  };
+
   const handleLogoTap = (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
     const now = Date.now();
     if (now - lastTap < 300) {
-      setView((prevView) => (prevView === "form" ? "menu" : "form")); // Toggle view
+      setView(view === "form" ? "menu" : "form"); // Toggle view
     }
     setLastTap(now);
     setTapCount(tapCount + 1);
@@ -76,6 +84,12 @@ function App() {
         )}
         {view === "memepaper" && <CoinPaper onCoinClick={handleCoinClick} />}
         {view === "swap" && <SwapTile />}
+        {route.view === "coin" && (
+          <TradeView tokenId={route.coinId} onBack={() => goBack({ view: "explorer" })} />
+        )}
+        {route.view === "creator" && (
+          <CreatorView address={route.address} onBack={() => goBack({ view: "explorer" })} />
+        )}
         {view === "explorer" && (
           <div className="w-full">
             <h2 className="text-2xl font-semibold text-[var(--foreground-light)] dark:text-[var(--foreground-dark)] text-center mb-4">Coin Explorer</h2>
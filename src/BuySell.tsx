@@ -1,8 +1,8 @@
-import { useState, useMemo, useEffect, useCallback, useRef } from "react";
+import { useState, useMemo, useEffect } from "react";
 import {
-  useWriteContract,
   useWaitForTransactionReceipt,
   useAccount,
+  usePublicClient,
   useReadContract,
   useSwitchChain,
   useChainId,
@@ -12,9 +12,9 @@ import {
   parseUnits,
   formatEther,
   formatUnits,
-  zeroAddress,
 } from "viem";
 import { formatNumber } from "./lib/utils";
+import { SWAP_FEE, computePoolKey, getHopBreakdown, nowSec, quoteExactIn, quoteExactOut } from "./lib/amm";
 import { CoinsAbi, CoinsAddress } from "./constants/Coins";
 import { ZAAMAbi, ZAAMAddress } from "./constants/ZAAM";
 import { Input } from "@/components/ui/input";
@@ -22,62 +22,17 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { mainnet } from "viem/chains";
 import { handleWalletError } from "./utils";
-import { useCoinData } from "./hooks/metadata";
-import { formatImageURL, getAlternativeImageUrls } from "./hooks/metadata/use-global-coins-data";
-
-// CheckTheChain contract ABI for fetching ETH price
-const CheckTheChainAbi = [
-  {
-    inputs: [{ internalType: "string", name: "symbol", type: "string" }],
-    name: "checkPrice",
-    outputs: [
-      { internalType: "uint256", name: "price", type: "uint256" },
-      { internalType: "string", name: "priceStr", type: "string" }
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
-
-// CheckTheChain contract address
-const CheckTheChainAddress = "0x0000000000cDC1F8d393415455E382c30FBc0a84";
-
-const SWAP_FEE = 100n; // 1 % pool fee
-const SLIPPAGE_BPS = 100n; // 100 basis points = 1 %
-const DEADLINE_SEC = 20 * 60; // 20 minutes
-
-// apply slippage tolerance to an amount
-const withSlippage = (amount: bigint) =>
-  (amount * (10000n - SLIPPAGE_BPS)) / 10000n;
-
-type PoolKey = {
-  id0: bigint;
-  id1: bigint;
-  token0: `0x${string}`;
-  token1: `0x${string}`;
-  swapFee: bigint;
-};
-
-const computePoolKey = (coinId: bigint): PoolKey => ({
-  id0: 0n,
-  id1: coinId,
-  token0: zeroAddress,
-  token1: CoinsAddress,
-  swapFee: SWAP_FEE,
-});
-
-// Unchanged getAmountOut from x*y invariants
-const getAmountOut = (
-  amountIn: bigint,
-  reserveIn: bigint,
-  reserveOut: bigint,
-  swapFee: bigint,
-) => {
-  const amountInWithFee = amountIn * (10000n - swapFee);
-  const numerator = amountInWithFee * reserveOut;
-  const denominator = reserveIn * 10000n + amountInWithFee;
-  return numerator / denominator;
-};
+import { reservesEqual, useCoinData, usePoolMovedSinceQuote, usePoolReserves } from "./hooks/metadata";
+import { useIpfsImage } from "./hooks/use-ipfs-image";
+import { resolveIpfsUrl } from "./lib/ipfs";
+import { useSwapSettings } from "./hooks/use-swap-settings";
+import { useEthUsdPrice } from "./hooks/use-eth-usd-price";
+import { useSimulatedWriteContract } from "./hooks/use-simulated-write";
+import { recordTransaction } from "./hooks/use-transactions";
+import type { WalletError } from "./utils/errorHandling";
+import { WalletErrorNotice } from "./components/WalletErrorNotice";
+import { SwapSettingsPopover } from "./components/SwapSettingsPopover";
+import { QuoteDetails, type QuoteHop, type QuoteLimit, isHighPriceImpact } from "./components/QuoteDetails";
 
 export const BuySell = ({
   tokenId,
@@ -90,11 +45,16 @@ export const BuySell = ({
 }) => {
   const [tab, setTab] = useState<"buy" | "sell">("buy");
   const [amount, setAmount] = useState("");
+  // When true the buy amount is an exact coin amount, routed through swapExactOut
+  const [buyExactCoins, setBuyExactCoins] = useState(false);
   const [txHash, setTxHash] = useState<`0x${string}`>();
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [walletError, setWalletError] = useState<WalletError | null>(null);
+  const { slippage, deadlineSec } = useSwapSettings();
 
   const { address, isConnected } = useAccount();
-  const { writeContractAsync, isPending } = useWriteContract();
+  const { writeContractAsync, isPending } = useSimulatedWriteContract();
+  const publicClient = usePublicClient({ chainId: mainnet.id });
   const { isSuccess } = useWaitForTransactionReceipt({ hash: txHash });
   const { switchChain } = useSwitchChain();
   const chainId = useChainId();
@@ -105,24 +65,16 @@ export const BuySell = ({
   // Get display values with fallbacks
   const { name, symbol, description } = getDisplayValues();
   
-  // We already have reserves in the coinData, no need for a separate fetch
-  const reserves = coinData ? {
-    reserve0: coinData.reserve0,
-    reserve1: coinData.reserve1
-  } : null;
+  // Pool reserves, kept current from the pool's Sync events
+  const { reserves, refresh: refreshReserves } = usePoolReserves(tokenId);
+  // Quotes recompute as the pool moves; a move after the user entered the trade has to be accepted
+  const { moved: poolMoved, accept: acceptPoolMoved } = usePoolMovedSinceQuote(
+    reserves,
+    `${tokenId}-${tab}-${buyExactCoins}-${amount}`,
+  );
   
-  // Fetch ETH price in USD from CheckTheChain
-  const { data: ethPriceData } = useReadContract({
-    address: CheckTheChainAddress,
-    abi: CheckTheChainAbi,
-    functionName: "checkPrice",
-    args: ["WETH"],
-    chainId: mainnet.id,
-    query: {
-      // Refresh every 60 seconds
-      staleTime: 60_000,
-    },
-  });
+  // ETH price in USD from CheckTheChain
+  const ethUsdPrice = useEthUsdPrice();
   
   const { data: balance } = useReadContract({
     address: CoinsAddress,
@@ -141,37 +93,26 @@ export const BuySell = ({
     chainId: mainnet.id,
   });
 
-  const nowSec = () => BigInt(Math.floor(Date.now() / 1000));
-
   // calculate the slippage‐adjusted estimate shown in the UI
+  // (for exact-coin buys this is the maximum ETH that may be spent)
   const estimated = useMemo(() => {
     if (!reserves || !reserves.reserve0 || !reserves.reserve1) return "0";
     try {
       if (tab === "buy") {
-        const inWei = parseEther(amount || "0");
-        const rawOut = getAmountOut(
-          inWei,
-          reserves.reserve0,
-          reserves.reserve1,
-          SWAP_FEE,
-        );
-        const minOut = withSlippage(rawOut);
-        return formatUnits(minOut, 18);
+        if (buyExactCoins) {
+          const { amountInMax } = quoteExactOut(parseUnits(amount || "0", 18), reserves, true, slippage);
+          return formatEther(amountInMax);
+        }
+        const { amountOutMin } = quoteExactIn(parseEther(amount || "0"), reserves, true, slippage);
+        return formatUnits(amountOutMin, 18);
       } else {
-        const inUnits = parseUnits(amount || "0", 18);
-        const rawOut = getAmountOut(
-          inUnits,
-          reserves.reserve1,
-          reserves.reserve0,
-          SWAP_FEE,
-        );
-        const minOut = withSlippage(rawOut);
-        return formatEther(minOut);
+        const { amountOutMin } = quoteExactIn(parseUnits(amount || "0", 18), reserves, false, slippage);
+        return formatEther(amountOutMin);
       }
     } catch {
       return "0";
     }
-  }, [amount, reserves, tab]);
+  }, [amount, reserves, tab, buyExactCoins, slippage]);
 
   // BUY using ETH → token
   const onBuy = async () => {
@@ -179,6 +120,7 @@ export const BuySell = ({
     
     // Clear any previous error message when starting a new transaction
     setErrorMessage(null);
+    setWalletError(null);
     
     try {
       // Switch to mainnet if needed
@@ -186,17 +128,49 @@ export const BuySell = ({
         await switchChain({ chainId: mainnet.id });
       }
       
-      const amountInWei = parseEther(amount || "0");
-      const rawOut = getAmountOut(
-        amountInWei,
-        reserves.reserve0,
-        reserves.reserve1,
-        SWAP_FEE,
-      );
-      const amountOutMin = withSlippage(rawOut);
-      const deadline = nowSec() + BigInt(DEADLINE_SEC);
+      // The pool may have moved since the quote; the fresh reserves re-quote and flag it instead
+      if (!reservesEqual(await refreshReserves(), reserves)) return;
 
+      const deadline = nowSec() + BigInt(deadlineSec);
       const poolKey = computePoolKey(tokenId);
+
+      // Buy an exact number of coins: send amountInMax, ZAMM refunds the unused ETH
+      if (buyExactCoins) {
+        const { amountOut, amountIn, amountInMax } = quoteExactOut(
+          parseUnits(amount || "0", 18),
+          reserves,
+          true,
+          slippage,
+        );
+        if (amountIn === 0n) {
+          setErrorMessage("Requested amount exceeds pool liquidity");
+          return;
+        }
+        const hash = await writeContractAsync({
+          address: ZAAMAddress,
+          abi: ZAAMAbi,
+          functionName: "swapExactOut",
+          args: [poolKey, amountOut, amountInMax, true, address, deadline],
+          value: amountInMax,
+          chainId: mainnet.id,
+        });
+        setTxHash(hash);
+        recordTransaction({
+          hash,
+          type: "swap",
+          description: `Buy ${displaySymbol}`,
+          account: address,
+          coinIds: [tokenId],
+          amounts: [
+            { amount: amountIn, symbol: "ETH" },
+            { amount: amountOut, symbol: displaySymbol },
+          ],
+        });
+        return;
+      }
+
+      const amountInWei = parseEther(amount || "0");
+      const { amountOut, amountOutMin } = quoteExactIn(amountInWei, reserves, true, slippage);
       const hash = await writeContractAsync({
         address: ZAAMAddress,
         abi: ZAAMAbi,
@@ -206,12 +180,21 @@ export const BuySell = ({
         chainId: mainnet.id,
       });
       setTxHash(hash);
+      recordTransaction({
+        hash,
+        type: "swap",
+        description: `Buy ${displaySymbol}`,
+        account: address,
+        coinIds: [tokenId],
+        amounts: [
+          { amount: amountInWei, symbol: "ETH" },
+          { amount: amountOut, symbol: displaySymbol },
+        ],
+      });
     } catch (err) {
       // Use our utility to handle the error - only set error message for non-rejection errors
-      const errorMsg = handleWalletError(err);
-      if (errorMsg) {
-        setErrorMessage(errorMsg);
-      }
+      const failure = handleWalletError(err);
+      setWalletError(failure);
     }
   };
 
@@ -221,6 +204,7 @@ export const BuySell = ({
     
     // Clear any previous error message when starting a new transaction
     setErrorMessage(null);
+    setWalletError(null);
     
     try {
       // Switch to mainnet if needed
@@ -233,32 +217,35 @@ export const BuySell = ({
       // ensure approval
       if (!isOperator) {
         try {
-          await writeContractAsync({
+          const approvalHash = await writeContractAsync({
             address: CoinsAddress,
             abi: CoinsAbi,
             functionName: "setOperator",
             args: [ZAAMAddress, true],
             chainId: mainnet.id,
           });
+          recordTransaction({
+            hash: approvalHash,
+            type: "approval",
+            description: `Approve ZAMM to trade ${displaySymbol}`,
+            account: address,
+            coinIds: [tokenId],
+          });
+          // The swap is simulated before signing, so the approval has to be mined first
+          await publicClient?.waitForTransactionReceipt({ hash: approvalHash });
         } catch (approvalErr) {
           // Handle approval error separately
-          const errorMsg = handleWalletError(approvalErr);
-          if (errorMsg) {
-            setErrorMessage(errorMsg);
-          }
+          const failure = handleWalletError(approvalErr);
+          setWalletError(failure);
           // Exit early if there was an approval error
           return;
         }
       }
 
-      const rawOut = getAmountOut(
-        amountInUnits,
-        reserves.reserve1,
-        reserves.reserve0,
-        SWAP_FEE,
-      );
-      const amountOutMin = withSlippage(rawOut);
-      const deadline = nowSec() + BigInt(DEADLINE_SEC);
+      if (!reservesEqual(await refreshReserves(), reserves)) return;
+
+      const { amountOut, amountOutMin } = quoteExactIn(amountInUnits, reserves, false, slippage);
+      const deadline = nowSec() + BigInt(deadlineSec);
 
       const poolKey = computePoolKey(tokenId);
       const hash = await writeContractAsync({
@@ -269,63 +256,83 @@ export const BuySell = ({
         chainId: mainnet.id,
       });
       setTxHash(hash);
+      recordTransaction({
+        hash,
+        type: "swap",
+        description: `Sell ${displaySymbol}`,
+        account: address,
+        coinIds: [tokenId],
+        amounts: [
+          { amount: amountInUnits, symbol: displaySymbol },
+          { amount: amountOut, symbol: "ETH" },
+        ],
+      });
     } catch (err) {
       // Use our utility to handle the error - only set error message for non-rejection errors
-      const errorMsg = handleWalletError(err);
-      if (errorMsg) {
-        setErrorMessage(errorMsg);
-      }
+      const failure = handleWalletError(err);
+      setWalletError(failure);
     }
   };
   
   // Use the display name and symbol 
   const displayName = name || propName;
   const displaySymbol = symbol || propSymbol;
+
+  // Quote breakdown (mid vs execution price, impact, fee) + slippage limit for the active tab
+  const reserve0 = reserves?.reserve0;
+  const reserve1 = reserves?.reserve1;
+  const quote = useMemo((): { hops: QuoteHop[]; limit: QuoteLimit } | null => {
+    if (!reserve0 || !reserve1 || !amount) return null;
+    const poolReserves = { reserve0, reserve1 };
+    try {
+      if (tab === "buy") {
+        const hop = { symbolIn: "ETH", symbolOut: displaySymbol };
+        if (buyExactCoins) {
+          const { amountIn, amountInMax } = quoteExactOut(parseUnits(amount, 18), poolReserves, true, slippage);
+          if (amountIn === 0n) return null;
+          return {
+            hops: [{ ...hop, breakdown: getHopBreakdown(amountIn, reserve0, reserve1, SWAP_FEE) }],
+            limit: { label: "Maximum sent", amount: amountInMax, symbol: "ETH" },
+          };
+        }
+        const amountIn = parseEther(amount);
+        const { amountOut, amountOutMin } = quoteExactIn(amountIn, poolReserves, true, slippage);
+        if (amountOut === 0n) return null;
+        return {
+          hops: [{ ...hop, breakdown: getHopBreakdown(amountIn, reserve0, reserve1, SWAP_FEE) }],
+          limit: { label: "Minimum received", amount: amountOutMin, symbol: displaySymbol },
+        };
+      }
+
+      const amountIn = parseUnits(amount, 18);
+      const { amountOut, amountOutMin } = quoteExactIn(amountIn, poolReserves, false, slippage);
+      if (amountOut === 0n) return null;
+      return {
+        hops: [
+          { symbolIn: displaySymbol, symbolOut: "ETH", breakdown: getHopBreakdown(amountIn, reserve1, reserve0, SWAP_FEE) },
+        ],
+        limit: { label: "Minimum received", amount: amountOutMin, symbol: "ETH" },
+      };
+    } catch {
+      return null;
+    }
+  }, [reserve0, reserve1, amount, tab, buyExactCoins, slippage, displaySymbol]);
+
+  // High-impact trades need an explicit confirm; editing the trade resets it
+  const [impactConfirmed, setImpactConfirmed] = useState(false);
+  const impactBlocked = quote !== null && isHighPriceImpact(quote.hops) && !impactConfirmed;
+  useEffect(() => {
+    setImpactConfirmed(false);
+  }, [amount, tab, buyExactCoins]);
   
-  // State for tracking image loading and errors
+  // Coin image, raced across IPFS gateways
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
-  const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
-  const alternativeUrlsRef = useRef<string[]>([]);
-  const attemptedUrlsRef = useRef<Set<string>>(new Set());
-  
-  // Determine the best image URL to use
+  const { src: currentImageUrl, failed: imageFailed } = useIpfsImage(coinData?.imageUrl || coinData?.metadata?.image);
   useEffect(() => {
-    if (coinData?.imageUrl) {
-      const initialUrl = formatImageURL(coinData.imageUrl);
-      setCurrentImageUrl(initialUrl);
-      attemptedUrlsRef.current.add(initialUrl);
-      alternativeUrlsRef.current = getAlternativeImageUrls(coinData.imageUrl);
-    } else if (coinData?.metadata?.image) {
-      const initialUrl = formatImageURL(coinData.metadata.image);
-      setCurrentImageUrl(initialUrl);
-      attemptedUrlsRef.current.add(initialUrl);
-      alternativeUrlsRef.current = getAlternativeImageUrls(coinData.metadata.image);
-    } else {
-      setCurrentImageUrl(null);
-      alternativeUrlsRef.current = [];
-    }
     setImageLoaded(false);
     setImageError(false);
-    // Reset attempted URLs when coinData changes, except for the new initialUrl
-    const newAttempted = new Set<string>();
-    if (currentImageUrl) newAttempted.add(currentImageUrl);
-    attemptedUrlsRef.current = newAttempted;
-
-  }, [coinData?.imageUrl, coinData?.metadata?.image]);
-  
-  // Handle image load error with fallback attempt
-  const handleImageError = useCallback(() => {
-    if (alternativeUrlsRef.current.length > 0) {
-      const nextUrl = alternativeUrlsRef.current.find(url => !attemptedUrlsRef.current.has(url));
-      if (nextUrl) {
-        setCurrentImageUrl(nextUrl);
-        attemptedUrlsRef.current.add(nextUrl);
-        return;
-      }
-    }
-    setImageError(true);
-  }, []);
+  }, [currentImageUrl]);
 
   return (
     <div className="flex flex-col gap-4 w-full">
@@ -334,14 +341,14 @@ export const BuySell = ({
         <div className="flex items-start gap-4 p-4 bg-[var(--card-background-light)] dark:bg-[var(--card-background-dark)] border border-[var(--primary-light)] dark:border-[var(--primary-dark)] rounded-[var(--radius-lg)] shadow-lg">
           <div className="flex-shrink-0">
             <div className="w-16 h-16 relative">
-              {!imageError && currentImageUrl ? (
+              {!imageError && !imageFailed && currentImageUrl ? (
                 <img
                   key={currentImageUrl}
                   src={currentImageUrl}
                   alt={`${displaySymbol} logo`}
                   className={`absolute inset-0 w-full h-full rounded-full object-cover transition-opacity duration-200 ${imageLoaded ? 'opacity-100' : 'opacity-0'}`}
                   onLoad={() => setImageLoaded(true)}
-                  onError={handleImageError}
+                  onError={() => setImageError(true)}
                   loading="lazy"
                   style={{ zIndex: 1 }}
                 />
@@ -351,7 +358,7 @@ export const BuySell = ({
                 </div>
               )}
                {/* Fallback/Loading state for image */}
-              {(!currentImageUrl || !imageLoaded) && !imageError && (
+              {(!currentImageUrl || !imageLoaded) && !imageError && !imageFailed && (
                 <div className="absolute inset-0 w-full h-full flex bg-[var(--secondary-light)] text-[var(--secondary-foreground-light)] justify-center items-center rounded-full">
                    {/* Optional: Simple spinner or placeholder */}
                 </div>
@@ -378,16 +385,18 @@ export const BuySell = ({
                   <span className="text-[var(--foreground-light)] dark:text-[var(--foreground-dark)]">Est. Market Cap:</span>
                   <span>
                     {`${formatNumber(Number(marketCapEth))} ETH`}
-                    <span className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)] ml-1">
-                      {` (~$ ${(Number(marketCapEth) * 2000).toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })})`}
-                    </span>
+                    {ethUsdPrice !== null && (
+                      <span className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)] ml-1">
+                        {` (~$ ${(Number(marketCapEth) * ethUsdPrice).toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })})`}
+                      </span>
+                    )}
                   </span>
                 </div>
               )}
               {coinData?.metadata?.tokenURI && (
                 <div className="mt-1">
                   <a
-                    href={formatImageURL(coinData.metadata.tokenURI)}
+                    href={resolveIpfsUrl(coinData.metadata.tokenURI)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-xs text-[var(--primary-light)] hover:text-[oklch(from_var(--primary-light)_l_calc(l+0.1))] dark:text-[var(--primary-dark)] dark:hover:text-[oklch(from_var(--primary-dark)_l_calc(l+0.1))] hover:underline"
@@ -411,23 +420,52 @@ export const BuySell = ({
           </TabsTrigger>
         </TabsList>
 
+        <div className="flex justify-end mt-2">
+          <SwapSettingsPopover />
+        </div>
+
         <TabsContent value="buy">
           <div className="flex flex-col gap-2">
-            <span className="text-sm text-gray-600">Using ETH</span>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">
+                {buyExactCoins ? `Exact amount of ${displaySymbol}` : "Using ETH"}
+              </span>
+              <button
+                className="text-xs text-[var(--primary-light)] hover:underline"
+                onClick={() => {
+                  setBuyExactCoins((prev) => !prev);
+                  setAmount("");
+                }}
+              >
+                {buyExactCoins ? "Enter ETH amount" : `Enter ${displaySymbol} amount`}
+              </button>
+            </div>
             <Input
               type="number"
-              placeholder="Amount ETH"
+              placeholder={buyExactCoins ? `Amount ${displaySymbol}` : "Amount ETH"}
               value={amount}
               min="0"
               step="any"
               onChange={(e) => setAmount(e.currentTarget.value)}
             />
             <span className="text-sm">
-              You will receive ~ {estimated} {displaySymbol}
+              {buyExactCoins
+                ? `You will pay at most ${estimated} ETH`
+                : `You will receive ~ ${estimated} ${displaySymbol}`}
             </span>
+            {quote && (
+              <QuoteDetails
+                hops={quote.hops}
+                limit={quote.limit}
+                impactConfirmed={impactConfirmed}
+                onImpactConfirmedChange={setImpactConfirmed}
+                poolMoved={poolMoved}
+                onAcceptPoolMoved={acceptPoolMoved}
+              />
+            )}
             <Button
               onClick={onBuy}
-              disabled={!isConnected || isPending || !amount}
+              disabled={!isConnected || isPending || !amount || impactBlocked || poolMoved}
               variant="default"
             >
               {isPending ? "Buying…" : `Buy ${displaySymbol}`}
@@ -451,9 +489,9 @@ export const BuySell = ({
             <div className="flex flex-col gap-2">
               <span className="text-sm">
                 You will receive ~ {estimated} ETH
-                {(estimated && parseFloat(estimated) > 0) && (
+                {(estimated && parseFloat(estimated) > 0 && ethUsdPrice !== null) && (
                   <span className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)] ml-1">
-                    (~$ {(parseFloat(estimated) * 2000).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })})
+                    (~$ {(parseFloat(estimated) * ethUsdPrice).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })})
                   </span>
                 )}
               </span>
@@ -473,9 +511,19 @@ export const BuySell = ({
                 </button>
               )}
             </div>
+            {quote && (
+              <QuoteDetails
+                hops={quote.hops}
+                limit={quote.limit}
+                impactConfirmed={impactConfirmed}
+                onImpactConfirmedChange={setImpactConfirmed}
+                poolMoved={poolMoved}
+                onAcceptPoolMoved={acceptPoolMoved}
+              />
+            )}
             <Button
               onClick={onSell}
-              disabled={!isConnected || isPending || !amount}
+              disabled={!isConnected || isPending || !amount || impactBlocked || poolMoved}
               variant="outline"
             >
               {isPending ? "Selling…" : `Sell ${displaySymbol}`}
@@ -484,6 +532,7 @@ export const BuySell = ({
         </TabsContent>
 
         {errorMessage && <p className="text-destructive text-sm">{errorMessage}</p>}
+        <WalletErrorNotice error={walletError} />
         {isSuccess && <p className="text-green-600 text-sm">Tx confirmed!</p>}
       </Tabs>
     </div>
@@ -1,6 +1,5 @@
 import { useState, useEffect } from "react";
 import {
-  useWriteContract,
   useWaitForTransactionReceipt,
   useAccount,
   usePublicClient,
@@ -15,13 +14,25 @@ import { CoinchanAbi, CoinchanAddress } from "./constants/Coinchan";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
-import { isUserRejectionError } from "./utils";
+import { handleWalletError } from "./utils";
+import type { WalletError } from "./utils/errorHandling";
+import { WalletErrorNotice } from "./components/WalletErrorNotice";
+import { useSimulatedWriteContract } from "./hooks/use-simulated-write";
+import { recordTransaction } from "./hooks/use-transactions";
+
+// Claim-specific wording for the lockup reverts; anything else uses the shared messages
+const CLAIM_ERROR_MESSAGES: Record<string, string> = {
+  Pending: "Tokens are not vestable yet",
+  NothingToVest: "No tokens available to vest",
+  Unauthorized: "Only the creator can claim vested tokens",
+};
 
 interface ClaimVestedProps {
   coinId: bigint;
+  symbol?: string;
 }
 
-export const ClaimVested = ({ coinId }: ClaimVestedProps) => {
+export const ClaimVested = ({ coinId, symbol = "TKN" }: ClaimVestedProps) => {
   const { address, isConnected } = useAccount();
   const publicClient = usePublicClient({ chainId: mainnet.id });
   const chainId = useChainId();
@@ -39,9 +50,10 @@ export const ClaimVested = ({ coinId }: ClaimVestedProps) => {
   const [vestableAmount, setVestableAmount] = useState<bigint>(0n);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [txError, setTxError] = useState<string | null>(null);
+  const [walletError, setWalletError] = useState<WalletError | null>(null);
 
   // Contract write state
-  const { writeContractAsync, isPending } = useWriteContract();
+  const { writeContractAsync, isPending } = useSimulatedWriteContract();
   const [txHash, setTxHash] = useState<`0x${string}`>();
   const { isSuccess } = useWaitForTransactionReceipt({ hash: txHash });
 
@@ -146,6 +158,7 @@ export const ClaimVested = ({ coinId }: ClaimVestedProps) => {
     if (!isConnected || !coinId) return;
 
     setTxError(null);
+    setWalletError(null);
 
     try {
       // Switch to mainnet if needed
@@ -153,11 +166,8 @@ export const ClaimVested = ({ coinId }: ClaimVestedProps) => {
         try {
           await switchChain({ chainId: mainnet.id });
         } catch (err) {
-          // Only set error if it's not a user rejection
-          if (!isUserRejectionError(err)) {
-            console.error("Failed to switch to Ethereum mainnet:", err);
-            setTxError("Failed to switch to Ethereum mainnet");
-          }
+          // Rejections come back as null; anything else offers the switch again
+          setWalletError(handleWalletError(err));
           return;
         }
       }
@@ -172,29 +182,19 @@ export const ClaimVested = ({ coinId }: ClaimVestedProps) => {
       });
 
       setTxHash(hash);
+      recordTransaction({
+        hash,
+        type: "claim",
+        description: `Claim vested ${symbol}`,
+        account: address,
+        coinIds: [coinId],
+        amounts: [{ amount: vestableAmount, symbol }],
+      });
     } catch (err) {
-      // Check for user rejection first
-      if (isUserRejectionError(err)) {
-        // Silent handling - don't show error for user rejections
-        return;
-      }
-
-      // For contract errors, we still want to show specific messages
-      if (err instanceof Error) {
-        if (err.message.includes("Pending")) {
-          setTxError("Tokens are not vestable yet");
-        } else if (err.message.includes("NothingToVest")) {
-          setTxError("No tokens available to vest");
-        } else if (err.message.includes("Unauthorized")) {
-          setTxError("Only the creator can claim vested tokens");
-        } else {
-          console.error("Error claiming vested tokens:", err);
-          setTxError("Transaction failed. Please try again.");
-        }
-      } else {
-        console.error("Unknown error during claim:", err);
-        setTxError("Transaction failed. Please try again.");
-      }
+      // Rejections come back as null; reverts are caught by the simulation, before the wallet prompt
+      const classified = handleWalletError(err);
+      const claimMessage = classified?.revert && CLAIM_ERROR_MESSAGES[classified.revert.name];
+      setWalletError(classified && claimMessage ? { ...classified, message: claimMessage } : classified);
     }
   };
 
@@ -268,6 +268,7 @@ export const ClaimVested = ({ coinId }: ClaimVestedProps) => {
         {txError && (
           <div className="mt-2 text-xs text-red-600">{txError}</div>
         )}
+        <WalletErrorNotice error={walletError} className="mt-2" />
 
         {/* Success message */}
         {isSuccess && (
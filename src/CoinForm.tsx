@@ -1,10 +1,30 @@
 import confetti from "canvas-confetti";
-import { useState, useEffect, useRef, ChangeEvent, DragEvent } from "react";
+import { useState, useEffect, useMemo, useRef, ChangeEvent, DragEvent } from "react";
 import { CoinchanAbi, CoinchanAddress } from "./constants/Coinchan";
-import { useAccount, useWriteContract } from "wagmi";
+import { CoinsAbi, CoinsAddress } from "./constants/Coins";
+import { useAccount, useWaitForTransactionReceipt } from "wagmi";
 import { parseEther } from "viem";
 import { pinImageToPinata, pinJsonToPinata } from "./utils/pinata";
-import { handleWalletError, isUserRejectionError } from "./utils";
+import { handleWalletError } from "./utils";
+import { useSimulatedWriteContract } from "./hooks/use-simulated-write";
+import { recordTransaction } from "./hooks/use-transactions";
+import { navigate } from "./hooks/use-route";
+import type { WalletError } from "./utils/errorHandling";
+import { WalletErrorNotice } from "./components/WalletErrorNotice";
+import { LaunchSuccessCard, type LaunchedCoin } from "./components/LaunchSuccessCard";
+import { LaunchAdvancedSettings } from "./components/LaunchAdvancedSettings";
+import { LaunchPricePreview } from "./components/LaunchPricePreview";
+import {
+  DEFAULT_LAUNCH_PARAMS,
+  DEFAULT_SEED_ETH,
+  LAUNCH_MODES,
+  type LaunchParams,
+  TOTAL_SUPPLY,
+  decodeLaunchedCoinId,
+  parseEthAmount,
+  unlockTimestamp,
+  validateLaunchParams,
+} from "./lib/launch";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
@@ -135,22 +155,56 @@ export function CoinForm({
     description: "",
     logo: "",
     creatorSupply: "0",
+    seedEth: DEFAULT_SEED_ETH,
   });
 
   const [imageBuffer, setImageBuffer] = useState<ArrayBuffer | null>(null);
   const { address } = useAccount();
 
-  const TOTAL_SUPPLY = 21000000;
-  const swapFee = 100;
-  const vestingDuration = 15778476;
-  const vesting = true;
+  const [advanced, setAdvanced] = useState<Omit<LaunchParams, "creatorSupply" | "seedEth">>(DEFAULT_LAUNCH_PARAMS);
+  const launchParams: LaunchParams = {
+    ...advanced,
+    creatorSupply: Number(formState.creatorSupply) || 0,
+    seedEth: formState.seedEth,
+  };
+  const paramsError = validateLaunchParams(launchParams);
+  const { createsPool } = LAUNCH_MODES[launchParams.mode];
+
+  const { writeContractAsync, isPending } = useSimulatedWriteContract();
+  const [txHash, setTxHash] = useState<`0x${string}`>();
+  const { data: receipt, isLoading: isConfirming, isSuccess, isError: isReverted } = useWaitForTransactionReceipt({ hash: txHash });
+  // What was submitted, kept until the receipt tells us the coin ID
+  const [pendingLaunch, setPendingLaunch] = useState<Omit<LaunchedCoin, "coinId" | "txHash"> | null>(null);
 
-  const { writeContract, isPending, isSuccess, data, error } = useWriteContract();
+  const launchedCoin = useMemo((): LaunchedCoin | null => {
+    if (!receipt || !txHash || !pendingLaunch) return null;
+    const coinId = decodeLaunchedCoinId(receipt.logs);
+    return coinId === null ? null : { ...pendingLaunch, coinId, txHash };
+  }, [receipt, txHash, pendingLaunch]);
+
+  const openCoin = (coinId: bigint) => {
+    navigate({ view: "coin", coinId });
+  };
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [walletError, setWalletError] = useState<WalletError | null>(null);
+
+  // Celebrate only once the launch is mined, not when the wallet hands back a hash
+  useEffect(() => {
+    if (!isSuccess) return;
+    confetti({
+      particleCount: 200,
+      spread: 70,
+      origin: { y: 0.6 },
+      colors: ["#FFC700", "#FF8A00", "#FF005C", "#00C2FF", "#00E5A1"],
+    });
+  }, [isSuccess]);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setErrorMessage(null);
+    setWalletError(null);
+    setTxHash(undefined);
+    setPendingLaunch(null);
 
     if (!address || !imageBuffer) {
       // Error will be shown in UI
@@ -158,9 +212,16 @@ export function CoinForm({
       return;
     }
 
-    const creatorSupplyValue = Number(formState.creatorSupply) || 0;
-    const safeCreatorSupply = Math.min(creatorSupplyValue, TOTAL_SUPPLY);
-    const finalPoolSupply = TOTAL_SUPPLY - safeCreatorSupply;
+    if (paramsError) {
+      setErrorMessage(paramsError);
+      return;
+    }
+
+    const { mode, swapFeeBps, vestingDays, schedule, creatorSupply } = launchParams;
+    const poolSupply = parseEther((TOTAL_SUPPLY - creatorSupply).toString());
+    const ownerSupply = parseEther(creatorSupply.toString());
+    const swapFee = BigInt(swapFeeBps);
+    const value = parseEthAmount(launchParams.seedEth) ?? 0n;
 
     try {
       const fileName = `${formState.name}_logo.png`;
@@ -181,42 +242,61 @@ export function CoinForm({
 
       const tokenUriHash = await pinJsonToPinata(tokenUriJson);
 
-      try {
-        writeContract({
-          address: CoinchanAddress,
-          abi: CoinchanAbi,
-          functionName: "makeLocked",
-          value: parseEther("0.01"),
-          args: [
-            formState.name,
-            formState.symbol,
-            tokenUriHash,
-            parseEther(finalPoolSupply.toString()),
-            parseEther(safeCreatorSupply.toString()),
-            BigInt(swapFee),
-            address,
-            BigInt(Math.floor(Date.now() / 1000) + vestingDuration),
-            vesting,
-          ],
-        });
+      const unlock = mode === "makeLocked" ? unlockTimestamp(vestingDays) : undefined;
 
-        // Show confetti only if the transaction was successful
-        if (!isUserRejectionError(error)) {
-          confetti({
-            particleCount: 200,
-            spread: 70,
-            origin: { y: 0.6 },
-            colors: ["#FFC700", "#FF8A00", "#FF005C", "#00C2FF", "#00E5A1"],
-          });
+      try {
+        // Simulated first: a launch that would revert is reported here instead of in the wallet
+        const common = [formState.name, formState.symbol, tokenUriHash] as const;
+        let hash: `0x${string}`;
+        switch (mode) {
+          case "create":
+            hash = await writeContractAsync({
+              address: CoinsAddress,
+              abi: CoinsAbi,
+              functionName: "create",
+              args: [...common, address, parseEther(TOTAL_SUPPLY.toString())],
+            });
+            break;
+          case "make":
+          case "makeHold":
+            hash = await writeContractAsync({
+              address: CoinchanAddress,
+              abi: CoinchanAbi,
+              functionName: mode,
+              value,
+              args: [...common, poolSupply, ownerSupply, swapFee, address],
+            });
+            break;
+          case "makeLocked":
+            hash = await writeContractAsync({
+              address: CoinchanAddress,
+              abi: CoinchanAbi,
+              functionName: "makeLocked",
+              value,
+              // vesting=true releases linearly until the unlock, false releases everything at the unlock
+              args: [...common, poolSupply, ownerSupply, swapFee, address, unlock as bigint, schedule === "linear"],
+            });
+            break;
         }
+
+        setTxHash(hash);
+        setPendingLaunch({
+          name: formState.name,
+          symbol: formState.symbol,
+          image: imageHash,
+          swapFee: createsPool ? swapFee : undefined,
+          unlock,
+        });
+        recordTransaction({
+          hash,
+          type: "launch",
+          description: `Launch ${formState.symbol}`,
+          account: address,
+          amounts: createsPool ? [{ amount: value, symbol: "ETH" }] : [],
+        });
       } catch (txError) {
-        // Handle wallet rejection silently
-        if (!isUserRejectionError(txError)) {
-          const errorMsg = handleWalletError(txError);
-          if (errorMsg) {
-            setErrorMessage(errorMsg);
-          }
-        }
+        // Rejections come back as null and are handled silently
+        setWalletError(handleWalletError(txError));
       }
     } catch (pinataError) {
       // Error will be shown in UI
@@ -296,6 +376,7 @@ export function CoinForm({
           <ImageInput onChange={handleFileChangeInternal} />
         </div>
 
+        {createsPool && (
         <div className="space-y-1.5 w-full">
           <Label htmlFor="creatorSupply" className="text-xs font-medium text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
             YOUR TOKENS (Max: {TOTAL_SUPPLY.toLocaleString()})
@@ -314,18 +395,58 @@ export function CoinForm({
             Pool will receive: {(TOTAL_SUPPLY - (Number(formState.creatorSupply) || 0)).toLocaleString()} tokens.
           </p>
         </div>
+        )}
+
+        {createsPool && (
+        <div className="space-y-1.5 w-full">
+          <Label htmlFor="seedEth" className="text-xs font-medium text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+            INITIAL LIQUIDITY (ETH)
+          </Label>
+          <Input
+            id="seedEth"
+            name="seedEth"
+            type="number"
+            inputMode="decimal"
+            value={formState.seedEth}
+            onChange={handleChange}
+            min="0"
+            step="any"
+            className={inputBaseClass}
+          />
+          <LaunchPricePreview
+            creatorSupply={launchParams.creatorSupply}
+            seedEth={formState.seedEth}
+            swapFeeBps={launchParams.swapFeeBps}
+          />
+        </div>
+        )}
+
+        <LaunchAdvancedSettings
+          params={launchParams}
+          onChange={setAdvanced}
+          error={paramsError}
+        />
 
         {errorMessage && (
           <p className="text-sm text-[var(--destructive-foreground-light)] dark:text-[var(--destructive-foreground-dark)] bg-[var(--destructive-light)] dark:bg-[var(--destructive-dark)] p-3 rounded-[var(--radius-md)]">{errorMessage}</p>
         )}
+        <WalletErrorNotice error={walletError} />
         {isPending && (
           <p className="text-sm text-blue-400">Processing transaction...</p>
         )}
-        {isSuccess && data && (
-           <p className="text-sm text-green-600 dark:text-green-400 bg-green-500/10 dark:bg-green-500/20 p-3 rounded-[var(--radius-md)]">Coin launched successfully! Transaction: {typeof data === 'string' ? data.substring(0,10) : 'submitted'}...</p>
+        {isConfirming && (
+          <p className="text-sm text-blue-400">Launch submitted. Waiting for confirmation...</p>
+        )}
+        {isReverted && (
+          <p className="text-sm text-[var(--destructive-foreground-light)] dark:text-[var(--destructive-foreground-dark)] bg-[var(--destructive-light)] dark:bg-[var(--destructive-dark)] p-3 rounded-[var(--radius-md)]">Launch transaction failed. Please try again.</p>
+        )}
+        {launchedCoin ? (
+          <LaunchSuccessCard coin={launchedCoin} onOpen={openCoin} />
+        ) : isSuccess && txHash && (
+           <p className="text-sm text-green-600 dark:text-green-400 bg-green-500/10 dark:bg-green-500/20 p-3 rounded-[var(--radius-md)]">Coin launched successfully! Transaction: {txHash.substring(0,10)}...</p>
         )}
 
-        <Button type="submit" disabled={isPending || !address || !imageBuffer} 
+        <Button type="submit" disabled={isPending || isConfirming || !address || !imageBuffer || !!paramsError} 
           className={`w-full bg-[var(--primary-light)] dark:bg-[var(--primary-dark)] text-[var(--primary-foreground-light)] dark:text-[var(--primary-foreground-dark)] font-semibold py-2.5 px-4 rounded-[var(--radius-md)] transition-all duration-150 ease-in-out 
                      hover:opacity-90 active:scale-[0.98] focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-[var(--ring-light)] dark:focus-visible:ring-[var(--ring-dark)]
                      disabled:opacity-60 disabled:cursor-not-allowed shadow-md hover:shadow-lg`}
@@ -338,7 +459,7 @@ export function CoinForm({
               </svg>
               Launching...
             </span>
-          ) : "Launch Coin (0.01 ETH)"}
+          ) : createsPool ? `Launch Coin (${formState.seedEth || "0"} ETH)` : "Create Coin"}
         </Button>
       </form>
     </div>
@@ -1,18 +1,110 @@
 import { useState, useMemo } from "react";
 import { ExplorerGrid } from "./ExplorerGrid";
-import { TradeView } from "./TradeView";
-import { usePagedCoins, type CoinData } from "./hooks/metadata";
+import { VirtualCoinGrid } from "./components/VirtualCoinGrid";
+import { type ExplorerRoute, navigate, useRoute } from "./hooks/use-route";
+import {
+  COIN_SORTS,
+  type CoinFilters,
+  type CoinSort,
+  DEFAULT_COIN_FILTERS,
+  VESTING_FILTERS,
+  type VestingFilter,
+  filterAndSortCoins,
+  useCoinLockups,
+  useCoinSearch,
+  useGlobalCoinsData,
+  usePagedCoins,
+  useCoinsByIds,
+} from "./hooks/metadata";
+import { useWatchlist } from "./hooks/use-watchlist";
 import { Input } from "@/components/ui/input";
-import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, Star } from "lucide-react";
 
 // Page size for pagination
 const PAGE_SIZE = 20;
 
-// Define sort types
-type SortOrder = 'default' | 'random';
+// Watchlist lookups are skipped on the "All coins" tab
+const NO_COIN_IDS: bigint[] = [];
+
+// Infinite scroll, or fixed pages with Previous/Next; the choice is remembered
+type ExplorerLayout = 'scroll' | 'pages';
+const LAYOUT_STORAGE_KEY = 'coinchan-explorer-layout';
+
+const loadLayout = (): ExplorerLayout => {
+  try {
+    return localStorage.getItem(LAYOUT_STORAGE_KEY) === 'pages' ? 'pages' : 'scroll';
+  } catch {
+    return 'scroll';
+  }
+};
+
+type ExplorerParams = Omit<ExplorerRoute, 'view'>;
+
+const isCoinSort = (sort: string | undefined): sort is CoinSort => COIN_SORTS.some(({ value }) => value === sort);
 
 export const Coins = () => {
-  // Use our new paged coins hook for efficient data fetching
+  // On /explorer the sort, search and page live in the URL, so they can be linked and survive back/forward;
+  // the copy on the menu view keeps them locally
+  const route = useRoute();
+  const [localParams, setLocalParams] = useState<ExplorerParams>({});
+  const params: ExplorerParams = route.view === 'explorer' ? route : localParams;
+  const setParams = (next: ExplorerParams, { replace = false }: { replace?: boolean } = {}) => {
+    if (route.view === 'explorer') navigate({ view: 'explorer', ...next }, { replace });
+    else setLocalParams(next);
+  };
+
+  // Sorting and filtering run over every loaded coin; pagination applies to the result
+  const sortOrder: CoinSort = isCoinSort(params.sort) ? params.sort : 'newest';
+  const search = params.q ?? '';
+  const [localFilters, setLocalFilters] = useState<CoinFilters>(DEFAULT_COIN_FILTERS);
+  const filters = useMemo(() => ({ ...localFilters, search }), [localFilters, search]);
+  const [randomSeed, setRandomSeed] = useState(() => Math.floor(Math.random() * 2 ** 31));
+  // A new sort or filter starts from the first page
+  const updateFilters = (patch: Partial<Omit<CoinFilters, 'search'>>) => {
+    setLocalFilters((prev) => ({ ...prev, ...patch }));
+    setParams({ ...params, page: undefined }, { replace: true });
+  };
+  const setSortOrder = (sort: CoinSort) =>
+    setParams({ tab: params.tab, q: params.q, sort: sort === 'newest' ? undefined : sort });
+
+  // A link to a specific page opens in the paged layout
+  const [storedLayout, setStoredLayout] = useState<ExplorerLayout>(loadLayout);
+  const layout: ExplorerLayout = params.page ? 'pages' : storedLayout;
+  const setLayout = (next: ExplorerLayout) => {
+    setStoredLayout(next);
+    try {
+      localStorage.setItem(LAYOUT_STORAGE_KEY, next);
+    } catch (error) {
+      console.error('Failed to save explorer layout:', error);
+    }
+    if (next === 'scroll') setParams({ ...params, page: undefined }, { replace: true });
+  };
+
+  const { allCoins } = useGlobalCoinsData();
+
+  // The watchlist tab sorts and filters just the starred coins, kept live while it's open
+  const isWatchlist = params.tab === 'watchlist';
+  const { coinIds: watchlistIds } = useWatchlist();
+  const { coins: watchlistCoins, isLoading: isWatchlistLoading } = useCoinsByIds(isWatchlist ? watchlistIds : NO_COIN_IDS);
+  const sourceCoins = useMemo(() => {
+    if (!isWatchlist) return allCoins;
+    // Sorting expects registry (launch) order; coins the global list hasn't synced yet are the newest
+    const position = new Map(allCoins.map((coin, index) => [coin.coinId, index]));
+    const rank = (id: bigint) => position.get(id) ?? Number.MAX_SAFE_INTEGER;
+    return [...watchlistCoins].sort((a, b) => rank(a.coinId) - rank(b.coinId));
+  }, [isWatchlist, allCoins, watchlistCoins]);
+  // Lockups are only fetched once their filter is picked
+  const { data: lockups, isFetching: isLockupsLoading } = useCoinLockups(filters.vesting !== 'any');
+  // A vesting filter has nothing to match against until lockups arrive
+  const isWaitingForLockups = filters.vesting !== 'any' && !lockups;
+  const { results: searchResults, isLoadingCreators } = useCoinSearch(filters.search);
+
+  const viewCoins = useMemo(() => {
+    if (!isWatchlist && sourceCoins.length === 0) return null;
+    return filterAndSortCoins(sourceCoins, sortOrder, filters, { lockups, searchResults, randomSeed });
+  }, [isWatchlist, sourceCoins, sortOrder, filters, lockups, searchResults, randomSeed]);
+
   const {
     coins: fetchedCoins,
     total,
@@ -22,50 +114,22 @@ export const Coins = () => {
     hasPreviousPage,
     goToNextPage,
     goToPreviousPage,
-    isLoading
-  } = usePagedCoins(PAGE_SIZE);
-  
-  // Which coin is being traded
-  const [selectedTokenId, setSelectedTokenId] = useState<bigint | null>(null);
-  const [filterTerm, setFilterTerm] = useState<string>("");
-  const [sortOrder, setSortOrder] = useState<SortOrder>('default');
-  
-  // Event handlers
-  const openTrade = (id: bigint) => setSelectedTokenId(id);
-  const closeTrade = () => setSelectedTokenId(null);
-  
-  // Memoize the filtered and sorted coins
-  const processedCoins = useMemo(() => {
-    let coinsToProcess: CoinData[] = [...fetchedCoins];
-
-    // Apply filter
-    if (filterTerm) {
-      coinsToProcess = coinsToProcess.filter((coin: CoinData) =>
-        coin.name?.toLowerCase().includes(filterTerm.toLowerCase()) || 
-        coin.symbol?.toLowerCase().includes(filterTerm.toLowerCase())
-      );
-    }
-
-    // Apply sort
-    if (sortOrder === 'random') {
-      // Simple shuffle algorithm (Fisher-Yates)
-      for (let i = coinsToProcess.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [coinsToProcess[i], coinsToProcess[j]] = [coinsToProcess[j], coinsToProcess[i]];
-      }
-    }
-    // 'default' sort is the order from the hook, which might be 'most recent' implicitly
+    isLoading: isPageLoading,
+  } = usePagedCoins(PAGE_SIZE, viewCoins, {
+    page: (params.page ?? 1) - 1,
+    setPage: (next, options) => setParams({ ...params, page: next + 1 }, options),
+  });
 
-    return coinsToProcess;
-  }, [fetchedCoins, filterTerm, sortOrder]);
+  const isLoading = isPageLoading || (isWatchlist && isWatchlistLoading) || isWaitingForLockups;
+  const isFiltered =
+    filters.search.trim() !== '' || filters.minEthLiquidity > 0 || filters.hasImage || filters.vesting !== 'any';
   
-  // If a token is selected, show the trade view
-  if (selectedTokenId !== null) {
-    return <TradeView tokenId={selectedTokenId} onBack={closeTrade} />;
-  }
+  // The trade view has its own URL, so back returns to this page, sort and search
+  const openTrade = (id: bigint) => navigate({ view: 'coin', coinId: id });
   
   // Calculate offset for display purposes
   const offset = page * PAGE_SIZE;
+  const selectStyle = "h-9 px-2 text-sm bg-[var(--input-background-light)] dark:bg-[var(--input-background-dark)] text-[var(--input-foreground-light)] dark:text-[var(--input-foreground-dark)] border border-[var(--input-border-light)] dark:border-[var(--input-border-dark)] rounded-[var(--radius-md)] focus:outline-none focus:ring-1 focus:ring-[var(--ring-light)]";
   
   // Log data to help with debugging
   console.log(`Coins component rendering: ${fetchedCoins.length} coins on page ${page + 1} of ${totalPages}`);
@@ -91,54 +155,167 @@ export const Coins = () => {
   // Show the explorer grid
   return (
     <>
+      <Tabs
+        value={isWatchlist ? 'watchlist' : 'all'}
+        onValueChange={(value) =>
+          setParams({ ...params, tab: value === 'watchlist' ? 'watchlist' : undefined, page: undefined })
+        }
+        className="w-full mb-4"
+      >
+        <TabsList className="grid w-full grid-cols-2 bg-[var(--secondary-light)] p-1 rounded-[var(--radius-md)] h-auto">
+          <TabsTrigger
+            value="all"
+            className="flex-1 data-[state=active]:bg-[var(--primary-light)] data-[state=active]:text-[var(--primary-foreground-light)] data-[state=active]:shadow-md text-[var(--muted-foreground-light)] hover:text-[var(--foreground-light)] rounded-[var(--radius-sm)] py-1.5 px-2 text-sm font-medium transition-all h-full flex items-center justify-center gap-1.5"
+          >
+            All coins
+          </TabsTrigger>
+          <TabsTrigger
+            value="watchlist"
+            className="flex-1 data-[state=active]:bg-[var(--primary-light)] data-[state=active]:text-[var(--primary-foreground-light)] data-[state=active]:shadow-md text-[var(--muted-foreground-light)] hover:text-[var(--foreground-light)] rounded-[var(--radius-sm)] py-1.5 px-2 text-sm font-medium transition-all h-full flex items-center justify-center gap-1.5"
+          >
+            <Star className="h-4 w-4" />
+            Watchlist{watchlistIds.length > 0 && ` (${watchlistIds.length})`}
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
       {/* Filter and Sort Controls */}
-      <div className="mb-4 p-4 bg-[var(--card-background-light)] dark:bg-[var(--card-background-dark)] border border-[var(--card-border-light)] dark:border-[var(--card-border-dark)] rounded-[var(--radius-lg)] shadow-sm">
+      <div className="mb-4 p-4 bg-[var(--card-background-light)] dark:bg-[var(--card-background-dark)] border border-[var(--card-border-light)] dark:border-[var(--card-border-dark)] rounded-[var(--radius-lg)] shadow-sm space-y-3">
         <div className="flex flex-col sm:flex-row gap-4">
           <Input 
             type="text"
-            placeholder="Filter by name or symbol..."
-            value={filterTerm}
-            onChange={(e) => setFilterTerm(e.target.value)}
+            placeholder="Search name, symbol, coin ID or creator address..."
+            value={filters.search}
+            onChange={(e) => {
+              const q = e.target.value;
+              // Searching ranks by best match; clearing the search goes back to newest
+              let sort = params.sort;
+              if (q.trim() && !search.trim() && sortOrder === 'newest') sort = 'relevance';
+              if (!q.trim() && sortOrder === 'relevance') sort = undefined;
+              // Keystrokes update the URL in place rather than each adding a history entry
+              setParams({ tab: params.tab, sort, q: q || undefined }, { replace: true });
+            }}
             className="w-full sm:flex-grow bg-[var(--input-background-light)] dark:bg-[var(--input-background-dark)] text-[var(--input-foreground-light)] dark:text-[var(--input-foreground-dark)] border-[var(--input-border-light)] dark:border-[var(--input-border-dark)] rounded-[var(--radius-md)]"
           />
-          <div className="flex items-center gap-2 flex-shrink-0">
-            <span className="text-sm text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">Sort by:</span>
-            <Button 
-              variant={sortOrder === 'default' ? 'default' : 'outline'}
-              onClick={() => setSortOrder('default')}
-              className="text-xs h-9"
+          <label className="flex items-center gap-2 flex-shrink-0 text-sm text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+            Sort by:
+            <select
+              value={sortOrder}
+              onChange={(e) => {
+                const next = e.target.value as CoinSort;
+                // Picking "Random" again reshuffles
+                if (next === 'random') setRandomSeed(Math.floor(Math.random() * 2 ** 31));
+                setSortOrder(next);
+              }}
+              className={selectStyle}
+            >
+              {COIN_SORTS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 flex-shrink-0 text-sm text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+            View:
+            <select
+              value={layout}
+              onChange={(e) => setLayout(e.target.value as ExplorerLayout)}
+              className={selectStyle}
+            >
+              <option value="scroll">Scroll</option>
+              <option value="pages">Pages</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-sm text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+          <label className="flex items-center gap-2">
+            Min liquidity:
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="any"
+              placeholder="0"
+              value={filters.minEthLiquidity || ""}
+              onChange={(e) => updateFilters({ minEthLiquidity: Math.max(0, Number.parseFloat(e.target.value) || 0) })}
+              className={`${selectStyle} w-20 text-right`}
+            />
+            ETH
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters.hasImage}
+              onChange={(e) => updateFilters({ hasImage: e.target.checked })}
+            />
+            Has image
+          </label>
+          <label className="flex items-center gap-2">
+            Creator lockup:
+            <select
+              value={filters.vesting}
+              onChange={(e) => updateFilters({ vesting: e.target.value as VestingFilter })}
+              className={selectStyle}
             >
-              Default
-            </Button>
-            <Button 
-              variant={sortOrder === 'random' ? 'default' : 'outline'}
-              onClick={() => setSortOrder('random')}
-              className="text-xs h-9"
+              {VESTING_FILTERS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {((filters.vesting !== 'any' && isLockupsLoading) || isLoadingCreators) && (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            )}
+          </label>
+          {isFiltered && (
+            <button
+              type="button"
+              onClick={() => {
+                setLocalFilters(DEFAULT_COIN_FILTERS);
+                setParams({ tab: params.tab, sort: sortOrder === 'relevance' ? undefined : params.sort }, { replace: true });
+              }}
+              className="text-xs text-[var(--primary-light)] hover:underline"
             >
-              Random
-            </Button>
-          </div>
+              Clear filters
+            </button>
+          )}
         </div>
       </div>
 
       <div className="text-sm text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)] text-center mb-3">
-        Page {page + 1} of {totalPages} • 
-        Showing items {offset + 1}-{Math.min(offset + processedCoins.length, total)} of {total} 
-        {filterTerm && `(filtered from ${fetchedCoins.length} on this page)`}
+        {layout === 'pages' && `Page ${page + 1} of ${totalPages} • `}
+        {total === 0
+          ? isWaitingForLockups
+            ? ' Loading lockups…'
+            : isWatchlist && watchlistIds.length === 0
+              ? ' Your watchlist is empty. Star a coin to keep it here.'
+              : ' No coins match these filters'
+          : layout === 'pages'
+            ? ` Showing items ${offset + 1}-${Math.min(offset + fetchedCoins.length, total)} of ${total}`
+            : `${total} ${total === 1 ? 'coin' : 'coins'}`}
+        {isFiltered && sourceCoins.length > 0 && ` (filtered from ${sourceCoins.length})`}
       </div>
       
-      <ExplorerGrid
-        coins={processedCoins}
-        total={total}
-        canPrev={hasPreviousPage}
-        canNext={hasNextPage}
-        onPrev={goToPreviousPage}
-        onNext={goToNextPage}
-        onTrade={openTrade}
-        isLoading={isLoading}
-        currentPage={page + 1}
-        totalPages={totalPages}
-      />
+      {layout === 'scroll' ? (
+        // A new sort or filter starts again from the top
+        <VirtualCoinGrid
+          key={`${params.tab}|${sortOrder}|${search}|${JSON.stringify(localFilters)}|${randomSeed}`}
+          coins={viewCoins ?? []}
+          onTrade={openTrade}
+          isLoading={isLoading}
+        />
+      ) : (
+        <ExplorerGrid
+          coins={fetchedCoins}
+          total={total}
+          canPrev={hasPreviousPage}
+          canNext={hasNextPage}
+          onPrev={goToPreviousPage}
+          onNext={goToNextPage}
+          onTrade={openTrade}
+          isLoading={isLoading}
+          currentPage={page + 1}
+          totalPages={totalPages}
+        />
+      )}
     </>
   );
 };
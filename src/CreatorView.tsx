@@ -0,0 +1,149 @@
+import { Loader2 } from "lucide-react";
+import { useMemo } from "react";
+import { type Address, formatEther } from "viem";
+import { EXPLORER_URL } from "./components/AddressName";
+import {
+  type CoinData,
+  type LockupBalance,
+  getVestingStatus,
+  useCreatorCoins,
+  useLockupBalances,
+  useWatchCoinReserves,
+} from "./hooks/metadata";
+import { navigate } from "./hooks/use-route";
+import { truncAddress } from "./lib/address";
+import { formatNumber, formatPrice } from "./lib/utils";
+
+const eth = (amount: bigint) => Number(formatEther(amount));
+
+/** Share of the locked liquidity that has vested so far, claimed or not */
+const vestedShare = (lockup: LockupBalance) => {
+  const total = lockup.claimed + lockup.claimableLp + lockup.lockedLp;
+  return total > 0n ? Number(((lockup.claimed + lockup.claimableLp) * 10_000n) / total) / 100 : 0;
+};
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex flex-col">
+    <dt className="text-xs text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">{label}</dt>
+    <dd className="text-sm font-medium tabular-nums">{value}</dd>
+  </div>
+);
+
+const Vesting = ({ lockup, symbol }: { lockup: LockupBalance | null | undefined; symbol: string }) => {
+  if (lockup === undefined) return <Loader2 className="w-3 h-3 animate-spin" />;
+  if (lockup === null) return <span>No lockup</span>;
+
+  const share = vestedShare(lockup);
+  const status = getVestingStatus(lockup);
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <div className="w-20 h-1.5 rounded-full bg-[var(--secondary-light)]">
+          <div className="h-full rounded-full bg-[var(--primary-light)]" style={{ width: `${share}%` }} />
+        </div>
+        <span>
+          {formatNumber(share, 0)}% {status === "vesting" ? "vested" : status}
+        </span>
+      </div>
+      <span>
+        Claimed {formatNumber(eth(lockup.claimedCoins), 0)} {symbol}
+      </span>
+    </div>
+  );
+};
+
+const CreatorCoinRow = ({ coin, lockup }: { coin: CoinData; lockup: LockupBalance | null | undefined }) => {
+  const symbol = coin.symbol ?? "TKN";
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={() => navigate({ view: "coin", coinId: coin.coinId })}
+        className="w-full grid grid-cols-[1fr_auto] sm:grid-cols-[1fr_auto_auto] gap-x-4 gap-y-1 py-2 text-left text-xs border-t border-[var(--border-light)] hover:bg-[var(--secondary-light)] focus:outline-none focus-visible:ring-2 focus-visible:ring-[var(--ring-light)]"
+      >
+        <span className="text-sm font-medium truncate">
+          {coin.name ?? `Token ${coin.coinId.toString()}`} [{symbol}]
+        </span>
+        <span className="text-right tabular-nums">
+          {coin.priceInEth === null ? "—" : `${formatPrice(coin.priceInEth)} ETH`}
+          <span className="block text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+            {formatNumber(eth(coin.reserve0), 4)} ETH liquidity
+          </span>
+        </span>
+        <span className="col-span-2 sm:col-span-1 text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+          <Vesting lockup={lockup} symbol={symbol} />
+        </span>
+      </button>
+    </li>
+  );
+};
+
+/**
+ * A creator's track record: every coin they launched, with its price, liquidity and how their lockup has vested
+ * and been claimed, and totals across them
+ */
+export const CreatorView = ({ address, onBack }: { address: Address; onBack: () => void }) => {
+  const { coins, isLoading, isScanning } = useCreatorCoins(address);
+  const coinIds = useMemo(() => coins.map((coin) => coin.coinId), [coins]);
+  const { data: lockups } = useLockupBalances(coinIds);
+  useWatchCoinReserves(coinIds);
+
+  const totalLiquidity = coins.reduce((sum, coin) => sum + coin.reserve0, 0n);
+  const totalClaimed = coinIds.reduce((sum, coinId) => sum + (lockups?.get(coinId.toString())?.claimedEth ?? 0n), 0n);
+
+  return (
+    <div className="w-full max-w-lg mx-auto flex flex-col gap-4 px-2 py-4 sm:p-6 bg-[var(--card-background-light)] dark:bg-[var(--card-background-dark)] border border-[var(--card-border-light)] dark:border-[var(--card-border-dark)] rounded-[var(--radius-lg)] shadow-xl">
+      <button
+        type="button"
+        onClick={onBack}
+        className="text-sm self-start py-2 px-1 touch-manipulation text-[var(--primary-light)] hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-[var(--ring-light)] rounded-[var(--radius-sm)]"
+      >
+        ⬅︎ Back
+      </button>
+
+      <div className="flex flex-col gap-1">
+        <h2 className="text-lg sm:text-xl font-semibold">Creator {truncAddress(address)}</h2>
+        <a
+          href={`${EXPLORER_URL}/address/${address}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)] break-all hover:underline"
+        >
+          {address}
+        </a>
+      </div>
+
+      <dl className="grid grid-cols-3 gap-2">
+        <Stat label="Coins launched" value={coins.length.toString()} />
+        <Stat label="Total liquidity" value={`${formatNumber(eth(totalLiquidity), 4)} ETH`} />
+        <Stat label="Total claimed" value={`${formatNumber(eth(totalClaimed), 4)} ETH`} />
+      </dl>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-[var(--muted-foreground-light)]">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Finding coins…
+        </div>
+      ) : coins.length === 0 ? (
+        <p className="py-6 text-center text-sm text-[var(--muted-foreground-light)]">
+          No coins launched by this address
+        </p>
+      ) : (
+        <ul className="flex flex-col">
+          {coins.map((coin) => (
+            <CreatorCoinRow key={coin.coinId.toString()} coin={coin} lockup={lockups?.get(coin.coinId.toString())} />
+          ))}
+        </ul>
+      )}
+      {!isLoading && isScanning && (
+        <p className="flex items-center gap-1 text-xs text-[var(--muted-foreground-light)]">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Looking for older launches…
+        </p>
+      )}
+      <p className="text-xs text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+        Claimed liquidity is valued at the pools' current reserves.
+      </p>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
+import { useTokenUriImage } from "./hooks/use-ipfs-image";
 
 export const DisplayTokenUri = ({
   tokenUri,
@@ -11,9 +12,7 @@ export const DisplayTokenUri = ({
 }) => {
   // State to track when image has loaded
   const [, setImageLoaded] = useState(false);
-  const [imageError, setImageError] = useState(false);
-  const [actualImageUrl, setActualImageUrl] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [imageLoadError, setImageError] = useState(false);
   
   // Get a background color based on symbol initials
   const getColorForSymbol = (symbol: string) => {
@@ -29,87 +28,9 @@ export const DisplayTokenUri = ({
   
   const bgColor = getColorForSymbol(symbol);
   
-  // Use direct fetch approach like in SwapTile, which works reliably
-  useEffect(() => {
-    const fetchMetadata = async () => {
-      console.log(`DisplayTokenUri for ${symbol}: Starting fetch for tokenUri:`, tokenUri);
-      
-      if (!tokenUri || tokenUri === "N/A") {
-        console.log(`DisplayTokenUri for ${symbol}: Invalid token URI, skipping fetch`);
-        return;
-      }
-      
-      setIsLoading(true);
-      
-      // Skip for data URIs (if any)
-      if (tokenUri.startsWith('data:')) {
-        console.log(`DisplayTokenUri for ${symbol}: Using data URI directly`);
-        setActualImageUrl(tokenUri);
-        setIsLoading(false);
-        return;
-      }
-      
-      try {
-        // Handle IPFS URIs - use the same gateway as SwapTile
-        let uri;
-        if (tokenUri.startsWith('ipfs://')) {
-          uri = `https://content.wrappr.wtf/ipfs/${tokenUri.slice(7)}`;
-          console.log(`DisplayTokenUri for ${symbol}: Converting IPFS URI to`, uri);
-        } else {
-          uri = tokenUri;
-          console.log(`DisplayTokenUri for ${symbol}: Using http URI directly:`, uri);
-        }
-        
-        console.log(`DisplayTokenUri for ${symbol}: Fetching metadata from: ${uri}`);
-        
-        // Try to fetch as JSON
-        const response = await fetch(uri);
-        
-        if (!response.ok) {
-          console.error(`DisplayTokenUri for ${symbol}: Fetch failed with status:`, response.status);
-          throw new Error(`Failed to fetch metadata: ${response.status}`);
-        }
-        
-        const contentType = response.headers.get('content-type');
-        console.log(`DisplayTokenUri for ${symbol}: Content-Type:`, contentType);
-        
-        // If it's JSON, try to extract image URL
-        if (contentType && contentType.includes('application/json')) {
-          const data = await response.json();
-          console.log(`DisplayTokenUri for ${symbol}: Got metadata:`, data);
-          
-          if (data && data.image) {
-            // Handle IPFS image URL
-            let imageUrl;
-            if (data.image.startsWith('ipfs://')) {
-              imageUrl = `https://content.wrappr.wtf/ipfs/${data.image.slice(7)}`;
-              console.log(`DisplayTokenUri for ${symbol}: Converting image IPFS URI to:`, imageUrl);
-            } else {
-              imageUrl = data.image;
-              console.log(`DisplayTokenUri for ${symbol}: Using image URL directly:`, imageUrl);
-            }
-            
-            console.log(`DisplayTokenUri for ${symbol}: Setting image URL:`, imageUrl);
-            setActualImageUrl(imageUrl);
-          } else {
-            console.error(`DisplayTokenUri for ${symbol}: No image field in metadata:`, data);
-            throw new Error('No image in metadata');
-          }
-        } else {
-          // If not JSON, use URI directly as image
-          console.log(`DisplayTokenUri for ${symbol}: Not JSON, using URI directly as image:`, uri);
-          setActualImageUrl(uri);
-        }
-      } catch (err) {
-        console.error(`DisplayTokenUri for ${symbol}: Error fetching metadata:`, err);
-        setImageError(true);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    fetchMetadata();
-  }, [tokenUri, symbol]);
+  // Metadata and image both resolve through the IPFS gateway race
+  const { src: actualImageUrl, isLoading, failed } = useTokenUriImage(tokenUri);
+  const imageError = imageLoadError || failed;
   
   // Fallback for invalid token URIs
   if (!tokenUri || tokenUri === "N/A") {
@@ -1,5 +1,5 @@
 import { CoinCard } from "./components/CoinCard";
-import { type CoinData } from "./hooks/metadata";
+import { type CoinData, useWatchCoinReserves } from "./hooks/metadata";
 import { Loader2 } from "lucide-react";
 
 // Default page size
@@ -28,6 +28,9 @@ export const ExplorerGrid = ({
   currentPage?: number;
   totalPages?: number;
 }) => {
+  // Cards on screen get their reserves refreshed on the fast cadence
+  useWatchCoinReserves(coins.map(coin => coin.coinId));
+
   // Debug: Log coin data for troubleshooting
   console.log(`ExplorerGrid rendering with ${coins.length} coins, page ${currentPage}/${totalPages}`);
   
@@ -1,4 +1,5 @@
 import { Send, Github, X } from 'lucide-react';
+import { navigate } from './hooks/use-route';
 
 const Footer = () => {
   // Placeholder URLs - replace with actual links
@@ -8,10 +9,8 @@ const Footer = () => {
     x: "https://x.com",
   };
 
-  // Placeholder for view change, assuming a similar mechanism to App.tsx
-  // You might need to pass down setView or use a global state/context
-  const handleNavClick = (view: string) => {
-    window.dispatchEvent(new CustomEvent('coinchan:setView', { detail: view }));
+  const handleNavClick = (view: 'swap' | 'form' | 'explorer') => {
+    navigate({ view });
   };
 
   return (
@@ -1,9 +1,11 @@
 import React from 'react';
 import { ConnectMenu } from './ConnectMenu';
+import { RpcSettings } from './components/RpcSettings';
+import { TransactionHistory } from './components/TransactionHistory';
+import type { RouteView } from './hooks/use-route';
 
-// Define the possible view states that the Header can navigate to.
-// This should match the view states in App.tsx.
-export type AppView = "menu" | "form" | "memepaper" | "swap" | "explorer";
+// The views the Header can navigate to; each has its own URL (see use-route.ts)
+export type AppView = RouteView;
 
 interface HeaderProps {
   setView: (view: AppView) => void;
@@ -57,6 +59,8 @@ export const Header: React.FC<HeaderProps> = ({ setView, currentView }) => {
           which is important if ConnectMenu itself doesn't manage its minimum size well.
         */}
         <div className="flex items-center min-w-0">
+          <TransactionHistory />
+          <RpcSettings />
           <ConnectMenu />
         </div>
       </nav>
@@ -1,48 +1,61 @@
 import { mainnet } from "viem/chains";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import {
-  useWriteContract,
   useWaitForTransactionReceipt,
   useAccount,
   usePublicClient,
   useChainId,
   useBalance,
 } from "wagmi";
-import { handleWalletError, isUserRejectionError } from "./utils";
+import { handleWalletError } from "./utils";
+import { type WalletError, createWalletError } from "./utils/errorHandling";
+import { WalletErrorNotice } from "./components/WalletErrorNotice";
+import { useSimulatedWriteContract } from "./hooks/use-simulated-write";
 import {
   parseEther,
   parseUnits,
   formatEther,
   formatUnits,
-  keccak256,
-  zeroAddress,
-  encodeAbiParameters,
-  parseAbiParameters,
 } from "viem";
 import { CoinsAbi, CoinsAddress } from "./constants/Coins";
 import { ZAAMAbi, ZAAMAddress } from "./constants/ZAAM";
 import { ZAMMHelperAbi, ZAMMHelperAddress } from "./constants/ZAMMHelper";
 import { ZAMMSingleLiqETHAbi, ZAMMSingleLiqETHAddress } from "./constants/ZAMMSingleLiqETH";
 import { CoinchanAbi, CoinchanAddress } from "./constants/Coinchan";
+import {
+  SWAP_FEE,
+  computePoolKey,
+  computePoolId,
+  getAmountOut,
+  getAmountIn,
+  getHopBreakdown,
+  nowSec,
+  quoteExactIn,
+  quoteExactOut,
+  withSlippage,
+} from "./lib/amm";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, ArrowDownUp, Plus, Minus } from "lucide-react";
+import { Loader2, ArrowDownUp, Plus, Minus, Star } from "lucide-react";
+import { SwapSettingsPopover } from "./components/SwapSettingsPopover";
+import { QuoteDetails, type QuoteHop, type QuoteLimit, type QuoteRefund, isHighPriceImpact } from "./components/QuoteDetails";
+import { useSwapSettings } from "./hooks/use-swap-settings";
+import { recordTransaction } from "./hooks/use-transactions";
+import { navigate, useRoute } from "./hooks/use-route";
+import { useWatchlist } from "./hooks/use-watchlist";
+import { useCoinRoute } from "./hooks/use-coin-route";
+import { useTokenUriImage } from "./hooks/use-ipfs-image";
+import { type CoinData, reservesEqual, useCoinSearch, useGlobalCoinsData, usePoolMovedSinceQuote, usePoolReserves, useWatchCoinReserves } from "./hooks/metadata";
+import { type RouteToken, encodeRouteMulticall, findBestRoute } from "./lib/router";
 
 /* ────────────────────────────────────────────────────────────────────────────
   CONSTANTS & HELPERS
 ──────────────────────────────────────────────────────────────────────────── */
-const SWAP_FEE = 100n; // 1% pool fee
-const SLIPPAGE_BPS = 100n; // 1% slippage tolerance
-const DEADLINE_SEC = 20 * 60; // 20 minutes
-
 // Frontend fee parameters
 // const FEE_RECIPIENT_ADDRESS = "0xB23e4c5F2d5e415F256B8a758900cCE0eec7f0A2"; // <<< REPLACE THIS
 // const FRONTEND_FEE_BPS = 10n; // 0.1% fee (10 basis points)
 
-const withSlippage = (amount: bigint) =>
-  (amount * (10000n - SLIPPAGE_BPS)) / 10000n;
-
 export interface TokenMeta {
   id: bigint | null; // null = ETH pseudo-token
   name: string;
@@ -74,54 +87,6 @@ const ETH_TOKEN: TokenMeta = {
   balance: 0n, // Will be updated with actual balance in useAllTokens hook
 };
 
-const computePoolKey = (coinId: bigint) => ({
-  id0: 0n,
-  id1: coinId,
-  token0: zeroAddress,
-  token1: CoinsAddress,
-  swapFee: SWAP_FEE,
-});
-
-const computePoolId = (coinId: bigint) =>
-  BigInt(keccak256(
-    encodeAbiParameters(
-      parseAbiParameters(
-        "uint256 id0, uint256 id1, address token0, address token1, uint96 swapFee",
-      ),
-      [0n, coinId, zeroAddress, CoinsAddress, SWAP_FEE],
-    ),
-  ));
-
-// x*y=k AMM with fee — forward (amountIn → amountOut)
-const getAmountOut = (
-  amountIn: bigint,
-  reserveIn: bigint,
-  reserveOut: bigint,
-  swapFee: bigint,
-) => {
-  if (amountIn === 0n || reserveIn === 0n || reserveOut === 0n) return 0n;
-  
-  const amountInWithFee = amountIn * (10000n - swapFee);
-  const numerator = amountInWithFee * reserveOut;
-  const denominator = reserveIn * 10000n + amountInWithFee;
-  return numerator / denominator;
-};
-
-// inverse — desired amountOut → required amountIn
-const getAmountIn = (
-  amountOut: bigint,
-  reserveIn: bigint,
-  reserveOut: bigint,
-  swapFee: bigint,
-) => {
-  if (amountOut === 0n || reserveIn === 0n || reserveOut === 0n || amountOut >= reserveOut) 
-    return 0n;
-    
-  const numerator = reserveIn * amountOut * 10000n;
-  const denominator = (reserveOut - amountOut) * (10000n - swapFee);
-  return numerator / denominator + 1n; // +1 for ceiling rounding
-};
-
 /* ────────────────────────────────────────────────────────────────────────────
   HOOK: Simplified approach to fetch all tokens with tokenUri and balances
 ──────────────────────────────────────────────────────────────────────────── */
@@ -435,6 +400,22 @@ const useAllTokens = () => {
 /* ────────────────────────────────────────────────────────────────────────────
   ENHANCED TOKEN SELECTOR: With thumbnail display
 ──────────────────────────────────────────────────────────────────────────── */
+// Search results shown in the dropdown
+const TOKEN_SEARCH_LIMIT = 50;
+
+// Search results can be any coin, not just the ones loaded with balances
+const coinToTokenMeta = (coin: CoinData): TokenMeta => ({
+  id: coin.coinId,
+  name: coin.name || `Token ${coin.coinId.toString()}`,
+  symbol: coin.symbol || "TKN",
+  tokenUri: coin.tokenURI,
+  reserve0: coin.reserve0,
+  reserve1: coin.reserve1,
+});
+
+// How a token appears in /swap links: "eth" or the coin ID
+const tokenParam = (token: TokenMeta) => (token.id === null ? "eth" : token.id.toString());
+
 const TokenSelector = ({
   selectedToken,
   tokens,
@@ -448,11 +429,38 @@ const TokenSelector = ({
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const selectedValue = selectedToken.id?.toString() ?? "eth";
+
+  // Searches every coin through the shared index; tokens we already hold keep their balances
+  const [query, setQuery] = useState("");
+  const { results } = useCoinSearch(query, TOKEN_SEARCH_LIMIT);
+  // Watchlisted coins are pinned under ETH until a search is typed
+  const { coinIds: watchlistIds, isWatched } = useWatchlist();
+  const { allCoins } = useGlobalCoinsData();
+  const visibleTokens = useMemo(() => {
+    const loaded = new Map(tokens.map((token) => [token.id?.toString() ?? "eth", token]));
+    if (!results) {
+      if (watchlistIds.length === 0) return tokens;
+      const coins = new Map(allCoins.map((coin) => [coin.coinId, coin]));
+      const pinned = watchlistIds.flatMap((id) => {
+        const token = loaded.get(id.toString());
+        if (token) return [token];
+        const coin = coins.get(id);
+        return coin ? [coinToTokenMeta(coin)] : [];
+      });
+      const rest = tokens.filter((token) => token.id !== null && !isWatched(token.id));
+      return [...tokens.filter((token) => token.id === null), ...pinned, ...rest];
+    }
+    const term = query.trim().toLowerCase();
+    const eth = loaded.get("eth");
+    const ethMatch = eth && ("eth".startsWith(term) || "ether".startsWith(term)) ? [eth] : [];
+    return [...ethMatch, ...results.map(({ coin }) => loaded.get(coin.coinId.toString()) ?? coinToTokenMeta(coin))];
+  }, [tokens, results, query, watchlistIds, isWatched, allCoins]);
   
   // Handle selection change
   const handleSelect = (token: TokenMeta) => {
     onSelect(token);
     setIsOpen(false);
+    setQuery("");
   };
   
   // Helper functions for formatting and display
@@ -537,55 +545,12 @@ const TokenSelector = ({
   // Custom token image display with JSON metadata handling
   const TokenImage = ({ token }: { token: TokenMeta }) => {
     const [imageLoaded, setImageLoaded] = useState(false);
-    const [imageError, setImageError] = useState(false);
-    const [actualImageUrl, setActualImageUrl] = useState<string | null>(null);
+    const [imageLoadError, setImageError] = useState(false);
     const { bg, text } = getColorForSymbol(token.symbol);
-    
-    // Try to fetch JSON metadata if the token URI might be a metadata URI
-    useEffect(() => {
-      const fetchMetadata = async () => {
-        if (!token.tokenUri) return;
-        
-        // Skip for data URIs like the ETH SVG
-        if (token.tokenUri.startsWith('data:')) {
-          setActualImageUrl(token.tokenUri);
-          return;
-        }
-        
-        try {
-          // Handle IPFS URIs
-          const uri = token.tokenUri.startsWith('ipfs://') 
-            ? `https://content.wrappr.wtf/ipfs/${token.tokenUri.slice(7)}` 
-            : token.tokenUri;
-            
-          // Try to fetch as JSON (might be metadata)
-          const response = await fetch(uri);
-          const contentType = response.headers.get('content-type');
-          
-          // If it's JSON, try to extract image URL
-          if (contentType && contentType.includes('application/json')) {
-            const data = await response.json();
-            if (data && data.image) {
-              // Handle IPFS image URL
-              const imageUrl = data.image.startsWith('ipfs://') 
-                ? `https://content.wrappr.wtf/ipfs/${data.image.slice(7)}` 
-                : data.image;
-                
-              setActualImageUrl(imageUrl);
-              return;
-            }
-          }
-          
-          // If not valid JSON or no image field, use the URI directly
-          setActualImageUrl(uri);
-        } catch (err) {
-          console.error(`Error fetching metadata for ${token.symbol}:`, err);
-          setImageError(true);
-        }
-      };
-      
-      fetchMetadata();
-    }, [token.tokenUri, token.symbol]);
+
+    // Token URIs point at metadata JSON or straight at an image; both resolve through the IPFS gateways
+    const { src: actualImageUrl, failed } = useTokenUriImage(token.tokenUri);
+    const imageError = imageLoadError || failed;
     
     // If token has no URI, show colored initial
     if (!token.tokenUri) {
@@ -668,23 +633,9 @@ const TokenSelector = ({
             <div className="relative">
               <input
                 type="text"
-                placeholder="Search by symbol..."
-                onChange={(e) => {
-                  // Simply hide/show elements based on the search text
-                  const query = e.target.value.toLowerCase();
-                  
-                  // Get all token items by data attribute
-                  document.querySelectorAll('[data-token-symbol]').forEach(item => {
-                    const symbol = item.getAttribute('data-token-symbol')?.toLowerCase() || '';
-                    const name = item.getAttribute('data-token-name')?.toLowerCase() || '';
-                    
-                    if (symbol.includes(query) || name.includes(query)) {
-                      item.classList.remove('hidden');
-                    } else {
-                      item.classList.add('hidden');
-                    }
-                  });
-                }}
+                placeholder="Search name, symbol or ID..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
                 className="w-full p-2 pl-8 border border-[var(--input-border-light)] bg-[var(--input-background-light)] text-[var(--input-foreground-light)] rounded-[var(--radius-sm)] focus:outline-none focus:ring-2 focus:ring-[var(--ring-light)] text-sm placeholder:text-[var(--muted-foreground-light)]"
               />
               <svg 
@@ -698,7 +649,10 @@ const TokenSelector = ({
             </div>
           </div>
           
-          {tokens.map((token) => {
+          {visibleTokens.length === 0 && (
+            <div className="p-3 text-sm text-[var(--muted-foreground-light)]">No coins found</div>
+          )}
+          {visibleTokens.map((token) => {
             const isSelected = 
               (token.id === null && selectedValue === "eth") || 
               (token.id !== null && token.id.toString() === selectedValue);
@@ -740,9 +694,6 @@ const TokenSelector = ({
               <div 
                 key={token.id?.toString() ?? "eth"}
                 onClick={() => handleSelect(token)}
-                data-token-symbol={token.symbol}
-                data-token-name={token.name}
-                data-token-id={token.id?.toString() ?? "eth"}
                 className={`flex items-center justify-between p-3 sm:p-2 hover:bg-[var(--accent-light)]/10 cursor-pointer touch-manipulation ${
                   isSelected ? "bg-[var(--accent-light)]/20" : ""
                 }`}
@@ -750,7 +701,12 @@ const TokenSelector = ({
                 <div className="flex items-center gap-2">
                   <TokenImage token={token} />
                   <div className="flex flex-col">
-                    <span className="font-medium text-[var(--foreground-light)]">{token.symbol}</span>
+                    <span className="flex items-center gap-1 font-medium text-[var(--foreground-light)]">
+                      {token.symbol}
+                      {token.id !== null && isWatched(token.id) && (
+                        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" aria-label="On your watchlist" />
+                      )}
+                    </span>
                     {reserves && (
                       <span className="text-xs text-[var(--muted-foreground-light)]">{reserves}</span>
                     )}
@@ -783,6 +739,12 @@ type LiquidityMode = "add" | "remove" | "single-eth";
 ──────────────────────────────────────────────────────────────────────────── */
 export const SwapTile = () => {
   const { tokens, loading, error: loadError, isEthBalanceFetching } = useAllTokens();
+  // Coins in the wallet get their reserves refreshed on the fast cadence
+  const heldCoinIds = useMemo(
+    () => tokens.filter(t => t.id !== null && (t.balance ?? 0n) > 0n).map(t => t.id as bigint),
+    [tokens]
+  );
+  useWatchCoinReserves(heldCoinIds);
   const [sellToken, setSellToken] = useState<TokenMeta>(ETH_TOKEN);
   const [buyToken, setBuyToken] = useState<TokenMeta | null>(null);
   const [mode, setMode] = useState<TileMode>("swap");
@@ -921,82 +883,166 @@ export const SwapTile = () => {
   const isSellETH = sellToken.id === null;
   const isCoinToCoin = sellToken.id !== null && buyToken?.id !== null && buyToken?.id !== undefined && sellToken.id !== buyToken.id;
   const coinId = (isSellETH ? buyToken?.id : sellToken.id) ?? 0n;
+  const coinSymbol = (isSellETH ? buyToken?.symbol : sellToken.symbol) ?? "";
 
   /* user inputs */
   const [sellAmt, setSellAmt] = useState("");
   const [buyAmt, setBuyAmt] = useState("");
+  // Which side the user typed: "in" swaps via swapExactIn, "out" via swapExactOut
+  const [swapExactSide, setSwapExactSide] = useState<"in" | "out">("in");
   const [txHash, setTxHash] = useState<`0x${string}`>();
   const [txError, setTxError] = useState<string | null>(null);
+  const [walletError, setWalletError] = useState<WalletError | null>(null);
+  const { slippage, deadlineSec } = useSwapSettings();
+
+  /* deep links: /swap?from=&to=&amount= */
+  const route = useRoute();
+  const { allCoins } = useGlobalCoinsData();
+  const [linkApplied, setLinkApplied] = useState(false);
+
+  // Take the pair and amount from the URL once the coins it names have loaded
+  useEffect(() => {
+    if (linkApplied) return;
+    if (route.view !== "swap") return setLinkApplied(true);
+
+    // undefined while the coin may still be loading; null when the param is missing or names no coin
+    const resolve = (param: string | undefined): TokenMeta | null | undefined => {
+      if (!param) return null;
+      if (param.toLowerCase() === "eth") return tokens.find(token => token.id === null) ?? ETH_TOKEN;
+      if (!/^\d+$/.test(param)) return null;
+      const id = BigInt(param);
+      const loaded = tokens.find(token => token.id === id);
+      if (loaded) return loaded;
+      const coin = allCoins?.find(coin => coin.coinId === id);
+      if (coin) return coinToTokenMeta(coin);
+      return loading || !allCoins?.length ? undefined : null;
+    };
+    const from = resolve(route.from);
+    const to = resolve(route.to);
+    if (from === undefined || to === undefined) return;
+
+    if (from) setSellToken(from);
+    if (to && to.id !== from?.id) setBuyToken(to);
+    if (route.amount && /^\d*\.?\d+$/.test(route.amount)) {
+      setSellAmt(route.amount);
+      setSwapExactSide("in");
+    }
+    setLinkApplied(true);
+  }, [linkApplied, route, tokens, allCoins, loading]);
+
+  // Keep the URL on the current pair and amount so it can be shared; edits replace the entry rather than add to history
+  const fromParam = tokenParam(sellToken);
+  const toParam = buyToken ? tokenParam(buyToken) : undefined;
+  useEffect(() => {
+    if (!linkApplied || mode !== "swap") return;
+    navigate({ view: "swap", from: fromParam, to: toParam, amount: sellAmt || undefined }, { replace: true });
+  }, [linkApplied, mode, fromParam, toParam, sellAmt]);
 
   /* additional wagmi hooks */
-  const { writeContractAsync, isPending, error: writeError } = useWriteContract();
+  const { writeContractAsync, isPending } = useSimulatedWriteContract();
   const { isSuccess } = useWaitForTransactionReceipt({ hash: txHash });
   const chainId = useChainId();
   
-  /* Calculate pool reserves */
-  const [reserves, setReserves] = useState<{ reserve0: bigint, reserve1: bigint } | null>(null);
-  const [targetReserves, setTargetReserves] = useState<{ reserve0: bigint, reserve1: bigint } | null>(null);
+  /* Pool reserves, kept current from the pool's Sync events */
+  const { reserves, refresh: refreshReserves } = usePoolReserves(coinId);
+  // A pool move after the user entered the trade has to be accepted; coin-to-coin routes are re-simulated instead
+  // The trade as the user entered it; the other amount is derived and follows the pool
+  const tradeKey = `${sellToken.id}-${buyToken?.id}-${swapExactSide}-${swapExactSide === "in" ? sellAmt : buyAmt}`;
+  const { moved: poolMoved, accept: acceptPoolMoved } = usePoolMovedSinceQuote(
+    isCoinToCoin ? null : reserves,
+    tradeKey,
+  );
+
+  // Best coin-to-coin route (direct pool, via ETH, or via one of the deepest pools), simulated when connected
+  const routeVia = useMemo(
+    () => tokens.filter((t) => t.id !== null && (t.reserve0 ?? 0n) > 0n).slice(0, 3).map((t) => t.id as bigint),
+    [tokens],
+  );
+  const routeAmountIn = useMemo(() => {
+    try {
+      return isCoinToCoin && sellAmt ? parseUnits(sellAmt, 18) : 0n;
+    } catch {
+      return 0n;
+    }
+  }, [isCoinToCoin, sellAmt]);
+  const { data: routeQuote, isFetching: isRouteFetching } = useCoinRoute({
+    source: isCoinToCoin ? sellToken.id : null,
+    target: isCoinToCoin ? buyToken?.id : null,
+    amountIn: routeAmountIn,
+    via: routeVia,
+  });
+  const routeSymbol = useCallback(
+    (token: RouteToken) =>
+      token === null ? "ETH" : (tokens.find((t) => t.id === token)?.symbol ?? `#${token.toString()}`),
+    [tokens],
+  );
 
-  // Fetch reserves directly
+  // Coin-to-coin output comes from the router rather than local reserve math
   useEffect(() => {
-    const fetchReserves = async () => {
-      if (!coinId || coinId === 0n || !publicClient) return;
-      
-      try {
-        const poolId = computePoolId(coinId);
-        const result = await publicClient.readContract({
-          address: ZAAMAddress,
-          abi: ZAAMAbi,
-          functionName: "pools",
-          args: [poolId],
-        });
-        
-        // Handle the returned data structure correctly
-        // The contract might return more fields than just the reserves
-        // Cast to unknown first, then extract the reserves from the array
-        const poolData = result as unknown as readonly bigint[];
-        
-        setReserves({
-          reserve0: poolData[0],
-          reserve1: poolData[1]
-        });
-      } catch (err) {
-        console.error("Failed to fetch reserves:", err);
-        setReserves(null);
+    if (!isCoinToCoin || swapExactSide !== "in") return;
+    setBuyAmt(routeQuote ? formatUnits(routeQuote.amountOut, 18) : "");
+  }, [isCoinToCoin, swapExactSide, routeQuote]);
+
+  // Per-hop quote breakdown (mid vs execution price, impact, fee) + slippage limit for the swap panel
+  const quote = useMemo((): { hops: QuoteHop[]; limit: QuoteLimit; refunds?: QuoteRefund[] } | null => {
+    if (!canSwap || !reserves || !buyToken) return null;
+    try {
+      if (isCoinToCoin) {
+        if (!routeQuote || !sellAmt) return null;
+        return {
+          hops: routeQuote.hops.map((hop) => ({
+            symbolIn: routeSymbol(hop.tokenIn),
+            symbolOut: routeSymbol(hop.tokenOut),
+            breakdown: getHopBreakdown(hop.amountIn, hop.reserveIn, hop.reserveOut, hop.poolKey.swapFee),
+          })),
+          limit: { label: "Minimum received", amount: routeQuote.amountOutMin, symbol: buyToken.symbol },
+          refunds: routeQuote.refunds.map((refund) => ({ amount: refund.amount, symbol: routeSymbol(refund.token) })),
+        };
       }
-    };
-    
-    fetchReserves();
-  }, [coinId, publicClient]);
-  
-  // Fetch target reserves for coin-to-coin swaps
-  useEffect(() => {
-    const fetchTargetReserves = async () => {
-      if (!isCoinToCoin || !buyToken?.id || buyToken.id === 0n || !publicClient) return;
-      
-      try {
-        const targetPoolId = computePoolId(buyToken.id);
-        const result = await publicClient.readContract({
-          address: ZAAMAddress,
-          abi: ZAAMAbi,
-          functionName: "pools",
-          args: [targetPoolId],
-        });
-        
-        const poolData = result as unknown as readonly bigint[];
-        
-        setTargetReserves({
-          reserve0: poolData[0],
-          reserve1: poolData[1]
-        });
-      } catch (err) {
-        console.error("Failed to fetch target reserves:", err);
-        setTargetReserves(null);
+
+      const [reserveIn, reserveOut] = isSellETH
+        ? [reserves.reserve0, reserves.reserve1]
+        : [reserves.reserve1, reserves.reserve0];
+      const hop = { symbolIn: sellToken.symbol, symbolOut: buyToken.symbol };
+
+      if (swapExactSide === "out") {
+        if (!buyAmt) return null;
+        const { amountIn, amountInMax } = quoteExactOut(
+          isSellETH ? parseUnits(buyAmt, 18) : parseEther(buyAmt),
+          reserves,
+          isSellETH,
+          slippage,
+        );
+        if (amountIn === 0n) return null;
+        return {
+          hops: [{ ...hop, breakdown: getHopBreakdown(amountIn, reserveIn, reserveOut, SWAP_FEE) }],
+          limit: { label: "Maximum sent", amount: amountInMax, symbol: sellToken.symbol },
+        };
       }
-    };
-    
-    fetchTargetReserves();
-  }, [isCoinToCoin, buyToken?.id, publicClient]);
+
+      if (!sellAmt) return null;
+      const amountIn = isSellETH ? parseEther(sellAmt) : parseUnits(sellAmt, 18);
+      const { amountOut, amountOutMin } = quoteExactIn(amountIn, reserves, isSellETH, slippage);
+      if (amountOut === 0n) return null;
+      return {
+        hops: [{ ...hop, breakdown: getHopBreakdown(amountIn, reserveIn, reserveOut, SWAP_FEE) }],
+        limit: { label: "Minimum received", amount: amountOutMin, symbol: buyToken.symbol },
+      };
+    } catch {
+      return null;
+    }
+  }, [canSwap, reserves, routeQuote, routeSymbol, buyToken, sellToken.symbol, isCoinToCoin, isSellETH, swapExactSide, sellAmt, buyAmt, slippage]);
+
+  // High-impact trades need an explicit confirm, given for one trade; editing the trade voids it, while pool moves
+  // are flagged by usePoolMovedSinceQuote instead
+  const impactKey = `${mode}-${tradeKey}`;
+  const [impactConfirmedFor, setImpactConfirmedFor] = useState<string | null>(null);
+  const impactConfirmed = impactConfirmedFor === impactKey;
+  const setImpactConfirmed = useCallback(
+    (confirmed: boolean) => setImpactConfirmedFor(confirmed ? impactKey : null),
+    [impactKey],
+  );
+  const needsImpactConfirm = mode === "swap" && quote !== null && isHighPriceImpact(quote.hops);
   
   // Fetch LP token balance when a pool is selected and user is connected
   useEffect(() => {
@@ -1176,34 +1222,14 @@ export const SwapTile = () => {
     
     // Regular Add Liquidity or Swap mode
     setSellAmt(val);
+    setSwapExactSide("in");
     if (!canSwap || !reserves) return setBuyAmt("");
     
     try {
       // Different calculation paths based on swap type
-      if (isCoinToCoin && targetReserves && buyToken?.id && sellToken.id) {
-        // For coin-to-coin swaps, we need to estimate a two-hop swap
-        try {
-          // Dynamically import helper to avoid circular dependencies
-          const { estimateCoinToCoinOutput } = await import('./lib/swapHelper');
-          
-          const inUnits = parseUnits(val || "0", 18);
-          const { amountOut } = estimateCoinToCoinOutput(
-            sellToken.id,
-            buyToken.id,
-            inUnits,
-            reserves,
-            targetReserves
-          );
-          
-          // For debugging purposes, log the estimated ETH intermediary amount
-          if (amountOut > 0n) {
-          }
-          
-          setBuyAmt(amountOut === 0n ? "" : formatUnits(amountOut, 18));
-        } catch (err) {
-          console.error("Error estimating coin-to-coin output:", err);
-          setBuyAmt("");
-        }
+      if (isCoinToCoin) {
+        // Output is filled in from the router quote (see useCoinRoute above)
+        if (!val) setBuyAmt("");
       } else if (isSellETH) {
         // ETH → Coin path
         const inWei = parseEther(val || "0");
@@ -1232,6 +1258,7 @@ export const SwapTile = () => {
 
   const syncFromBuy = async (val: string) => {
     setBuyAmt(val);
+    setSwapExactSide("out");
     if (!canSwap || !reserves) return setSellAmt("");
     
     try {
@@ -1269,9 +1296,20 @@ export const SwapTile = () => {
     }
   };
 
+  // Live reserves re-quote the side the user didn't type (coin-to-coin output follows the router);
+  // an amount from a link is quoted the same way. The re-quote reads the latest trade through a ref, so
+  // only new reserves or an applied link trigger it, not every keystroke
+  const requote = useRef(() => {});
+  requote.current = () => {
+    if (mode !== "swap" || isCoinToCoin) return;
+    if (swapExactSide === "in" && sellAmt) syncFromSell(sellAmt);
+    else if (swapExactSide === "out" && buyAmt) syncFromBuy(buyAmt);
+  };
+  useEffect(() => {
+    if (reserves && linkApplied) requote.current();
+  }, [reserves, linkApplied]);
+
   /* perform swap */
-  const nowSec = () => BigInt(Math.floor(Date.now() / 1000));
-  
   // Execute Single-Sided ETH Liquidity Provision
   const executeSingleETHLiquidity = async () => {
     // Validate inputs
@@ -1286,11 +1324,12 @@ export const SwapTile = () => {
     }
     
     setTxError(null);
+    setWalletError(null);
     
     try {
       // Check if we're on mainnet
       if (chainId !== mainnet.id) {
-        setTxError("Please connect to Ethereum mainnet to perform this action");
+        setWalletError(createWalletError("wrong-chain"));
         return;
       }
       
@@ -1304,7 +1343,7 @@ export const SwapTile = () => {
       
       // Use the selected buyToken's ID to compute the pool key
       const targetPoolKey = computePoolKey(targetTokenId);
-      const deadline = nowSec() + BigInt(DEADLINE_SEC);
+      const deadline = nowSec() + BigInt(deadlineSec);
       const ethAmount = parseEther(sellAmt);
       
       // Get the reserves for the selected token
@@ -1353,11 +1392,11 @@ export const SwapTile = () => {
       );
       
       // Apply slippage tolerance to the token amount
-      const minTokenAmount = withSlippage(estimatedTokens);
+      const minTokenAmount = withSlippage(estimatedTokens, slippage);
       
       // Min amounts for the addLiquidity portion
-      const amount0Min = withSlippage(halfEthAmount);
-      const amount1Min = withSlippage(estimatedTokens);
+      const amount0Min = withSlippage(halfEthAmount, slippage);
+      const amount1Min = withSlippage(estimatedTokens, slippage);
       
       
       // Call addSingleLiqETH on the ZAMMSingleLiqETH contract
@@ -1377,12 +1416,20 @@ export const SwapTile = () => {
       });
       
       setTxHash(hash);
+      recordTransaction({
+        hash,
+        type: "add-liquidity",
+        description: `Add ${buyToken.symbol} liquidity with ETH`,
+        account: address,
+        coinIds: [targetTokenId],
+        amounts: [{ amount: ethAmount, symbol: "ETH" }],
+      });
     } catch (err) {
       // Use our utility to handle wallet errors
-      const errorMsg = handleWalletError(err);
-      if (errorMsg) {
+      const failure = handleWalletError(err);
+      if (failure) {
         console.error("Single-sided ETH liquidity execution error:", err);
-        setTxError(errorMsg);
+        setWalletError(failure);
       }
     }
   };
@@ -1407,20 +1454,21 @@ export const SwapTile = () => {
     }
     
     setTxError(null);
+    setWalletError(null);
     
     try {
       // Check if we're on mainnet
       if (chainId !== mainnet.id) {
-        setTxError("Please connect to Ethereum mainnet to perform this action");
+        setWalletError(createWalletError("wrong-chain"));
         return;
       }
       
       const poolKey = computePoolKey(coinId);
-      const deadline = nowSec() + BigInt(DEADLINE_SEC);
+      const deadline = nowSec() + BigInt(deadlineSec);
       
       // Parse the minimum amounts from the displayed expected return
-      const amount0Min = sellAmt ? withSlippage(parseEther(sellAmt)) : 0n;
-      const amount1Min = buyAmt ? withSlippage(parseUnits(buyAmt, 18)) : 0n;
+      const amount0Min = sellAmt ? withSlippage(parseEther(sellAmt), slippage) : 0n;
+      const amount1Min = buyAmt ? withSlippage(parseUnits(buyAmt, 18), slippage) : 0n;
       
       
       // Call removeLiquidity on the ZAMM contract
@@ -1439,12 +1487,20 @@ export const SwapTile = () => {
       });
       
       setTxHash(hash);
+      recordTransaction({
+        hash,
+        type: "remove-liquidity",
+        description: `Remove ${coinSymbol} liquidity`,
+        account: address,
+        coinIds: [coinId],
+        amounts: [{ amount: burnAmount, symbol: "LP" }],
+      });
     } catch (err) {
       // Use our utility to handle wallet errors
-      const errorMsg = handleWalletError(err);
-      if (errorMsg) {
+      const failure = handleWalletError(err);
+      if (failure) {
         console.error("Remove liquidity execution error:", err);
-        setTxError(errorMsg);
+        setWalletError(failure);
       }
     }
   };
@@ -1467,16 +1523,17 @@ export const SwapTile = () => {
     }
     
     setTxError(null);
+    setWalletError(null);
     
     try {
       // Check if we're on mainnet
       if (chainId !== mainnet.id) {
-        setTxError("Please connect to Ethereum mainnet to perform this action");
+        setWalletError(createWalletError("wrong-chain"));
         return;
       }
       
       const poolKey = computePoolKey(coinId);
-      const deadline = nowSec() + BigInt(DEADLINE_SEC);
+      const deadline = nowSec() + BigInt(deadlineSec);
       
       // In ZAMM's design, for all pools:
       // - token0 is always ETH (zeroAddress), id0 is 0
@@ -1512,6 +1569,13 @@ export const SwapTile = () => {
             functionName: "setOperator",
             args: [ZAAMAddress, true],
           });
+          recordTransaction({
+            hash: approvalHash,
+            type: "approval",
+            description: `Approve ZAMM to trade ${coinSymbol}`,
+            account: address,
+            coinIds: [coinId],
+          });
           
           // Show a waiting message
           setTxError("Operator approval submitted. Waiting for confirmation...");
@@ -1531,10 +1595,11 @@ export const SwapTile = () => {
           }
         } catch (err) {
           // Use our utility to handle wallet errors
-          const errorMsg = handleWalletError(err);
-          if (errorMsg) {
+          const failure = handleWalletError(err);
+          if (failure) {
             console.error("Failed to approve operator:", err);
-            setTxError("Failed to approve the liquidity contract as operator");
+            setTxError(null);
+            setWalletError(failure);
           }
           return;
         }
@@ -1562,8 +1627,8 @@ export const SwapTile = () => {
         // Detailed logging to help with debugging
         
         // Calculate minimum amounts based on the actual amounts that will be used by the contract
-        const actualAmount0Min = withSlippage(calcAmount0);
-        const actualAmount1Min = withSlippage(calcAmount1);
+        const actualAmount0Min = withSlippage(calcAmount0, slippage);
+        const actualAmount1Min = withSlippage(calcAmount1, slippage);
         
         
         // Use the ethAmount from ZAMMHelper as the exact value to send
@@ -1585,37 +1650,34 @@ export const SwapTile = () => {
         });
         
         setTxHash(hash);
+        recordTransaction({
+          hash,
+          type: "add-liquidity",
+          description: `Add ETH/${coinSymbol} liquidity`,
+          account: address,
+          coinIds: [coinId],
+          amounts: [
+            { amount: ethAmount, symbol: "ETH" },
+            { amount: calcAmount1, symbol: coinSymbol },
+          ],
+        });
       } catch (calcErr) {
         // Use our utility to handle wallet errors
-        const errorMsg = handleWalletError(calcErr);
-        if (errorMsg) {
+        const failure = handleWalletError(calcErr);
+        if (failure) {
           console.error("Error calling ZAMMHelper.calculateRequiredETH:", calcErr);
-          setTxError("Failed to calculate exact ETH amount");
+          setWalletError(failure);
         }
         return;
       }
     } catch (err) {
       // Handle errors, but don't display errors for user rejections
       // Use our utility to properly handle wallet errors
-      const errorMsg = handleWalletError(err);
-      if (errorMsg) {
+      const failure = handleWalletError(err);
+      if (failure) {
         console.error("Add liquidity execution error:", err);
         
-        // More specific error messages based on error type
-        if (err instanceof Error) {
-          
-          if (err.message.includes("insufficient funds")) {
-            setTxError("Insufficient funds for this transaction");
-          } else if (err.message.includes("InvalidMsgVal")) {
-            // This is our critical error where the msg.value doesn't match what the contract expects
-            setTxError("Contract rejected ETH value. Please try again with different amounts.");
-            console.error("ZAMM contract rejected the ETH value due to strict msg.value validation.");
-          } else {
-            setTxError("Transaction failed. Please try again.");
-          }
-        } else {
-          setTxError("Unknown error during liquidity provision");
-        }
+        setWalletError(failure);
       }
     }
   };
@@ -1623,16 +1685,63 @@ export const SwapTile = () => {
   const executeSwap = async () => {
     if (!canSwap || !reserves || !address || !sellAmt || !publicClient) return;
     setTxError(null);
+    setWalletError(null);
     
     try {
       // Check if we're on mainnet
       if (chainId !== mainnet.id) {
-        setTxError("Please connect to Ethereum mainnet to perform this action");
+        setWalletError(createWalletError("wrong-chain"));
         return;
       }
 
+      // The pool may have moved since the quote; the fresh reserves re-quote and flag it instead
+      if (!isCoinToCoin && !reservesEqual(await refreshReserves(), reserves)) return;
+
       const poolKey = computePoolKey(coinId);
 
+      // Exact-output ETH → Coin: pay at most amountInMax, ZAMM refunds the unused ETH
+      if (isSellETH && swapExactSide === "out" && buyAmt) {
+        const { amountOut, amountIn, amountInMax } = quoteExactOut(
+          parseUnits(buyAmt, 18),
+          reserves,
+          true,
+          slippage,
+        );
+
+        if (amountIn === 0n) {
+          setTxError("Requested amount exceeds pool liquidity.");
+          return;
+        }
+
+        const hash = await writeContractAsync({
+          address: ZAAMAddress,
+          abi: ZAAMAbi,
+          functionName: "swapExactOut",
+          args: [
+            poolKey,
+            amountOut,
+            amountInMax,
+            true,
+            address,
+            nowSec() + BigInt(deadlineSec),
+          ],
+          value: amountInMax,
+        });
+        setTxHash(hash);
+        recordTransaction({
+          hash,
+          type: "swap",
+          description: `Swap ETH for ${coinSymbol}`,
+          account: address,
+          coinIds: [coinId],
+          amounts: [
+            { amount: amountIn, symbol: "ETH" },
+            { amount: amountOut, symbol: coinSymbol },
+          ],
+        });
+        return;
+      }
+
       if (isSellETH) {
         const amountInWei = parseEther(sellAmt || "0");
         const rawOut = getAmountOut(
@@ -1654,14 +1763,25 @@ export const SwapTile = () => {
           args: [
             poolKey,
             amountInWei,
-            withSlippage(rawOut),
+            withSlippage(rawOut, slippage),
             true,
             address,
-            nowSec() + BigInt(DEADLINE_SEC),
+            nowSec() + BigInt(deadlineSec),
           ],
           value: amountInWei,
         });
         setTxHash(hash);
+        recordTransaction({
+          hash,
+          type: "swap",
+          description: `Swap ETH for ${coinSymbol}`,
+          account: address,
+          coinIds: [coinId],
+          amounts: [
+            { amount: amountInWei, symbol: "ETH" },
+            { amount: rawOut, symbol: coinSymbol },
+          ],
+        });
       } else {
         const amountInUnits = parseUnits(sellAmt || "0", 18);
         
@@ -1678,6 +1798,13 @@ export const SwapTile = () => {
               functionName: "setOperator",
               args: [ZAAMAddress, true],
             });
+            recordTransaction({
+              hash: approvalHash,
+              type: "approval",
+              description: `Approve ZAMM to trade ${coinSymbol}`,
+              account: address,
+              coinIds: [coinId],
+            });
             
             // Show a waiting message
             setTxError("Operator approval submitted. Waiting for confirmation...");
@@ -1697,10 +1824,11 @@ export const SwapTile = () => {
             }
           } catch (err) {
             // Use our utility to handle wallet errors
-            const errorMsg = handleWalletError(err);
-            if (errorMsg) {
+            const failure = handleWalletError(err);
+            if (failure) {
               console.error("Failed to approve operator:", err);
-              setTxError("Failed to approve the swap contract as operator");
+              setTxError(null);
+              setWalletError(failure);
             }
             return;
           }
@@ -1709,51 +1837,23 @@ export const SwapTile = () => {
         // If we have two different Coin IDs, use the multicall path for Coin to Coin swap
         if (buyToken?.id !== null && sellToken.id !== null && buyToken?.id !== sellToken.id) {
           try {
-            // Import our helper dynamically to avoid circular dependencies
-            const { createCoinSwapMulticall, estimateCoinToCoinOutput } = await import('./lib/swapHelper');
-            
-            // Fetch target coin reserves
-            const targetPoolId = computePoolId(buyToken.id!);
-            const targetPoolResult = await publicClient.readContract({
-              address: ZAAMAddress,
-              abi: ZAAMAbi,
-              functionName: "pools",
-              args: [targetPoolId],
+            // Re-quote against fresh chain state so the spends match what will execute
+            const route = await findBestRoute(publicClient, {
+              source: sellToken.id!,
+              target: buyToken.id!,
+              amountIn: amountInUnits,
+              via: routeVia,
+              slippageBps: slippage,
+              account: address,
             });
-            
-            const targetPoolData = targetPoolResult as unknown as readonly bigint[];
-            const targetReserves = {
-              reserve0: targetPoolData[0],
-              reserve1: targetPoolData[1]
-            };
-            
-            // Estimate the final output amount and intermediate ETH amount
-            const { amountOut, withSlippage: minAmountOut, ethAmountOut } = estimateCoinToCoinOutput(
-              sellToken.id!,
-              buyToken.id!,
-              amountInUnits,
-              reserves, // source reserves
-              targetReserves // target reserves
-            );
-            
-            if (amountOut === 0n) {
+
+            if (!route || route.amountOut === 0n) {
               setTxError("Output amount is zero. Check pool liquidity.");
               return;
             }
-            
-            
-            // Create the multicall data for coin-to-coin swap via ETH
-            const multicallData = createCoinSwapMulticall(
-              sellToken.id!,
-              buyToken.id!,
-              amountInUnits,
-              ethAmountOut, // Pass the estimated ETH output for the second swap
-              minAmountOut,
-              address
-            );
-            
-            // Log the calls we're making for debugging
-            
+
+            const multicallData = encodeRouteMulticall(route, address, deadlineSec);
+
             // Execute the multicall transaction
             const hash = await writeContractAsync({
               address: ZAAMAddress,
@@ -1763,18 +1863,71 @@ export const SwapTile = () => {
             });
             
             setTxHash(hash);
+            recordTransaction({
+              hash,
+              type: "swap",
+              description: `Swap ${sellToken.symbol} for ${buyToken.symbol}`,
+              account: address,
+              coinIds: [sellToken.id!, buyToken.id!],
+              amounts: [
+                { amount: amountInUnits, symbol: sellToken.symbol },
+                { amount: route.amountOut, symbol: buyToken.symbol },
+              ],
+            });
             return;
           } catch (err) {
             // Use our utility to handle wallet errors
-            const errorMsg = handleWalletError(err);
-            if (errorMsg) {
+            const failure = handleWalletError(err);
+            if (failure) {
               console.error("Error in multicall swap:", err);
-              setTxError("Failed to execute coin-to-coin swap");
+              setWalletError(failure);
             }
             return;
           }
         }
         
+        // Exact-output Coin → ETH: pull at most amountInMax coins
+        if (swapExactSide === "out" && buyAmt) {
+          const { amountOut, amountIn, amountInMax } = quoteExactOut(
+            parseEther(buyAmt),
+            reserves,
+            false,
+            slippage,
+          );
+
+          if (amountIn === 0n) {
+            setTxError("Requested amount exceeds pool liquidity.");
+            return;
+          }
+
+          const hash = await writeContractAsync({
+            address: ZAAMAddress,
+            abi: ZAAMAbi,
+            functionName: "swapExactOut",
+            args: [
+              poolKey,
+              amountOut,
+              amountInMax,
+              false,
+              address,
+              nowSec() + BigInt(deadlineSec),
+            ],
+          });
+          setTxHash(hash);
+          recordTransaction({
+            hash,
+            type: "swap",
+            description: `Swap ${coinSymbol} for ETH`,
+            account: address,
+            coinIds: [coinId],
+            amounts: [
+              { amount: amountIn, symbol: coinSymbol },
+              { amount: amountOut, symbol: "ETH" },
+            ],
+          });
+          return;
+        }
+
         // Default path for Coin to ETH swap
         const rawOut = getAmountOut(
           amountInUnits,
@@ -1795,20 +1948,31 @@ export const SwapTile = () => {
           args: [
             poolKey,
             amountInUnits,
-            withSlippage(rawOut),
+            withSlippage(rawOut, slippage),
             false,
             address,
-            nowSec() + BigInt(DEADLINE_SEC),
+            nowSec() + BigInt(deadlineSec),
           ],
         });
         setTxHash(hash);
+        recordTransaction({
+          hash,
+          type: "swap",
+          description: `Swap ${coinSymbol} for ETH`,
+          account: address,
+          coinIds: [coinId],
+          amounts: [
+            { amount: amountInUnits, symbol: coinSymbol },
+            { amount: rawOut, symbol: "ETH" },
+          ],
+        });
       }
     } catch (err) {
       // Use our utility to handle wallet errors
-      const errorMsg = handleWalletError(err);
-      if (errorMsg) {
+      const failure = handleWalletError(err);
+      if (failure) {
         console.error("Swap execution error:", err);
-        setTxError(errorMsg);
+        setWalletError(failure);
       }
     }
   };
@@ -1829,9 +1993,12 @@ export const SwapTile = () => {
     <Card className="w-full max-w-lg bg-[var(--card-background-light)] border border-[var(--card-border-light)] shadow-lg rounded-[var(--radius-lg)] p-4 sm:p-5 text-[var(--foreground-light)]">
       <CardContent className="p-0 flex flex-col space-y-4"> {/* Adjusted spacing */}
         
-        {/* Info showing token count - Use muted foreground */}
-        <div className="text-xs text-[var(--muted-foreground-light)] text-center">
-          Available tokens: {tokenCount} (ETH + {tokenCount - 1} coins, sorted by liquidity)
+        {/* Info showing token count + slippage/deadline settings - Use muted foreground */}
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-xs text-[var(--muted-foreground-light)]">
+            Available tokens: {tokenCount} (ETH + {tokenCount - 1} coins, sorted by liquidity)
+          </div>
+          <SwapSettingsPopover />
         </div>
         
         {/* Mode tabs */}
@@ -2046,7 +2213,7 @@ export const SwapTile = () => {
             <div className={`bg-[var(--input-background-light)] border border-[var(--input-border-light)] group hover:border-[var(--muted-foreground-light)] focus-within:ring-2 focus-within:ring-[var(--ring-light)] rounded-[var(--radius-lg)] p-3 flex flex-col gap-2 transition-colors ${mode === 'swap' ? 'mt-0' : ''}`}> {/* Remove extra margin in swap mode */} 
               <div className="flex items-center justify-between">
                 <span className="text-xs font-medium text-[var(--muted-foreground-light)]">
-                  {mode === "swap" ? "Buy (Estimated)" : 
+                  {mode === "swap" ? (swapExactSide === "out" && !isCoinToCoin ? "Buy (Exact)" : "Buy (Estimated)") : 
                     liquidityMode === "add" ? "And" : 
                     `You'll Receive (${buyToken.symbol})`}
                 </span>
@@ -2127,16 +2294,32 @@ export const SwapTile = () => {
           <div className="text-xs text-[var(--muted-foreground-light)] flex justify-between items-center px-1 mt-1">
             {mode === "swap" && isCoinToCoin ? (
               <span className="flex items-center text-xxs sm:text-xs">
-                <span className="bg-[var(--accent-light)]/20 text-[var(--accent-light)] px-1.5 py-0.5 rounded-[var(--radius-sm)] mr-1.5 font-medium">Multi-hop</span>
-                {sellToken.symbol} → ETH → {buyToken?.symbol}
+                <span className="bg-[var(--accent-light)]/20 text-[var(--accent-light)] px-1.5 py-0.5 rounded-[var(--radius-sm)] mr-1.5 font-medium">
+                  {routeQuote && routeQuote.hops.length === 1 ? "Direct" : "Multi-hop"}
+                </span>
+                {routeQuote ? routeQuote.route.path.map(routeSymbol).join(" → ") : `${sellToken.symbol} → ETH → ${buyToken?.symbol}`}
+                {isRouteFetching && <Loader2 className="h-3 w-3 animate-spin ml-1.5" />}
               </span>
             ) : (
               <span>Pool: {formatEther(reserves.reserve0).substring(0, 8)} ETH / {formatUnits(reserves.reserve1, 18).substring(0, 8)} {buyToken?.symbol}</span>
             )}
-            <span className="text-xxs sm:text-xs">Fee: {mode === "swap" && isCoinToCoin ? Number(SWAP_FEE) * 2 / 100 : Number(SWAP_FEE) / 100}%</span>
+            <span className="text-xxs sm:text-xs">Fee: {mode === "swap" && isCoinToCoin ? Number(SWAP_FEE) * (routeQuote?.hops.length ?? 2) / 100 : Number(SWAP_FEE) / 100}%</span>
           </div>
         )}
 
+        {/* Quote breakdown - price impact, fee and minimum received */}
+        {mode === "swap" && quote && (
+          <QuoteDetails
+            hops={quote.hops}
+            limit={quote.limit}
+            refunds={quote.refunds}
+            impactConfirmed={impactConfirmed}
+            onImpactConfirmedChange={setImpactConfirmed}
+            poolMoved={poolMoved}
+            onAcceptPoolMoved={acceptPoolMoved}
+          />
+        )}
+
         {/* ACTION BUTTON - Use primary color */}
         <Button
           onClick={
@@ -2150,7 +2333,7 @@ export const SwapTile = () => {
           }
           disabled={
             !isConnected || 
-            (mode === "swap" && (!canSwap || !sellAmt)) ||
+            (mode === "swap" && (!canSwap || !sellAmt || (needsImpactConfirm && !impactConfirmed) || poolMoved)) ||
             (mode === "liquidity" && liquidityMode === "add" && (!canSwap || !sellAmt)) ||
             (mode === "liquidity" && liquidityMode === "remove" && (!lpBurnAmount || parseFloat(lpBurnAmount) <= 0 || parseUnits(lpBurnAmount || "0", 18) > lpTokenBalance)) ||
             (mode === "liquidity" && liquidityMode === "single-eth" && (!canSwap || !sellAmt || !reserves)) ||
@@ -2179,11 +2362,13 @@ export const SwapTile = () => {
           </div>
         )}
         
-        {((writeError && !isUserRejectionError(writeError)) || (txError && !txError.includes("Waiting for"))) && (
+        {txError && !txError.includes("Waiting for") && (
           <div className="text-sm text-[var(--destructive-light)] mt-2">
-            {writeError && !isUserRejectionError(writeError) ? writeError.message : txError}
+            {txError}
           </div>
         )}
+
+        <WalletErrorNotice error={walletError} className="mt-2" />
         
         {isSuccess && (
           <div className="text-sm text-green-500 mt-2 flex items-center justify-center">
@@ -2197,10 +2382,10 @@ export const SwapTile = () => {
         {/* Explorer link - Themed link color */}
         <div className="text-xs text-[var(--muted-foreground-light)] mt-3 text-center">
           <a 
-            href="#" 
+            href="/explorer" 
             onClick={(e) => {
               e.preventDefault();
-              window.dispatchEvent(new CustomEvent('coinchan:setView', { detail: 'explorer' })); // Navigate to explorer
+              navigate({ view: "explorer" });
             }} 
             // Corrected syntax for oklch() in hover state and removed duplicate className
             className="text-[var(--primary-light)] hover:text-[oklch(from var(--primary-light) l calc(l + 0.1))] hover:underline font-medium"
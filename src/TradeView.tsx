@@ -9,7 +9,15 @@ import {
 import { CoinchanAbi, CoinchanAddress } from "./constants/Coinchan";
 import { CoinsAddress } from "./constants/Coins";
 import { mainnet } from "viem/chains";
-import { useCoinData } from "./hooks/metadata";
+import { useCoinCreator, useCoinData, useWatchCoinReserves } from "./hooks/metadata";
+import { WatchlistStar } from "./components/WatchlistStar";
+import { PriceChart } from "./components/PriceChart";
+import { TradeFeed } from "./components/TradeFeed";
+import { HoldersPanel } from "./components/HoldersPanel";
+import { CreatorLink } from "./components/CreatorLink";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "./components/ui/tabs";
+import { PriceChange } from "./components/PriceChange";
+import { formatNumber } from "./lib/utils";
 
 // Simple error boundary to prevent crashes
 class ErrorBoundary extends Component<
@@ -65,8 +73,11 @@ export const TradeView = ({
   onBack: () => void;
 }) => {
   // Using our new hook to get coin data
-  const { getDisplayValues } = useCoinData(tokenId);
+  const { coinData, getDisplayValues } = useCoinData(tokenId);
   const { name = "Token", symbol = "TKN" } = getDisplayValues();
+  const stats = coinData?.stats;
+  const creator = useCoinCreator(tokenId);
+  useWatchCoinReserves([tokenId]);
   
   const { address } = useAccount();
   const publicClient = usePublicClient({ chainId: mainnet.id });
@@ -126,24 +137,81 @@ export const TradeView = ({
       </button>
 
       <div className="flex flex-col items-start gap-2">
-        <h2 className="text-lg sm:text-xl font-semibold">
-          {name} [{symbol}]
-        </h2>
+        <div className="flex items-center gap-1">
+          <h2 className="text-lg sm:text-xl font-semibold">
+            {name} [{symbol}]
+          </h2>
+          <WatchlistStar coinId={tokenId} />
+        </div>
         <p className="text-xs text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)] break-all">
           Contract: {CoinsAddress}
         </p>
+        {creator && (
+          <p className="text-xs text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+            Creator: <CreatorLink address={creator} className="text-[var(--primary-light)]" />
+          </p>
+        )}
+        {stats && (
+          <>
+            <dl className="flex flex-wrap gap-x-4 gap-y-1 text-xs" title="Last 24 hours">
+              {stats.priceChange24h !== null && (
+                <div className="flex gap-1">
+                  <dt className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">24h</dt>
+                  <dd><PriceChange change={stats.priceChange24h} /></dd>
+                </div>
+              )}
+              <div className="flex gap-1">
+                <dt className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">Volume</dt>
+                <dd>{formatNumber(stats.volume24h, 4)} ETH</dd>
+              </div>
+              <div className="flex gap-1">
+                <dt className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">Swaps</dt>
+                <dd>{stats.swaps24h}</dd>
+              </div>
+              <div className="flex gap-1">
+                <dt className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">Fees</dt>
+                <dd>{formatNumber(stats.fees24h, 4)} ETH</dd>
+              </div>
+            </dl>
+            <p className="text-xs text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+              24h stats count the 1% pool only; trades in a pool launched with another fee aren't included.
+            </p>
+          </>
+        )}
       </div>
       
+      <ErrorBoundary fallback={<p className="text-sm text-red-500">Price chart unavailable</p>}>
+        <PriceChart coinId={tokenId} symbol={symbol} />
+      </ErrorBoundary>
+
       {/* Wrap BuySell component in an ErrorBoundary to prevent crashes */}
       <ErrorBoundary fallback={<BuySellFallback tokenId={tokenId} name={name} symbol={symbol} />}>
         <BuySell tokenId={tokenId} name={name} symbol={symbol} />
       </ErrorBoundary>
 
+      {/* Holders are only scanned for once their tab is opened */}
+      <Tabs defaultValue="trades" className="w-full">
+        <TabsList className="grid w-full grid-cols-2 bg-[var(--secondary-light)] dark:bg-[var(--secondary-dark)] p-1 rounded-[var(--radius-md)] h-auto">
+          <TabsTrigger value="trades">Trades</TabsTrigger>
+          <TabsTrigger value="holders">Holders</TabsTrigger>
+        </TabsList>
+        <TabsContent value="trades">
+          <ErrorBoundary fallback={<p className="text-sm text-red-500">Recent trades unavailable</p>}>
+            <TradeFeed coinId={tokenId} symbol={symbol} />
+          </ErrorBoundary>
+        </TabsContent>
+        <TabsContent value="holders">
+          <ErrorBoundary fallback={<p className="text-sm text-red-500">Holders unavailable</p>}>
+            <HoldersPanel coinId={tokenId} symbol={symbol} />
+          </ErrorBoundary>
+        </TabsContent>
+      </Tabs>
+
       {/* Only show ClaimVested if the user is the owner */}
       {isOwner && (
         <div className="mt-4 sm:mt-6">
           <ErrorBoundary fallback={<p className="text-red-500">Vesting claim feature unavailable</p>}>
-            <ClaimVested coinId={tokenId} />
+            <ClaimVested coinId={tokenId} symbol={symbol} />
           </ErrorBoundary>
         </div>
       )}
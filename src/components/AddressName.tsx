@@ -0,0 +1,22 @@
+import { truncAddress } from "@/lib/address";
+import type { Address } from "viem";
+import { mainnet } from "viem/chains";
+import { useEnsName } from "wagmi";
+
+export const EXPLORER_URL = mainnet.blockExplorers.default.url;
+
+/** An address by its ENS name where it has one, linking to the block explorer */
+export const AddressName = ({ address }: { address: Address }) => {
+  const { data: ensName } = useEnsName({ address, chainId: mainnet.id });
+  return (
+    <a
+      href={`${EXPLORER_URL}/address/${address}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={address}
+      className="hover:underline hover:text-[var(--foreground-light)]"
+    >
+      {ensName ?? truncAddress(address)}
+    </a>
+  );
+};
@@ -0,0 +1,25 @@
+import { navigate, routePath } from "@/hooks/use-route";
+import { truncAddress } from "@/lib/address";
+import type { MouseEvent } from "react";
+import type { Address } from "viem";
+import { mainnet } from "viem/chains";
+import { useEnsName } from "wagmi";
+
+/** A creator by their ENS name where they have one, linking to their profile */
+export const CreatorLink = ({ address, className = "" }: { address: Address; className?: string }) => {
+  const { data: ensName } = useEnsName({ address, chainId: mainnet.id });
+  const route = { view: "creator", address } as const;
+
+  const onClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    // Modified clicks open a new tab as usual
+    if (event.metaKey || event.ctrlKey || event.shiftKey || event.button !== 0) return;
+    event.preventDefault();
+    navigate(route);
+  };
+
+  return (
+    <a href={routePath(route)} onClick={onClick} title={address} className={`hover:underline ${className}`}>
+      {ensName ?? truncAddress(address)}
+    </a>
+  );
+};
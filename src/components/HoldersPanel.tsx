@@ -0,0 +1,179 @@
+import { CoinchanAddress } from "@/constants/Coinchan";
+import { ZAAMAddress } from "@/constants/ZAAM";
+import { getVestingStatus, rankHolders, useCoinCreator, useCoinHolders, useLockupBalances } from "@/hooks/metadata";
+import { TOTAL_SUPPLY } from "@/lib/launch";
+import { formatNumber } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { type Address, formatEther, isAddressEqual } from "viem";
+import { useAccount } from "wagmi";
+import { AddressName } from "./AddressName";
+import { CreatorLink } from "./CreatorLink";
+
+const PAGE_SIZE = 20;
+// Concentration is the share the largest this many wallets hold
+const TOP_HOLDERS = 10;
+
+// Contracts holding coins on behalf of others rather than for themselves
+const SPECIAL_HOLDERS: { address: Address; label: string }[] = [
+  { address: ZAAMAddress, label: "ZAMM pool" },
+  { address: CoinchanAddress, label: "Coinchan lockup" },
+];
+
+const coins = (amount: bigint) => Number(formatEther(amount));
+const shareOfSupply = (amount: bigint) => (coins(amount) / TOTAL_SUPPLY) * 100;
+
+const specialLabel = (address: Address) =>
+  SPECIAL_HOLDERS.find((holder) => isAddressEqual(holder.address, address))?.label;
+
+/** The creator's lockup: what's still locked, what they can claim now and what they've claimed */
+const CreatorLockup = ({ coinId, symbol }: { coinId: bigint; symbol: string }) => {
+  const { data: balances } = useLockupBalances([coinId]);
+  const lockup = balances?.get(coinId.toString());
+  if (!lockup) return null;
+
+  const status = getVestingStatus(lockup);
+  const unlockDate = new Date(lockup.unlock * 1000).toLocaleDateString();
+  const rows = [
+    { label: "Locked", amount: lockup.locked },
+    { label: "Unlocked", amount: lockup.claimable },
+    { label: "Claimed", amount: lockup.claimedCoins },
+  ];
+
+  return (
+    <div className="flex flex-col gap-1 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">
+          Creator lockup
+          <span className="ml-1 font-normal text-[var(--muted-foreground-light)]">
+            <CreatorLink address={lockup.owner} />
+          </span>
+        </span>
+        <span className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+          {status === "unlocked"
+            ? `Unlocked since ${unlockDate}`
+            : `${status === "vesting" ? "Vesting until" : "Locked until"} ${unlockDate}`}
+        </span>
+      </div>
+      <dl className="grid grid-cols-3 gap-2">
+        {rows.map(({ label, amount }) => (
+          <div key={label} className="flex flex-col">
+            <dt className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">{label}</dt>
+            <dd className="tabular-nums">
+              {formatNumber(coins(amount), 0)} {symbol}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+        Held as liquidity; amounts are the {symbol} side at the pool's current ratio.
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Who holds a coin, from its `Transfer` logs: the largest holders by share of the 21M supply and how concentrated
+ * the float is, with the creator's lockup alongside. The pool and the lockup contract are labelled and left out of
+ * the concentration figure, since they don't hold for themselves.
+ */
+export const HoldersPanel = ({ coinId, symbol }: { coinId: bigint; symbol: string }) => {
+  const { address } = useAccount();
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const { data: holders, isLoading, error } = useCoinHolders(coinId);
+  const creator = useCoinCreator(coinId);
+
+  const ranked = useMemo(() => (holders ? rankHolders(holders.balances) : []), [holders]);
+  const concentration = useMemo(() => {
+    const top = ranked.filter((holder) => !specialLabel(holder.address)).slice(0, TOP_HOLDERS);
+    return top.reduce((sum, holder) => sum + shareOfSupply(holder.balance), 0);
+  }, [ranked]);
+
+  const labelFor = (holder: Address) => {
+    const labels = [
+      specialLabel(holder),
+      creator && isAddressEqual(holder, creator) ? "creator" : undefined,
+      address && isAddressEqual(holder, address) ? "you" : undefined,
+    ].filter(Boolean);
+    return labels.length > 0 ? ` (${labels.join(", ")})` : "";
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <CreatorLockup coinId={coinId} symbol={symbol} />
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-[var(--muted-foreground-light)]">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Reading transfers…
+        </div>
+      ) : error && !holders ? (
+        <p className="py-6 text-center text-sm text-[var(--muted-foreground-light)]">Couldn't load holders</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+            <span>
+              {ranked.length} holders · top {TOP_HOLDERS} hold {formatNumber(concentration, 2)}%
+            </span>
+            {holders && !holders.complete && (
+              <span className="flex items-center gap-1 text-[var(--muted-foreground-light)]">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Reading older transfers, from block {holders.fromBlock.toString()}
+              </span>
+            )}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+                <tr className="text-left">
+                  <th className="py-1 pr-2 font-normal">#</th>
+                  <th className="py-1 pr-2 font-normal">Holder</th>
+                  <th className="py-1 pr-2 font-normal text-right">{symbol}</th>
+                  <th className="py-1 font-normal text-right">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ranked.slice(0, shown).map((holder, index) => {
+                  const share = shareOfSupply(holder.balance);
+                  return (
+                    <tr
+                      key={holder.address}
+                      className={`border-t border-[var(--border-light)] ${address && isAddressEqual(holder.address, address) ? "bg-[var(--secondary-light)] font-medium" : ""}`}
+                    >
+                      <td className="py-1.5 pr-2 tabular-nums text-[var(--muted-foreground-light)]">{index + 1}</td>
+                      <td className="py-1.5 pr-2 text-[var(--muted-foreground-light)] whitespace-nowrap">
+                        <AddressName address={holder.address} />
+                        {labelFor(holder.address)}
+                      </td>
+                      <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(coins(holder.balance), 0)}</td>
+                      <td className="py-1.5 text-right tabular-nums">
+                        <div className="flex items-center justify-end gap-2">
+                          <div className="hidden sm:block w-16 h-1.5 rounded-full bg-[var(--secondary-light)]">
+                            <div
+                              className="h-full rounded-full bg-[var(--primary-light)]"
+                              style={{ width: `${Math.min(100, share)}%` }}
+                            />
+                          </div>
+                          {formatNumber(share, 2)}%
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {ranked.length > shown && (
+            <button
+              type="button"
+              onClick={() => setShown(shown + PAGE_SIZE)}
+              className="text-xs text-[var(--primary-light)] hover:underline self-center"
+            >
+              Show more
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
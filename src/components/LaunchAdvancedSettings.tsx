@@ -0,0 +1,176 @@
+import { SWAP_FEE } from "@/lib/amm";
+import {
+  LAUNCH_MODES,
+  type LaunchMode,
+  type LaunchParams,
+  MAX_VESTING_DAYS,
+  SWAP_FEE_PRESETS_BPS,
+  TOTAL_SUPPLY,
+  type VestingSchedule,
+  unlockTimestamp,
+} from "@/lib/launch";
+import { formatNumber } from "@/lib/utils";
+import { ChevronDown } from "lucide-react";
+import { useState } from "react";
+
+const formatBps = (bps: number) => `${(bps / 100).toString()}%`;
+
+/**
+ * Collapsible launch options for CoinForm: launch mode, pool fee tier and lockup schedule, plus a preview
+ * of the supply split
+ */
+export const LaunchAdvancedSettings = ({
+  params,
+  onChange,
+  error,
+}: {
+  params: LaunchParams;
+  onChange: (params: LaunchParams) => void;
+  error: string | null;
+}) => {
+  const [open, setOpen] = useState(false);
+  const { mode, swapFeeBps, vestingDays, schedule, creatorSupply } = params;
+  const { createsPool } = LAUNCH_MODES[mode];
+  const poolSupply = TOTAL_SUPPLY - creatorSupply;
+
+  const set = <K extends keyof LaunchParams>(key: K, value: LaunchParams[K]) => onChange({ ...params, [key]: value });
+
+  const optionButton = "flex-1 text-xs font-medium px-2 py-1.5 rounded-[var(--radius-sm)] transition-colors";
+  const activeOption = `${optionButton} bg-[var(--primary-light)] text-[var(--primary-foreground-light)]`;
+  const inactiveOption = `${optionButton} bg-[var(--secondary-light)] text-[var(--secondary-foreground-light)] hover:bg-[var(--border-light)]`;
+  const inputClass =
+    "w-24 text-xs text-right px-2 py-1.5 bg-[var(--input-background-light)] border border-[var(--input-border-light)] rounded-[var(--radius-sm)] focus:outline-none focus:ring-1 focus:ring-[var(--ring-light)]";
+  const sectionLabel = "text-xs font-medium text-[var(--muted-foreground-light)]";
+
+  return (
+    <div className="border border-[var(--border-light)] rounded-[var(--radius-md)]">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        className="w-full flex items-center justify-between px-3 py-2 text-xs font-medium text-[var(--muted-foreground-light)] hover:text-[var(--foreground-light)]"
+        aria-expanded={open}
+      >
+        <span>
+          ADVANCED · {LAUNCH_MODES[mode].label}
+          {createsPool && ` · ${formatBps(swapFeeBps)} fee`}
+        </span>
+        <ChevronDown className={`h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-4">
+          <div className="space-y-1.5">
+            <div className={sectionLabel}>Launch mode</div>
+            <div className="flex gap-1.5">
+              {(Object.keys(LAUNCH_MODES) as LaunchMode[]).map((key) => (
+                <button
+                  type="button"
+                  key={key}
+                  className={mode === key ? activeOption : inactiveOption}
+                  onClick={() => set("mode", key)}
+                >
+                  {LAUNCH_MODES[key].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-[var(--muted-foreground-light)]">{LAUNCH_MODES[mode].description}</p>
+          </div>
+
+          {createsPool && (
+            <div className="space-y-1.5">
+              <div className={sectionLabel}>Pool fee</div>
+              <div className="flex items-center gap-1.5">
+                {SWAP_FEE_PRESETS_BPS.map((preset) => (
+                  <button
+                    type="button"
+                    key={preset}
+                    className={swapFeeBps === preset ? activeOption : inactiveOption}
+                    onClick={() => set("swapFeeBps", preset)}
+                  >
+                    {formatBps(preset)}
+                  </button>
+                ))}
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min="0"
+                  step="1"
+                  value={Number.isNaN(swapFeeBps) ? "" : swapFeeBps}
+                  onChange={(e) => set("swapFeeBps", Number.parseInt(e.target.value, 10))}
+                  className={inputClass}
+                  aria-label="Pool fee in basis points"
+                />
+                <span className="text-xs text-[var(--muted-foreground-light)]">bps</span>
+              </div>
+              {swapFeeBps !== Number(SWAP_FEE) && (
+                <p className="text-xs text-yellow-600">
+                  Swaps in this app use the {formatBps(Number(SWAP_FEE))} pool; other tiers trade on their own pool.
+                </p>
+              )}
+            </div>
+          )}
+
+          {mode === "makeLocked" && (
+            <div className="space-y-1.5">
+              <div className={sectionLabel}>Lockup</div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min="1"
+                  max={MAX_VESTING_DAYS}
+                  step="1"
+                  value={Number.isNaN(vestingDays) ? "" : vestingDays}
+                  onChange={(e) => set("vestingDays", Number.parseFloat(e.target.value))}
+                  className={inputClass}
+                  aria-label="Lockup duration in days"
+                />
+                <span className="text-xs text-[var(--muted-foreground-light)]">
+                  days
+                  {Number.isFinite(vestingDays) &&
+                    vestingDays > 0 &&
+                    ` · unlocks ${new Date(Number(unlockTimestamp(vestingDays)) * 1000).toLocaleDateString()}`}
+                </span>
+              </div>
+              <div className="flex gap-1.5">
+                {(["linear", "cliff"] as VestingSchedule[]).map((key) => (
+                  <button
+                    type="button"
+                    key={key}
+                    className={schedule === key ? activeOption : inactiveOption}
+                    onClick={() => set("schedule", key)}
+                  >
+                    {key === "linear" ? "Linear vesting" : "Cliff"}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-[var(--muted-foreground-light)]">
+                {schedule === "linear"
+                  ? "The pool liquidity becomes claimable gradually until the unlock date."
+                  : "All of the pool liquidity becomes claimable on the unlock date."}
+              </p>
+            </div>
+          )}
+
+          <div className="text-xs bg-[var(--secondary-light)] rounded-[var(--radius-md)] p-3 text-[var(--secondary-foreground-light)] space-y-0.5">
+            <div className="flex justify-between">
+              <span>Your share</span>
+              <span>
+                {formatNumber(mode === "create" ? 100 : (creatorSupply / TOTAL_SUPPLY) * 100, 2)}% (
+                {(mode === "create" ? TOTAL_SUPPLY : creatorSupply).toLocaleString()})
+              </span>
+            </div>
+            {createsPool && (
+              <div className="flex justify-between">
+                <span>Pool supply</span>
+                <span>{poolSupply.toLocaleString()}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="px-3 pb-2 text-xs text-[var(--destructive-light)]">{error}</p>}
+    </div>
+  );
+};
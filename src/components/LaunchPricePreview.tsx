@@ -0,0 +1,89 @@
+import { useEthUsdPrice } from "@/hooks/use-eth-usd-price";
+import { HIGH_PRICE_IMPACT_BPS } from "@/lib/amm";
+import { parseEthAmount, previewLaunch } from "@/lib/launch";
+import { formatNumber } from "@/lib/utils";
+import { useState } from "react";
+import { formatUnits } from "viem";
+
+const formatPrice = (price: number) =>
+  price !== 0 && Math.abs(price) < 0.0001 ? price.toPrecision(4) : formatNumber(price, 6);
+
+const formatUsd = (value: number) => `$${formatNumber(value, value < 1 ? 6 : 0)}`;
+
+/**
+ * Where a new pool opens: price per coin, FDV in ETH and USD, and how far a first buy would move it
+ */
+export const LaunchPricePreview = ({
+  creatorSupply,
+  seedEth,
+  swapFeeBps,
+}: {
+  creatorSupply: number;
+  seedEth: string;
+  swapFeeBps: number;
+}) => {
+  const ethUsdPrice = useEthUsdPrice();
+  const [firstBuy, setFirstBuy] = useState("0.1");
+
+  const seed = parseEthAmount(seedEth);
+  if (seed === null || seed <= 0n) return null;
+
+  const preview = previewLaunch({
+    creatorSupply,
+    seedEth: seed,
+    swapFeeBps,
+    firstBuyEth: parseEthAmount(firstBuy) ?? 0n,
+  });
+  if (preview.poolSupply <= 0) return null;
+
+  return (
+    <div className="text-xs bg-[var(--secondary-light)] border border-[var(--border-light)] rounded-[var(--radius-md)] p-3 text-[var(--secondary-foreground-light)] space-y-0.5">
+      <div className="flex justify-between">
+        <span>Initial price</span>
+        <span>
+          {formatPrice(preview.initialPriceEth)} ETH
+          {ethUsdPrice !== null && ` (~${formatUsd(preview.initialPriceEth * ethUsdPrice)})`}
+        </span>
+      </div>
+      <div className="flex justify-between">
+        <span>FDV</span>
+        <span>
+          {formatNumber(preview.fdvEth, 4)} ETH
+          {ethUsdPrice !== null && ` (~${formatUsd(preview.fdvEth * ethUsdPrice)})`}
+        </span>
+      </div>
+
+      <div className="border-t border-[var(--border-light)] mt-2 pt-2 space-y-0.5">
+        <label className="flex items-center justify-between gap-2">
+          <span>First buy of</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="any"
+              value={firstBuy}
+              onChange={(e) => setFirstBuy(e.target.value)}
+              className="w-20 text-xs text-right px-2 py-1 bg-[var(--input-background-light)] border border-[var(--input-border-light)] rounded-[var(--radius-sm)] focus:outline-none focus:ring-1 focus:ring-[var(--ring-light)]"
+            />
+            ETH
+          </span>
+        </label>
+        {preview.firstBuy && (
+          <>
+            <div className="flex justify-between">
+              <span>Receives</span>
+              <span>{formatNumber(Number(formatUnits(preview.firstBuy.coinsOut, 18)), 2)} coins</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Price after</span>
+              <span className={preview.firstBuy.priceImpactBps >= HIGH_PRICE_IMPACT_BPS ? "text-yellow-600" : ""}>
+                {`${formatPrice(preview.firstBuy.priceAfterEth)} ETH (+${formatNumber(preview.firstBuy.priceMove * 100, 2)}%)`}
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
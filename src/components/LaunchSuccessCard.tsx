@@ -0,0 +1,125 @@
+import { useIpfsImage } from "@/hooks/use-ipfs-image";
+import { routeUrl } from "@/hooks/use-route";
+import { computePoolId } from "@/lib/amm";
+import { resolveIpfsUrl } from "@/lib/ipfs";
+import { CheckCircle2, ExternalLink, Share2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Button } from "./ui/button";
+
+export type LaunchedCoin = {
+  coinId: bigint;
+  name: string;
+  symbol: string;
+  image: string; // ipfs:// URI as pinned
+  swapFee?: bigint; // fee tier of the seeded pool; undefined when no pool was created
+  unlock?: bigint; // unix seconds, for locked launches
+  txHash: `0x${string}`;
+};
+
+// Pool IDs are full uint256 hashes; keep both ends readable
+const truncId = (id: bigint) => {
+  const text = id.toString();
+  return text.length > 16 ? `${text.slice(0, 8)}…${text.slice(-6)}` : text;
+};
+
+/**
+ * Shown once a launch is mined: the new coin with its pool, vesting unlock and next steps
+ */
+export const LaunchSuccessCard = ({
+  coin,
+  onOpen,
+  className = "",
+}: {
+  coin: LaunchedCoin;
+  onOpen: (coinId: bigint) => void;
+  className?: string;
+}) => {
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  // A fresh pin can be slow to reach some gateways; show the best guess until the race settles
+  const image = useIpfsImage(coin.image);
+  const poolId = useMemo(
+    () => (coin.swapFee === undefined ? null : computePoolId(coin.coinId, coin.swapFee)),
+    [coin.coinId, coin.swapFee],
+  );
+
+  const share = async () => {
+    const text = `I just launched ${coin.name} [${coin.symbol}] (coin #${coin.coinId.toString()}) on Coinchan`;
+    const url = routeUrl({ view: "coin", coinId: coin.coinId });
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: coin.name, text, url });
+        return;
+      }
+      await navigator.clipboard.writeText(`${text} ${url}`);
+      setShareStatus("Copied to clipboard");
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; nothing to report
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      console.error("Failed to share launch:", error);
+      setShareStatus("Couldn't share — copy the coin ID instead");
+    }
+  };
+
+  return (
+    <div
+      className={`border border-green-500/40 bg-green-500/10 rounded-[var(--radius-lg)] p-4 space-y-3 text-[var(--foreground-light)] ${className}`}
+    >
+      <div className="flex items-center gap-2 text-green-600 font-semibold">
+        <CheckCircle2 className="h-5 w-5" />
+        Coin launched!
+      </div>
+
+      <div className="flex items-center gap-3">
+        <img
+          src={image.src ?? resolveIpfsUrl(coin.image)}
+          alt={`${coin.symbol} logo`}
+          className="w-16 h-16 rounded-full object-cover border border-[var(--border-light)] bg-[var(--secondary-light)]"
+        />
+        <div className="min-w-0">
+          <div className="font-semibold truncate">
+            {coin.name} [{coin.symbol}]
+          </div>
+          <div className="text-xs text-[var(--muted-foreground-light)]">Coin #{coin.coinId.toString()}</div>
+        </div>
+      </div>
+
+      <div className="text-xs space-y-1">
+        {poolId !== null && (
+          <div className="flex justify-between">
+            <span className="text-[var(--muted-foreground-light)]">Pool ID</span>
+            <span title={poolId.toString()}>{truncId(poolId)}</span>
+          </div>
+        )}
+        {coin.unlock !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-[var(--muted-foreground-light)]">Liquidity unlocks</span>
+            <span>{new Date(Number(coin.unlock) * 1000).toLocaleString()}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-[var(--muted-foreground-light)]">Transaction</span>
+          <a
+            href={`https://etherscan.io/tx/${coin.txHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 hover:underline"
+          >
+            {coin.txHash.slice(0, 10)}…
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="button" className="flex-1" onClick={() => onOpen(coin.coinId)}>
+          {poolId !== null ? "Trade" : "View"} {coin.symbol}
+        </Button>
+        <Button type="button" variant="outline" className="flex-1" onClick={share}>
+          <Share2 className="h-4 w-4" />
+          Share
+        </Button>
+      </div>
+      {shareStatus && <p className="text-xs text-[var(--muted-foreground-light)] text-center">{shareStatus}</p>}
+    </div>
+  );
+};
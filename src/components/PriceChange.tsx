@@ -0,0 +1,22 @@
+// Moves that round to 0.0% show as flat
+const FLAT_PERCENT = 0.05;
+
+const formatChange = (percent: number) =>
+  Math.abs(percent) < FLAT_PERCENT
+    ? "0.0%"
+    : `${percent > 0 ? "+" : ""}${percent.toFixed(Math.abs(percent) < 10 ? 1 : 0)}%`;
+
+/**
+ * A price change as a signed percentage, green when up and red when down
+ * @param change Fraction, 0.1 = +10%
+ */
+export const PriceChange = ({ change, className = "" }: { change: number; className?: string }) => {
+  const percent = change * 100;
+  const color =
+    Math.abs(percent) < FLAT_PERCENT
+      ? "text-[var(--muted-foreground-light)]"
+      : percent > 0
+        ? "text-green-600"
+        : "text-red-500";
+  return <span className={`tabular-nums ${color} ${className}`}>{formatChange(percent)}</span>;
+};
@@ -0,0 +1,278 @@
+import {
+  BLOCKS_PER_DAY,
+  type Candle,
+  SECONDS_PER_BLOCK,
+  buildCandles,
+  usePoolHistory,
+  usePoolReserves,
+} from "@/hooks/metadata";
+import { useEthUsdPrice } from "@/hooks/use-eth-usd-price";
+import { formatNumber, formatPrice } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+import { type PointerEvent, useMemo, useState } from "react";
+
+// Each interval shows a fixed window of candles
+const INTERVALS = {
+  "5m": { seconds: 5 * 60, windowBlocks: BLOCKS_PER_DAY, timeFormat: { hour: "2-digit", minute: "2-digit" } },
+  "1h": { seconds: 60 * 60, windowBlocks: 7n * BLOCKS_PER_DAY, timeFormat: { month: "short", day: "numeric" } },
+  "1d": { seconds: 24 * 60 * 60, windowBlocks: 30n * BLOCKS_PER_DAY, timeFormat: { month: "short", day: "numeric" } },
+} satisfies Record<string, { seconds: number; windowBlocks: bigint; timeFormat: Intl.DateTimeFormatOptions }>;
+
+type ChartInterval = keyof typeof INTERVALS;
+type Denomination = "ETH" | "USD";
+
+// SVG geometry, in viewBox units; the chart scales to the card's width
+const WIDTH = 600;
+const HEIGHT = 260;
+const PRICE_AXIS_WIDTH = 72;
+const TIME_AXIS_HEIGHT = 20;
+const VOLUME_HEIGHT = 40;
+const PADDING = 8;
+const PLOT_WIDTH = WIDTH - PRICE_AXIS_WIDTH;
+const PRICE_TOP = PADDING;
+const PRICE_BOTTOM = HEIGHT - TIME_AXIS_HEIGHT - VOLUME_HEIGHT - PADDING;
+const VOLUME_BOTTOM = HEIGHT - TIME_AXIS_HEIGHT;
+const PRICE_TICKS = 4;
+const TIME_TICKS = 4;
+// Gridline and label positions, as fractions of the price range and the window
+const PRICE_TICK_STEPS = Array.from({ length: PRICE_TICKS + 1 }, (_, index) => index / PRICE_TICKS);
+const TIME_TICK_STEPS = Array.from({ length: TIME_TICKS }, (_, index) => (index + 0.5) / TIME_TICKS);
+
+const withUnit = (value: string, denomination: Denomination) => (denomination === "USD" ? `$${value}` : `${value} ETH`);
+
+const scaleCandle = (candle: Candle, factor: number): Candle => ({
+  time: candle.time,
+  open: candle.open * factor,
+  high: candle.high * factor,
+  low: candle.low * factor,
+  close: candle.close * factor,
+  volume: candle.volume * factor,
+});
+
+const Segmented = <T extends string>({
+  options,
+  value,
+  onChange,
+  disabled = [],
+}: {
+  options: readonly T[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: readonly T[];
+}) => (
+  <div className="flex bg-[var(--secondary-light)] p-0.5 rounded-[var(--radius-md)]">
+    {options.map((option) => (
+      <button
+        key={option}
+        type="button"
+        onClick={() => onChange(option)}
+        disabled={disabled.includes(option)}
+        aria-pressed={option === value}
+        className={`px-2 py-0.5 text-xs font-medium rounded-[var(--radius-sm)] touch-manipulation transition-all disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-[var(--ring-light)] ${
+          option === value
+            ? "bg-[var(--primary-light)] text-[var(--primary-foreground-light)] shadow-sm"
+            : "text-[var(--muted-foreground-light)] hover:text-[var(--foreground-light)]"
+        }`}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+/**
+ * Candlestick chart of a coin's price, rebuilt from its pool's logs. USD prices use the current ETH price, so they
+ * track the coin against ETH rather than what it was worth in dollars at the time.
+ */
+export const PriceChart = ({ coinId, symbol }: { coinId: bigint; symbol: string }) => {
+  const [chartInterval, setChartInterval] = useState<ChartInterval>("1h");
+  const [denomination, setDenomination] = useState<Denomination>("ETH");
+  const [hoveredTime, setHoveredTime] = useState<number | null>(null);
+  const ethUsdPrice = useEthUsdPrice();
+
+  const { seconds, windowBlocks, timeFormat } = INTERVALS[chartInterval];
+  const {
+    data: history,
+    dataUpdatedAt,
+    isLoading,
+    isFetching,
+    isPlaceholderData,
+    error,
+  } = usePoolHistory(coinId, windowBlocks);
+  // Prices a pool that hasn't moved in all the history kept
+  const { reserves } = usePoolReserves(coinId);
+
+  const windowSec = Number(windowBlocks) * SECONDS_PER_BLOCK;
+  // Moves with each refetch, so new buckets open as time passes
+  const toSec = Math.floor(dataUpdatedAt / 1000);
+  const firstBucket = Math.floor((toSec - windowSec) / seconds) * seconds;
+  const slotCount = Math.floor((toSec - firstBucket) / seconds) + 1;
+  const slotWidth = PLOT_WIDTH / slotCount;
+
+  const usdFactor = denomination === "USD" ? ethUsdPrice : 1;
+  const candles = useMemo(() => {
+    if (!history || usdFactor === null) return [];
+    const ethCandles = buildCandles(history, seconds, toSec - windowSec, toSec, reserves);
+    return usdFactor === 1 ? ethCandles : ethCandles.map((candle) => scaleCandle(candle, usdFactor));
+  }, [history, seconds, toSec, windowSec, usdFactor, reserves]);
+
+  const { min, max, maxVolume } = useMemo(() => {
+    let low = Number.POSITIVE_INFINITY;
+    let high = 0;
+    let volume = 0;
+    for (const candle of candles) {
+      low = Math.min(low, candle.low);
+      high = Math.max(high, candle.high);
+      volume = Math.max(volume, candle.volume);
+    }
+    // Flat series still get some vertical room
+    const pad = high > low ? (high - low) * 0.05 : high * 0.01;
+    return { min: Math.max(0, low - pad), max: high + pad, maxVolume: volume };
+  }, [candles]);
+
+  const x = (time: number) => ((time - firstBucket) / seconds) * slotWidth;
+  const y = (price: number) => PRICE_TOP + ((max - price) / (max - min || 1)) * (PRICE_BOTTOM - PRICE_TOP);
+  const bodyWidth = Math.max(1, slotWidth * 0.7);
+
+  const shown = candles.find((candle) => candle.time === hoveredTime) ?? candles[candles.length - 1];
+  const timeLabel = new Intl.DateTimeFormat(undefined, timeFormat);
+  const readoutLabel = new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+  const onPointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const slot = Math.floor((((event.clientX - rect.left) / rect.width) * WIDTH) / slotWidth);
+    setHoveredTime(slot >= 0 && slot < slotCount ? firstBucket + slot * seconds : null);
+  };
+
+  const status = isLoading ? (
+    <>
+      <Loader2 className="w-4 h-4 animate-spin" />
+      Loading price history…
+    </>
+  ) : error && !history ? (
+    "Couldn't load price history"
+  ) : denomination === "USD" && ethUsdPrice === null ? (
+    "ETH price unavailable"
+  ) : candles.length === 0 ? (
+    "No trades in this period"
+  ) : null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {symbol} price
+          {isFetching && isPlaceholderData && (
+            <Loader2 className="w-3 h-3 animate-spin text-[var(--muted-foreground-light)]" />
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Segmented
+            options={Object.keys(INTERVALS) as ChartInterval[]}
+            value={chartInterval}
+            onChange={setChartInterval}
+          />
+          <Segmented
+            options={["ETH", "USD"] as const}
+            value={denomination}
+            onChange={setDenomination}
+            disabled={ethUsdPrice === null ? ["USD"] : []}
+          />
+        </div>
+      </div>
+
+      <div className="min-h-4 text-xs text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)] flex flex-wrap gap-x-3">
+        {shown && !status && (
+          <>
+            <span>{readoutLabel.format(shown.time * 1000)}</span>
+            <span>O {formatPrice(shown.open)}</span>
+            <span>H {formatPrice(shown.high)}</span>
+            <span>L {formatPrice(shown.low)}</span>
+            <span>C {withUnit(formatPrice(shown.close), denomination)}</span>
+            <span>Vol {withUnit(formatNumber(shown.volume, denomination === "USD" ? 0 : 4), denomination)}</span>
+          </>
+        )}
+      </div>
+
+      {status ? (
+        <div
+          className="flex items-center justify-center gap-2 text-sm text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)] border border-[var(--card-border-light)] dark:border-[var(--card-border-dark)] rounded-[var(--radius-md)]"
+          style={{ aspectRatio: `${WIDTH} / ${HEIGHT}` }}
+        >
+          {status}
+        </div>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto touch-none select-none text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]"
+          role="img"
+          aria-label={`${symbol} price chart, ${chartInterval} candles in ${denomination}`}
+          onPointerMove={onPointerMove}
+          onPointerLeave={() => setHoveredTime(null)}
+        >
+          {PRICE_TICK_STEPS.map((step) => {
+            const price = max - (max - min) * step;
+            return (
+              <g key={step}>
+                <line x1={0} x2={PLOT_WIDTH} y1={y(price)} y2={y(price)} stroke="currentColor" strokeOpacity={0.15} />
+                <text x={PLOT_WIDTH + 6} y={y(price)} dominantBaseline="middle" fontSize={11} fill="currentColor">
+                  {formatPrice(price)}
+                </text>
+              </g>
+            );
+          })}
+
+          {TIME_TICK_STEPS.map((step) => {
+            const slot = Math.round((slotCount - 1) * step);
+            const time = firstBucket + slot * seconds;
+            return (
+              <text
+                key={step}
+                x={x(time) + slotWidth / 2}
+                y={HEIGHT - 6}
+                textAnchor="middle"
+                fontSize={11}
+                fill="currentColor"
+              >
+                {timeLabel.format(time * 1000)}
+              </text>
+            );
+          })}
+
+          {candles.map((candle) => {
+            const up = candle.close >= candle.open;
+            const center = x(candle.time) + slotWidth / 2;
+            const top = y(Math.max(candle.open, candle.close));
+            const volumeHeight = maxVolume > 0 ? (candle.volume / maxVolume) * (VOLUME_HEIGHT - PADDING) : 0;
+            return (
+              <g
+                key={candle.time}
+                className={up ? "fill-green-500 stroke-green-500" : "fill-red-500 stroke-red-500"}
+                opacity={hoveredTime === null || hoveredTime === candle.time ? 1 : 0.6}
+              >
+                <line x1={center} x2={center} y1={y(candle.high)} y2={y(candle.low)} strokeWidth={1} />
+                <rect
+                  x={center - bodyWidth / 2}
+                  y={top}
+                  width={bodyWidth}
+                  height={Math.max(1, y(Math.min(candle.open, candle.close)) - top)}
+                  stroke="none"
+                />
+                {volumeHeight > 0 && (
+                  <rect
+                    x={center - bodyWidth / 2}
+                    y={VOLUME_BOTTOM - volumeHeight}
+                    width={bodyWidth}
+                    height={volumeHeight}
+                    stroke="none"
+                    opacity={0.35}
+                  />
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      )}
+    </div>
+  );
+};
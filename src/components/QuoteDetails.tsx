@@ -0,0 +1,160 @@
+import { HIGH_PRICE_IMPACT_BPS, type HopBreakdown, combinePriceImpactBps } from "@/lib/amm";
+import { formatNumber } from "@/lib/utils";
+import { AlertTriangle } from "lucide-react";
+import { formatUnits } from "viem";
+
+export type QuoteHop = {
+  symbolIn: string;
+  symbolOut: string;
+  breakdown: HopBreakdown;
+};
+
+export type QuoteRefund = {
+  amount: bigint;
+  symbol: string;
+};
+
+export type QuoteLimit = {
+  label: "Minimum received" | "Maximum sent";
+  amount: bigint;
+  symbol: string;
+};
+
+const formatPrice = (price: number) =>
+  price !== 0 && Math.abs(price) < 0.0001 ? price.toPrecision(4) : formatNumber(price, 6);
+
+const formatAmount = (amount: bigint) => formatNumber(Number(formatUnits(amount, 18)), 6);
+
+const formatBps = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`;
+
+/**
+ * True when the combined price impact of a route needs an explicit confirmation
+ */
+export const isHighPriceImpact = (hops: QuoteHop[]) =>
+  combinePriceImpactBps(hops.map((hop) => hop.breakdown)) >= HIGH_PRICE_IMPACT_BPS;
+
+/**
+ * Quote breakdown shown before a swap: mid vs execution price, price impact, fee and slippage limit per hop
+ */
+export const QuoteDetails = ({
+  hops,
+  limit,
+  refunds = [],
+  impactConfirmed,
+  onImpactConfirmedChange,
+  poolMoved = false,
+  onAcceptPoolMoved,
+}: {
+  hops: QuoteHop[];
+  limit: QuoteLimit;
+  refunds?: QuoteRefund[]; // safety margin of intermediate tokens returned after a multi-hop swap
+  impactConfirmed: boolean;
+  onImpactConfirmedChange: (confirmed: boolean) => void;
+  poolMoved?: boolean; // reserves changed since the user entered the trade; the amounts shown are already updated
+  onAcceptPoolMoved?: () => void;
+}) => {
+  if (hops.length === 0) return null;
+
+  const totalImpactBps = combinePriceImpactBps(hops.map((hop) => hop.breakdown));
+  const highImpact = totalImpactBps >= HIGH_PRICE_IMPACT_BPS;
+
+  return (
+    <div className="text-xs bg-[var(--secondary-light)] border border-[var(--border-light)] rounded-[var(--radius-md)] p-3 text-[var(--secondary-foreground-light)] space-y-2">
+      {hops.map(({ symbolIn, symbolOut, breakdown }) => (
+        <div key={`${symbolIn}-${symbolOut}`} className="space-y-0.5">
+          {hops.length > 1 && (
+            <div className="font-medium text-[var(--foreground-light)]">
+              {symbolIn} → {symbolOut}
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Mid price</span>
+            <span>
+              1 {symbolIn} = {formatPrice(breakdown.midPrice)} {symbolOut}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span>Execution price</span>
+            <span>
+              1 {symbolIn} = {formatPrice(breakdown.executionPrice)} {symbolOut}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span>Price impact</span>
+            <span
+              className={breakdown.priceImpactBps >= HIGH_PRICE_IMPACT_BPS ? "text-[var(--destructive-light)]" : ""}
+            >
+              {formatBps(breakdown.priceImpactBps)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span>Fee</span>
+            <span>
+              {formatAmount(breakdown.feeAmount)} {symbolIn}
+            </span>
+          </div>
+        </div>
+      ))}
+
+      <div className="border-t border-[var(--border-light)] pt-2 space-y-0.5">
+        {hops.length > 1 && (
+          <div className="flex justify-between">
+            <span>Total price impact</span>
+            <span className={highImpact ? "text-[var(--destructive-light)]" : ""}>{formatBps(totalImpactBps)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-medium text-[var(--foreground-light)]">
+          <span>{limit.label}</span>
+          <span>
+            {formatAmount(limit.amount)} {limit.symbol}
+          </span>
+        </div>
+        {refunds.map((refund) => (
+          <div
+            key={refund.symbol}
+            className="flex justify-between"
+            title="Held back from the next hop in case the pool moves; returned to you after the swap"
+          >
+            <span>Safety margin refund</span>
+            <span>
+              {formatAmount(refund.amount)} {refund.symbol}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {poolMoved && (
+        <div className="flex items-center justify-between gap-2 pt-1 text-yellow-600">
+          <span className="flex items-center gap-1">
+            <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+            The pool moved since your quote. Amounts above are updated to the latest price.
+          </span>
+          {onAcceptPoolMoved && (
+            <button
+              type="button"
+              onClick={onAcceptPoolMoved}
+              className="flex-shrink-0 font-medium text-[var(--primary-light)] hover:underline"
+            >
+              Accept
+            </button>
+          )}
+        </div>
+      )}
+
+      {highImpact && (
+        <label className="flex items-start gap-2 pt-1 text-[var(--destructive-light)] cursor-pointer">
+          <input
+            type="checkbox"
+            checked={impactConfirmed}
+            onChange={(e) => onImpactConfirmedChange(e.target.checked)}
+            className="mt-0.5"
+          />
+          <span className="flex items-center gap-1">
+            <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+            This trade moves the price by {formatBps(totalImpactBps)}. I understand and want to continue.
+          </span>
+        </label>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { getRpcUrls, loadRpcSettings, probeRpcUrl, saveRpcSettings } from "@/lib/rpc";
+import { Loader2, Server } from "lucide-react";
+import { useState } from "react";
+import { mainnet } from "viem/chains";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+
+/**
+ * Header button + dialog to point every mainnet read at a custom RPC endpoint
+ */
+export const RpcSettings = () => {
+  // Settings only take effect on reload, so what's stored is what's in use
+  const [settings] = useState(loadRpcSettings);
+  const [urlInput, setUrlInput] = useState(settings.mainnetRpcUrl ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const activeUrls = getRpcUrls(mainnet.id, settings);
+
+  const onSave = async () => {
+    const url = urlInput.trim();
+    if (!url) {
+      onReset();
+      return;
+    }
+    setChecking(true);
+    setError(null);
+    const problem = await probeRpcUrl(url);
+    setChecking(false);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    saveRpcSettings({ mainnetRpcUrl: url });
+    window.location.reload();
+  };
+
+  const onReset = () => {
+    saveRpcSettings({ mainnetRpcUrl: null });
+    window.location.reload();
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className="relative flex items-center gap-1.5 px-3 py-2 rounded-[var(--radius-md)] text-sm font-medium text-[var(--muted-foreground-light)] hover:bg-[var(--secondary-light)] hover:text-[var(--secondary-foreground-light)] transition-colors"
+          aria-label="RPC settings"
+        >
+          <Server className="h-4 w-4" />
+          {settings.mainnetRpcUrl && <span className="h-1.5 w-1.5 rounded-full bg-[var(--primary-light)]" />}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="bg-[var(--card-background-light)] text-[var(--foreground-light)] border border-[var(--card-border-light)] space-y-1">
+        <DialogHeader>
+          <DialogTitle>RPC endpoint</DialogTitle>
+          <DialogDescription className="text-[var(--muted-foreground-light)]">
+            Use your own Ethereum mainnet RPC for every read in the app. Saving reloads the page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <label htmlFor="rpc-url" className="text-xs font-medium text-[var(--muted-foreground-light)]">
+            Custom mainnet RPC URL
+          </label>
+          <input
+            id="rpc-url"
+            type="url"
+            placeholder="https://mainnet.example.com"
+            value={urlInput}
+            onChange={(e) => {
+              setUrlInput(e.target.value);
+              setError(null);
+            }}
+            className="w-full text-sm px-2 py-1.5 bg-[var(--input-background-light)] border border-[var(--input-border-light)] rounded-[var(--radius-sm)] focus:outline-none focus:ring-1 focus:ring-[var(--ring-light)]"
+          />
+          {error && <p className="text-xs text-[var(--destructive-light)]">{error}</p>}
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-[var(--muted-foreground-light)]">Endpoints in use, in order</div>
+          <ol className="text-xs font-mono space-y-0.5 list-decimal list-inside break-all">
+            {activeUrls.map((url) => (
+              <li key={url}>{url}</li>
+            ))}
+          </ol>
+          <p className="text-xs text-[var(--muted-foreground-light)]">
+            Deployments can replace the public defaults with <code>VITE_MAINNET_RPC_URLS</code> and{" "}
+            <code>VITE_BASE_RPC_URLS</code>.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={onReset}
+            disabled={!settings.mainnetRpcUrl}
+            className="text-xs text-[var(--primary-light)] hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Reset to defaults
+          </button>
+          <button
+            type="button"
+            onClick={onSave}
+            disabled={checking}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-[var(--radius-md)] text-sm font-medium bg-[var(--primary-light)] text-[var(--primary-foreground-light)] disabled:opacity-50"
+          >
+            {checking && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            {checking ? "Checking…" : "Save"}
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,125 @@
+import { SLIPPAGE_PRESETS_BPS, useSwapSettings } from "@/hooks/use-swap-settings";
+import { AlertTriangle, Settings } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+
+const formatBps = (bps: number) => `${(bps / 100).toString()}%`;
+
+/**
+ * Gear button + popover to edit slippage tolerance and transaction deadline
+ */
+export const SwapSettingsPopover = () => {
+  const { slippageBps, deadlineMinutes, slippageWarning, setSlippageBps, setDeadlineMinutes, resetSettings } =
+    useSwapSettings();
+
+  // Local text state so partially typed values ("0.") don't get clobbered
+  const isPreset = (SLIPPAGE_PRESETS_BPS as readonly number[]).includes(slippageBps);
+  const [customSlippage, setCustomSlippage] = useState(isPreset ? "" : (slippageBps / 100).toString());
+  const [deadlineInput, setDeadlineInput] = useState(deadlineMinutes.toString());
+
+  useEffect(() => {
+    setDeadlineInput(deadlineMinutes.toString());
+  }, [deadlineMinutes]);
+
+  const onCustomSlippage = (value: string) => {
+    setCustomSlippage(value);
+    const percent = Number.parseFloat(value);
+    if (Number.isFinite(percent) && percent > 0) {
+      setSlippageBps(Math.round(percent * 100));
+    }
+  };
+
+  const onDeadline = (value: string) => {
+    setDeadlineInput(value);
+    const minutes = Number.parseInt(value, 10);
+    if (Number.isFinite(minutes) && minutes > 0) {
+      setDeadlineMinutes(minutes);
+    }
+  };
+
+  const presetButton = "flex-1 text-xs font-medium px-2 py-1.5 rounded-[var(--radius-sm)] transition-colors";
+  const activePreset = `${presetButton} bg-[var(--primary-light)] text-[var(--primary-foreground-light)]`;
+  const inactivePreset = `${presetButton} bg-[var(--secondary-light)] text-[var(--secondary-foreground-light)] hover:bg-[var(--border-light)]`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-[var(--muted-foreground-light)] hover:text-[var(--foreground-light)] transition-colors"
+          aria-label="Transaction settings"
+        >
+          {slippageWarning && <AlertTriangle className="h-3.5 w-3.5 text-yellow-500" />}
+          <span>{formatBps(slippageBps)} slippage</span>
+          <Settings className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="bg-[var(--popover-background-light)] border border-[var(--border-light)] rounded-[var(--radius-md)] text-[var(--foreground-light)] space-y-3"
+      >
+        <div className="space-y-1.5">
+          <div className="text-xs font-medium text-[var(--muted-foreground-light)]">Slippage tolerance</div>
+          <div className="flex items-center gap-1.5">
+            {SLIPPAGE_PRESETS_BPS.map((preset) => (
+              <button
+                type="button"
+                key={preset}
+                className={slippageBps === preset ? activePreset : inactivePreset}
+                onClick={() => {
+                  setCustomSlippage("");
+                  setSlippageBps(preset);
+                }}
+              >
+                {formatBps(preset)}
+              </button>
+            ))}
+            <div className="relative flex-1">
+              <input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                placeholder="Custom"
+                value={customSlippage}
+                onChange={(e) => onCustomSlippage(e.target.value)}
+                className="w-full text-xs text-right pr-5 pl-1 py-1.5 bg-[var(--input-background-light)] border border-[var(--input-border-light)] rounded-[var(--radius-sm)] focus:outline-none focus:ring-1 focus:ring-[var(--ring-light)]"
+              />
+              <span className="absolute right-1.5 top-1/2 -translate-y-1/2 text-xs text-[var(--muted-foreground-light)]">
+                %
+              </span>
+            </div>
+          </div>
+          {slippageWarning && <p className="text-xs text-yellow-600">{slippageWarning}</p>}
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="text-xs font-medium text-[var(--muted-foreground-light)]">Transaction deadline</div>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              inputMode="numeric"
+              min="1"
+              step="1"
+              value={deadlineInput}
+              onChange={(e) => onDeadline(e.target.value)}
+              className="w-20 text-xs text-right px-2 py-1.5 bg-[var(--input-background-light)] border border-[var(--input-border-light)] rounded-[var(--radius-sm)] focus:outline-none focus:ring-1 focus:ring-[var(--ring-light)]"
+            />
+            <span className="text-xs text-[var(--muted-foreground-light)]">minutes</span>
+          </div>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => {
+            setCustomSlippage("");
+            resetSettings();
+          }}
+          className="text-xs text-[var(--primary-light)] hover:underline"
+        >
+          Reset to defaults
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,132 @@
+import { ZAAMAddress } from "@/constants/ZAAM";
+import { BLOCKS_PER_DAY, usePoolHistory } from "@/hooks/metadata";
+import type { PoolSwapLog } from "@/lib/coin-store";
+import { formatAge, formatNumber, formatPrice } from "@/lib/utils";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { type Address, formatEther, isAddressEqual } from "viem";
+import { useAccount } from "wagmi";
+import { AddressName, EXPLORER_URL } from "./AddressName";
+
+// Same window as the price chart's default interval, so the two share one history query
+const TRADES_WINDOW_BLOCKS = 7n * BLOCKS_PER_DAY;
+const PAGE_SIZE = 20;
+
+type Trade = {
+  key: string;
+  side: "buy" | "sell";
+  eth: number;
+  coin: number;
+  price: number | null; // ETH per coin, fee included
+  trader: Address;
+  timestamp: number; // unix seconds
+  transactionHash: PoolSwapLog["transactionHash"];
+};
+
+/**
+ * ETH is token0, so a swap with ETH in is a buy. The trader is whoever received the output; a hop that leaves
+ * it with ZAMM (coin-to-coin routes) falls back to the caller.
+ */
+const toTrade = (swap: PoolSwapLog): Trade => {
+  const side = swap.amount0In > 0n ? "buy" : "sell";
+  const eth = Number(formatEther(side === "buy" ? swap.amount0In : swap.amount0Out));
+  const coin = Number(formatEther(side === "buy" ? swap.amount1Out : swap.amount1In));
+  return {
+    key: `${swap.transactionHash}-${swap.logIndex}`,
+    side,
+    eth,
+    coin,
+    price: coin > 0 ? eth / coin : null,
+    trader: isAddressEqual(swap.to, ZAAMAddress) ? swap.sender : swap.to,
+    timestamp: swap.timestamp,
+    transactionHash: swap.transactionHash,
+  };
+};
+
+/**
+ * Recent swaps in a coin's ETH pool, newest first, following new blocks. The connected wallet's trades are
+ * highlighted.
+ */
+export const TradeFeed = ({ coinId, symbol }: { coinId: bigint; symbol: string }) => {
+  const { address } = useAccount();
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const { data: history, isLoading, error } = usePoolHistory(coinId, TRADES_WINDOW_BLOCKS);
+
+  const trades = useMemo(() => (history ? history.swaps.map(toTrade).reverse() : []), [history]);
+  const isOwn = (trade: Trade) => !!address && isAddressEqual(trade.trader, address);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h3 className="text-sm font-medium">Recent trades</h3>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-[var(--muted-foreground-light)]">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading trades…
+        </div>
+      ) : error && !history ? (
+        <p className="py-6 text-center text-sm text-[var(--muted-foreground-light)]">Couldn't load trades</p>
+      ) : trades.length === 0 ? (
+        <p className="py-6 text-center text-sm text-[var(--muted-foreground-light)]">No trades in the last 7 days</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+                <tr className="text-left">
+                  <th className="py-1 pr-2 font-normal">Side</th>
+                  <th className="py-1 pr-2 font-normal text-right">ETH</th>
+                  <th className="py-1 pr-2 font-normal text-right">{symbol}</th>
+                  <th className="py-1 pr-2 font-normal text-right hidden sm:table-cell">Price</th>
+                  <th className="py-1 pr-2 font-normal">Trader</th>
+                  <th className="py-1 font-normal text-right">Age</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trades.slice(0, shown).map((trade) => (
+                  <tr
+                    key={trade.key}
+                    className={`border-t border-[var(--border-light)] ${isOwn(trade) ? "bg-[var(--secondary-light)] font-medium" : ""}`}
+                  >
+                    <td className={`py-1.5 pr-2 ${trade.side === "buy" ? "text-green-600" : "text-red-500"}`}>
+                      {trade.side === "buy" ? "Buy" : "Sell"}
+                    </td>
+                    <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(trade.eth, 4)}</td>
+                    <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(trade.coin, 2)}</td>
+                    <td className="py-1.5 pr-2 text-right tabular-nums hidden sm:table-cell">
+                      {trade.price === null ? "—" : formatPrice(trade.price)}
+                    </td>
+                    <td className="py-1.5 pr-2 text-[var(--muted-foreground-light)] whitespace-nowrap">
+                      <AddressName address={trade.trader} />
+                      {isOwn(trade) && " (you)"}
+                    </td>
+                    <td className="py-1.5 text-right whitespace-nowrap">
+                      <a
+                        href={`${EXPLORER_URL}/tx/${trade.transactionHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-[var(--muted-foreground-light)] hover:text-[var(--foreground-light)] hover:underline"
+                      >
+                        {formatAge(trade.timestamp * 1000)}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {trades.length > shown && (
+            <button
+              type="button"
+              onClick={() => setShown(shown + PAGE_SIZE)}
+              className="text-xs text-[var(--primary-light)] hover:underline self-center"
+            >
+              Show more
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
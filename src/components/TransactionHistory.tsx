@@ -0,0 +1,110 @@
+import { type TxRecord, type TxStatus, useTransactions } from "@/hooks/use-transactions";
+import { truncAddress } from "@/lib/address";
+import { formatAge, formatNumber } from "@/lib/utils";
+import { CheckCircle2, ExternalLink, History, Loader2, RefreshCw, XCircle } from "lucide-react";
+import { formatUnits } from "viem";
+import { useConfig } from "wagmi";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+
+const STATUS_STYLES: Record<TxStatus, { label: string; className: string; Icon: typeof CheckCircle2 }> = {
+  pending: { label: "Pending", className: "text-blue-500", Icon: Loader2 },
+  confirmed: { label: "Confirmed", className: "text-green-600", Icon: CheckCircle2 },
+  reverted: { label: "Reverted", className: "text-[var(--destructive-light)]", Icon: XCircle },
+  replaced: { label: "Replaced", className: "text-[var(--muted-foreground-light)]", Icon: RefreshCw },
+};
+
+const TransactionRow = ({ tx, explorerUrl }: { tx: TxRecord; explorerUrl?: string }) => {
+  const { label, className, Icon } = STATUS_STYLES[tx.status];
+
+  return (
+    <li className="border border-[var(--border-light)] rounded-[var(--radius-md)] p-3 space-y-1 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium truncate">{tx.description}</span>
+        <span className={`flex items-center gap-1 text-xs flex-shrink-0 ${className}`}>
+          <Icon className={`h-3.5 w-3.5 ${tx.status === "pending" ? "animate-spin" : ""}`} />
+          {label}
+        </span>
+      </div>
+      {tx.amounts.length > 0 && (
+        <div className="text-xs text-[var(--muted-foreground-light)]">
+          {tx.amounts
+            .map(({ amount, symbol }) => `${formatNumber(Number(formatUnits(BigInt(amount), 18)), 6)} ${symbol}`)
+            .join(" → ")}
+        </div>
+      )}
+      <div className="flex items-center justify-between text-xs text-[var(--muted-foreground-light)]">
+        <span>{formatAge(tx.createdAt)}</span>
+        {explorerUrl ? (
+          <a
+            href={`${explorerUrl}/tx/${tx.hash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 hover:text-[var(--foreground-light)] hover:underline"
+          >
+            {truncAddress(tx.hash)}
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        ) : (
+          <span>{truncAddress(tx.hash)}</span>
+        )}
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Header button showing the pending-transaction count; opens a drawer with the full transaction history
+ */
+export const TransactionHistory = () => {
+  const config = useConfig();
+  const { transactions, pendingCount, clearTransactions } = useTransactions();
+
+  const explorerFor = (chainId: number) =>
+    config.chains.find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className="relative flex items-center gap-1.5 px-3 py-2 rounded-[var(--radius-md)] text-sm font-medium text-[var(--muted-foreground-light)] hover:bg-[var(--secondary-light)] hover:text-[var(--secondary-foreground-light)] transition-colors"
+          aria-label="Transaction history"
+        >
+          {pendingCount > 0 ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
+          {pendingCount > 0 && (
+            <span className="min-w-5 h-5 px-1 flex items-center justify-center rounded-full bg-[var(--primary-light)] text-[var(--primary-foreground-light)] text-xs">
+              {pendingCount}
+            </span>
+          )}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="bg-[var(--card-background-light)] text-[var(--foreground-light)] top-0 right-0 left-auto translate-x-0 translate-y-0 h-full max-w-sm sm:max-w-sm rounded-none border-l border-[var(--card-border-light)] flex flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle>Transactions</DialogTitle>
+          <DialogDescription className="text-[var(--muted-foreground-light)]">
+            {pendingCount > 0 ? `${pendingCount} pending` : "Recent activity from this browser"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {transactions.length === 0 ? (
+          <p className="text-sm text-[var(--muted-foreground-light)]">No transactions yet.</p>
+        ) : (
+          <>
+            <ul className="flex-1 overflow-y-auto space-y-2 pr-1">
+              {transactions.map((tx) => (
+                <TransactionRow key={tx.hash} tx={tx} explorerUrl={explorerFor(tx.chainId)} />
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={clearTransactions}
+              className="text-xs text-[var(--primary-light)] hover:underline self-start"
+            >
+              Clear completed
+            </button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,183 @@
+import { type CoinData, getCoinImageSource, prioritizeCoinMetadata, useWatchCoinReserves } from "@/hooks/metadata";
+import { prefetchIpfsImages } from "@/hooks/use-ipfs-image";
+import { readEntryState, writeEntryState } from "@/hooks/use-route";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { CoinCard } from "./CoinCard";
+
+// Coins added each time the end comes near; a multiple of both column counts so rows stay full
+const BATCH_SIZE = 30;
+// Load the next batch once the viewport is this many rows from the end
+const LOAD_AHEAD_ROWS = 4;
+// Rows mounted above and below the viewport
+const OVERSCAN_ROWS = 3;
+// Used until a row has been measured
+const ESTIMATED_ROW_HEIGHT = 230;
+// The `sm:` breakpoint the grid switches from two columns to three at, with its gap (gap-4 / sm:gap-6)
+const WIDE_QUERY = "(min-width: 640px)";
+const GAP_PX = { narrow: 16, wide: 24 };
+// Placeholder cards while the coin list loads
+const SKELETON_KEYS = Array.from({ length: 6 }, (_, index) => `skeleton-${index}`);
+
+// Saved per history entry, so coming back from a coin page lands where the user left off
+const ENTRY_STATE = "explorer-scroll";
+type SavedScroll = { loaded: number; rowHeight: number; scrollY: number };
+
+const useIsWide = () => {
+  const [isWide, setIsWide] = useState(() => window.matchMedia(WIDE_QUERY).matches);
+  useEffect(() => {
+    const media = window.matchMedia(WIDE_QUERY);
+    const onChange = () => setIsWide(media.matches);
+    media.addEventListener("change", onChange);
+    return () => media.removeEventListener("change", onChange);
+  }, []);
+  return isWide;
+};
+
+/**
+ * Infinite-scroll explorer grid. Only the rows near the viewport are mounted; coins are added a batch at a
+ * time as the end nears, and the batch after that is prefetched (its metadata lookups moved up the queue,
+ * its images preloaded) so cards are ready when they scroll in.
+ */
+export const VirtualCoinGrid = ({
+  coins,
+  onTrade,
+  isLoading = false,
+}: {
+  coins: CoinData[]; // the whole sorted and filtered list
+  onTrade: (id: bigint) => void;
+  isLoading?: boolean;
+}) => {
+  const queryClient = useQueryClient();
+  const isWide = useIsWide();
+  const columns = isWide ? 3 : 2;
+  const gap = isWide ? GAP_PX.wide : GAP_PX.narrow;
+
+  const [saved] = useState(() => readEntryState<SavedScroll>(ENTRY_STATE));
+  const [loaded, setLoaded] = useState(saved?.loaded ?? BATCH_SIZE);
+  const [rowHeight, setRowHeight] = useState(saved?.rowHeight ?? ESTIMATED_ROW_HEIGHT);
+  // Rows mounted, inclusive
+  const [range, setRange] = useState({ first: 0, last: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  const count = Math.min(loaded, coins.length);
+  const rowCount = Math.ceil(count / columns);
+  const stride = rowHeight + gap;
+  const hasMore = count < coins.length;
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    // Where the grid starts relative to the viewport; negative once scrolled past
+    const top = container.getBoundingClientRect().top;
+    const first = Math.max(0, Math.floor(-top / stride) - OVERSCAN_ROWS);
+    const last = Math.max(0, Math.min(rowCount - 1, Math.ceil((window.innerHeight - top) / stride) + OVERSCAN_ROWS));
+    setRange((prev) => (prev.first === first && prev.last === last ? prev : { first, last }));
+    writeEntryState(ENTRY_STATE, { loaded, rowHeight, scrollY: window.scrollY } satisfies SavedScroll);
+  }, [stride, rowCount, loaded, rowHeight]);
+
+  useEffect(() => {
+    let frame = 0;
+    const onScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        updateRange();
+      });
+    };
+    updateRange();
+    window.addEventListener("scroll", onScroll, { passive: true });
+    window.addEventListener("resize", onScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", onScroll);
+      window.removeEventListener("resize", onScroll);
+    };
+  }, [updateRange]);
+
+  // Back on this entry: the grid is already as tall as before, so the old position is reachable
+  useLayoutEffect(() => {
+    if (saved) window.scrollTo(0, saved.scrollY);
+  }, [saved]);
+
+  // Cards are all the same height, so the first mounted row sets the stride for the rest
+  const measureRow = useCallback((row: HTMLDivElement | null) => {
+    observerRef.current?.disconnect();
+    if (!row) return;
+    const observer = new ResizeObserver(() => {
+      const height = row.offsetHeight;
+      if (height > 0) setRowHeight((prev) => (prev === height ? prev : height));
+    });
+    observer.observe(row);
+    observerRef.current = observer;
+  }, []);
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  useEffect(() => {
+    if (hasMore && range.last >= rowCount - LOAD_AHEAD_ROWS) setLoaded(count + BATCH_SIZE);
+  }, [hasMore, range.last, rowCount, count]);
+
+  const nextBatch = useMemo(() => coins.slice(count, count + BATCH_SIZE), [coins, count]);
+  useEffect(() => {
+    prioritizeCoinMetadata(nextBatch.map((coin) => coin.coinId));
+    prefetchIpfsImages(
+      queryClient,
+      nextBatch.map(getCoinImageSource).filter((source): source is string => !!source),
+    );
+  }, [nextBatch, queryClient]);
+
+  const firstIndex = range.first * columns;
+  const visibleCoins = coins.slice(firstIndex, Math.min(count, (range.last + 1) * columns));
+  // Cards on screen get their reserves refreshed on the fast cadence
+  useWatchCoinReserves(visibleCoins.map((coin) => coin.coinId));
+
+  const rows: { index: number; coins: CoinData[] }[] = [];
+  for (let i = 0; i < visibleCoins.length; i += columns) {
+    rows.push({ index: range.first + i / columns, coins: visibleCoins.slice(i, i + columns) });
+  }
+
+  return (
+    <div className="w-full">
+      <div ref={containerRef} className="relative" style={{ height: rowCount > 0 ? rowCount * stride - gap : 0 }}>
+        {rows.map((row) => (
+          <div
+            key={row.index}
+            ref={row.index === range.first ? measureRow : undefined}
+            className="absolute inset-x-0 top-0 grid grid-cols-2 sm:grid-cols-3 gap-4 sm:gap-6"
+            style={{ transform: `translateY(${row.index * stride}px)` }}
+          >
+            {row.coins.map((coin) => (
+              <div
+                key={coin.coinId.toString()}
+                className={`transition-opacity duration-300 ${isLoading ? "opacity-50 pointer-events-none" : "opacity-100"}`}
+              >
+                <CoinCard coin={coin} onTrade={onTrade} />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {count === 0 && isLoading && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 sm:gap-6">
+          {SKELETON_KEYS.map((key) => (
+            <div
+              key={key}
+              className="border border-[var(--card-border-light)] rounded-[var(--radius-lg)] bg-[var(--card-background-light)] w-full h-40 sm:h-48 animate-pulse"
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-center items-center mt-6 mb-4 text-sm text-[var(--muted-foreground-light)] dark:text-[var(--muted-foreground-dark)]">
+        {hasMore ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          count > 0 && `All ${count} ${count === 1 ? "coin" : "coins"} shown`
+        )}
+      </div>
+    </div>
+  );
+};
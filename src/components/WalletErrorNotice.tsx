@@ -0,0 +1,31 @@
+import type { WalletError } from "@/utils/errorHandling";
+import { mainnet } from "viem/chains";
+import { useSwitchChain } from "wagmi";
+
+/**
+ * Renders a classified wallet error with its retry hint and, for wrong-network errors, a chain switch
+ */
+export const WalletErrorNotice = ({ error, className = "" }: { error: WalletError | null; className?: string }) => {
+  const { switchChain, isPending: isSwitching } = useSwitchChain();
+
+  if (!error) return null;
+
+  return (
+    <div
+      className={`text-sm text-[var(--destructive-light)] dark:text-[var(--destructive-dark)] bg-[var(--destructive-light)]/10 border border-[var(--destructive-light)]/30 rounded-[var(--radius-md)] px-3 py-2 space-y-1 ${className}`}
+    >
+      <p className="font-medium">{error.message}</p>
+      {error.retryHint && <p className="text-xs opacity-80">{error.retryHint}</p>}
+      {error.kind === "wrong-chain" && (
+        <button
+          type="button"
+          onClick={() => switchChain({ chainId: mainnet.id })}
+          disabled={isSwitching}
+          className="text-xs font-medium underline hover:no-underline disabled:opacity-50"
+        >
+          {isSwitching ? "Switching…" : "Switch to Ethereum"}
+        </button>
+      )}
+    </div>
+  );
+};
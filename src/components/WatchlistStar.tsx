@@ -0,0 +1,30 @@
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { Star } from "lucide-react";
+
+/**
+ * Star toggle adding a coin to the watchlist, or taking it off
+ */
+export const WatchlistStar = ({ coinId, className = "" }: { coinId: bigint; className?: string }) => {
+  const { isWatched, toggleWatched } = useWatchlist();
+  const watched = isWatched(coinId);
+  const label = watched ? "Remove from watchlist" : "Add to watchlist";
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Cards open the coin on click; starring shouldn't
+        e.stopPropagation();
+        toggleWatched(coinId);
+      }}
+      aria-pressed={watched}
+      aria-label={label}
+      title={label}
+      className={`p-1.5 rounded-full touch-manipulation transition-colors hover:bg-[var(--secondary-light)] focus:outline-none focus-visible:ring-2 focus-visible:ring-[var(--ring-light)] ${className}`}
+    >
+      <Star
+        className={`h-4 w-4 ${watched ? "fill-yellow-400 text-yellow-400" : "text-[var(--muted-foreground-light)]"}`}
+      />
+    </button>
+  );
+};
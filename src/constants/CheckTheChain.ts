@@ -0,0 +1,17 @@
+import type { Address } from "viem";
+
+// Price oracle at 0x0000000000cDC1F8d393415455E382c30FBc0a84; checkPrice("WETH") quotes ETH in USD
+export const CheckTheChainAddress = "0x0000000000cDC1F8d393415455E382c30FBc0a84" as Address;
+
+export const CheckTheChainAbi = [
+  {
+    inputs: [{ internalType: "string", name: "symbol", type: "string" }],
+    name: "checkPrice",
+    outputs: [
+      { internalType: "uint256", name: "price", type: "uint256" },
+      { internalType: "string", name: "priceStr", type: "string" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
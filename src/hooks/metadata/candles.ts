@@ -0,0 +1,80 @@
+import type { Reserves } from "@/lib/amm";
+import { formatEther } from "viem";
+import { priceInEth } from "./coin-sync";
+import type { PoolHistory } from "./pool-history";
+
+export type Candle = {
+  time: number; // start of the bucket, unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // ETH side of every swap in the bucket
+};
+
+/**
+ * The pool's price going into `history`, from its first `Sync`. A swap's `Sync` is logged right before its `Swap`,
+ * so taking the swap's amounts back out gives the reserves it started from; mints and burns keep the ratio.
+ */
+function openingPrice({ swaps, syncs }: Pick<PoolHistory, "swaps" | "syncs">) {
+  const [sync] = syncs;
+  if (!sync) return null;
+  const swap = swaps.find((log) => log.blockNumber === sync.blockNumber && log.logIndex === sync.logIndex + 1);
+  if (!swap) return priceInEth(sync.reserve0, sync.reserve1);
+  return priceInEth(sync.reserve0 - swap.amount0In + swap.amount0Out, sync.reserve1 - swap.amount1In + swap.amount1Out);
+}
+
+/**
+ * OHLC candles in ETH per coin over `[fromSec, toSec]`, one per `intervalSec` bucket aligned to the epoch.
+ *
+ * Prices are the pool's after each `Sync`, starting from the price before the first one in `history`. Buckets
+ * without one carry the previous close forward, so the series covers the whole window without gaps.
+ * @param current The pool's reserves now, which set the price throughout when `history` has no `Sync` at all
+ */
+export function buildCandles(
+  history: Pick<PoolHistory, "swaps" | "syncs">,
+  intervalSec: number,
+  fromSec: number,
+  toSec: number,
+  current?: Reserves | null,
+): Candle[] {
+  const { swaps, syncs } = history;
+  const first = Math.floor(fromSec / intervalSec) * intervalSec;
+
+  // The price going into the window
+  let price = openingPrice(history) ?? (current ? priceInEth(current.reserve0, current.reserve1) : null);
+  let syncIndex = 0;
+  for (; syncIndex < syncs.length && syncs[syncIndex].timestamp < first; syncIndex++) {
+    price = priceInEth(syncs[syncIndex].reserve0, syncs[syncIndex].reserve1) ?? price;
+  }
+  let swapIndex = 0;
+  while (swapIndex < swaps.length && swaps[swapIndex].timestamp < first) swapIndex++;
+
+  const candles: Candle[] = [];
+  for (let time = first; time <= toSec; time += intervalSec) {
+    const end = time + intervalSec;
+    let candle: Candle | null =
+      price === null ? null : { time, open: price, high: price, low: price, close: price, volume: 0 };
+
+    for (; syncIndex < syncs.length && syncs[syncIndex].timestamp < end; syncIndex++) {
+      const next = priceInEth(syncs[syncIndex].reserve0, syncs[syncIndex].reserve1);
+      if (next === null) continue;
+      if (!candle) candle = { time, open: next, high: next, low: next, close: next, volume: 0 };
+      candle.high = Math.max(candle.high, next);
+      candle.low = Math.min(candle.low, next);
+      candle.close = next;
+    }
+
+    let volume = 0;
+    for (; swapIndex < swaps.length && swaps[swapIndex].timestamp < end; swapIndex++) {
+      volume += Number(formatEther(swaps[swapIndex].amount0In + swaps[swapIndex].amount0Out));
+    }
+
+    if (candle) {
+      candle.volume = volume;
+      candles.push(candle);
+      price = candle.close;
+    }
+  }
+  return candles;
+}
@@ -0,0 +1,141 @@
+import { TOTAL_SUPPLY } from "@/lib/launch";
+import { type CoinLockup, type VestingStatus, getVestingStatus } from "./use-coin-lockups";
+import type { CoinData } from "./use-global-coins-data";
+
+export type CoinSort =
+  | "relevance"
+  | "newest"
+  | "oldest"
+  | "marketCap"
+  | "liquidity"
+  | "price"
+  | "change24h"
+  | "volume24h"
+  | "random";
+
+export const COIN_SORTS: { value: CoinSort; label: string }[] = [
+  { value: "relevance", label: "Best match" },
+  { value: "newest", label: "Newest" },
+  { value: "oldest", label: "Oldest" },
+  { value: "marketCap", label: "Market cap" },
+  { value: "liquidity", label: "Liquidity" },
+  { value: "price", label: "Price" },
+  { value: "change24h", label: "24h change" },
+  { value: "volume24h", label: "24h volume" },
+  { value: "random", label: "Random" },
+];
+
+export type VestingFilter = "any" | VestingStatus;
+
+export const VESTING_FILTERS: { value: VestingFilter; label: string }[] = [
+  { value: "any", label: "Any" },
+  { value: "vesting", label: "Vesting" },
+  { value: "locked", label: "Locked" },
+  { value: "unlocked", label: "Unlocked" },
+  { value: "none", label: "No lockup" },
+];
+
+export type CoinFilters = {
+  search: string; // see `searchCoins`
+  minEthLiquidity: number; // ETH in the pool
+  hasImage: boolean;
+  vesting: VestingFilter;
+};
+
+export const DEFAULT_COIN_FILTERS: CoinFilters = { search: "", minEthLiquidity: 0, hasImage: false, vesting: "any" };
+
+/** Inputs some sorts and filters need beyond `CoinData` */
+export type CoinFilterContext = {
+  lockups?: Map<string, CoinLockup | null>;
+  searchResults?: { coin: CoinData; score: number }[] | null; // `filters.search` run through the search index
+  randomSeed?: number;
+};
+
+/** First image field set on a coin, in the order cards look for one */
+export const getCoinImageSource = (coin: CoinData): string | null =>
+  coin.imageUrl || coin.metadata?.image || coin.metadata?.image_url || coin.metadata?.imageUrl || null;
+
+const ethLiquidity = (coin: CoinData) => Number(coin.reserve0) / 1e18;
+const marketCapEth = (coin: CoinData) => (coin.priceInEth ?? 0) * TOTAL_SUPPLY;
+
+// Stable pseudo-random rank for a coin, so "random" keeps its order across pages and live updates
+function randomRank(coinId: bigint, seed: number) {
+  let hash = seed ^ 0x811c9dc5;
+  for (const char of coinId.toString()) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Filter and sort the full coin list. `coins` is in registry (launch) order; ties go newest first, and coins
+ * missing the sorted value (no pool, stats not computed yet) go last. A vesting filter matches nothing until
+ * `lockups` is passed.
+ */
+export function filterAndSortCoins(
+  coins: CoinData[],
+  sort: CoinSort,
+  filters: CoinFilters,
+  { lockups, searchResults, randomSeed = 0 }: CoinFilterContext = {},
+): CoinData[] {
+  if (filters.vesting !== "any" && !lockups) return [];
+  const term = filters.search.trim().toLowerCase();
+  const nowSec = Math.floor(Date.now() / 1000);
+  // Position in the search results; only coins that matched are kept
+  const searchRank = term && searchResults ? new Map(searchResults.map(({ coin }, rank) => [coin.coinId, rank])) : null;
+
+  const filtered = coins
+    .map((coin, index) => ({ coin, index }))
+    .filter(({ coin }) => {
+      if (searchRank) {
+        if (!searchRank.has(coin.coinId)) return false;
+      } else if (term && !coin.name?.toLowerCase().includes(term) && !coin.symbol?.toLowerCase().includes(term)) {
+        return false;
+      }
+      if (filters.minEthLiquidity > 0 && ethLiquidity(coin) < filters.minEthLiquidity) return false;
+      if (filters.hasImage && !getCoinImageSource(coin)) return false;
+      if (filters.vesting !== "any" && lockups) {
+        if (getVestingStatus(lockups.get(coin.coinId.toString()), nowSec) !== filters.vesting) return false;
+      }
+      return true;
+    });
+
+  const value = (coin: CoinData): number | null => {
+    switch (sort) {
+      case "marketCap":
+        return coin.priceInEth ? marketCapEth(coin) : null;
+      case "liquidity":
+        return coin.reserve0 > 0n ? ethLiquidity(coin) : null;
+      case "price":
+        return coin.priceInEth;
+      case "change24h":
+        return coin.stats?.priceChange24h ?? null;
+      case "volume24h":
+        return coin.stats?.volume24h ?? null;
+      case "random":
+        return randomRank(coin.coinId, randomSeed);
+      case "relevance": {
+        // Higher sorts first, so best match (rank 0) gets the largest value
+        const rank = searchRank?.get(coin.coinId);
+        return rank === undefined ? null : -rank;
+      }
+      default:
+        return null;
+    }
+  };
+
+  // Without a search there's nothing to rank by, so best match falls back to newest
+  if (sort === "newest" || (sort === "relevance" && !searchRank)) return filtered.reverse().map(({ coin }) => coin);
+  if (sort === "oldest") return filtered.map(({ coin }) => coin);
+
+  return filtered
+    .map((entry) => ({ ...entry, value: value(entry.coin) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        if (a.value !== b.value) return a.value === null ? 1 : -1;
+        return b.index - a.index;
+      }
+      return b.value - a.value || b.index - a.index;
+    })
+    .map(({ coin }) => coin);
+}
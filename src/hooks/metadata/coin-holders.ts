@@ -0,0 +1,174 @@
+import { CoinsAbi, CoinsAddress } from "@/constants/Coins";
+import { type CoinHoldersRecord, getCoinHolders, putCoinHolders } from "@/lib/coin-store";
+import { type Address, type PublicClient, zeroAddress } from "viem";
+
+/**
+ * Balances of a coin's holders, summed from its Coins `Transfer` logs.
+ *
+ * Nothing indexes balances on chain, so every transfer since the coin was minted has to be read. Net balances
+ * are just sums of deltas, so the scan starts at the latest block and walks backwards a stretch per load, showing
+ * the biggest holders as it goes; once the mint is reached the balances are whole. Later loads only add the
+ * blocks mined since, so a coin opened before catches up straight away.
+ */
+
+export type CoinHoldersClient = Pick<PublicClient, "getBlockNumber" | "getContractEvents" | "readContract">;
+
+export type CoinHolders = Pick<CoinHoldersRecord, "fromBlock" | "toBlock" | "complete" | "balances">;
+
+export type CoinHolder = { address: Address; balance: bigint };
+
+// One coin's transfers are sparse, so chunks can be far wider than the pool logs'
+const MAX_TRANSFER_CHUNK_BLOCKS = 50_000n;
+// Chunks are halved down to this size when the RPC refuses them
+const MIN_TRANSFER_CHUNK_BLOCKS = 1_000n;
+// How far back one load walks before handing back what it has
+const BLOCKS_PER_LOAD = 500_000n;
+// Unchanged balances are still rewritten this often, so coins in use aren't pruned from the store
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+// The widest chunk the RPC has accepted this session; one refusal narrows it for every later scan
+let chunkBlocks = MAX_TRANSFER_CHUNK_BLOCKS;
+
+/** Net change per address over `[fromBlock, toBlock]`. Mints and burns only move the holder's side. */
+async function fetchTransfers(client: CoinHoldersClient, coinId: bigint, fromBlock: bigint, toBlock: bigint) {
+  const logs = await client.getContractEvents({
+    address: CoinsAddress,
+    abi: CoinsAbi,
+    eventName: "Transfer",
+    args: [null, null, coinId],
+    fromBlock,
+    toBlock,
+    strict: true,
+  });
+  const deltas = new Map<Address, bigint>();
+  const add = (address: Address, amount: bigint) => {
+    if (address !== zeroAddress) deltas.set(address, (deltas.get(address) ?? 0n) + amount);
+  };
+  for (const { args } of logs) {
+    const [, from, to, , amount] = args;
+    add(from, -amount);
+    add(to, amount);
+  }
+  return deltas;
+}
+
+/** `fetchTransfers` over a range of any size, in the widest chunks the RPC takes */
+async function fetchTransfersChunked(client: CoinHoldersClient, coinId: bigint, fromBlock: bigint, toBlock: bigint) {
+  const deltas = new Map<Address, bigint>();
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const end = start + chunkBlocks - 1n < toBlock ? start + chunkBlocks - 1n : toBlock;
+    try {
+      addBalances(deltas, await fetchTransfers(client, coinId, start, end));
+      start = end + 1n;
+    } catch (error) {
+      if (chunkBlocks <= MIN_TRANSFER_CHUNK_BLOCKS) throw error;
+      chunkBlocks /= 2n;
+    }
+  }
+  return deltas;
+}
+
+function addBalances(balances: Map<Address, bigint>, deltas: Map<Address, bigint>) {
+  for (const [address, delta] of deltas) {
+    const balance = (balances.get(address) ?? 0n) + delta;
+    if (balance === 0n) balances.delete(address);
+    else balances.set(address, balance);
+  }
+}
+
+/**
+ * Whether the balances account for the coin's whole supply. A range that starts after the mint sums to its net
+ * burns at most, and leaves anyone who sent coins they got earlier below zero.
+ */
+function isComplete(balances: Map<Address, bigint>, totalSupply: bigint) {
+  let sum = 0n;
+  for (const balance of balances.values()) {
+    if (balance < 0n) return false;
+    sum += balance;
+  }
+  return sum === totalSupply;
+}
+
+/** Holders with a positive balance, largest first */
+export function rankHolders(balances: Map<Address, bigint>): CoinHolder[] {
+  return [...balances]
+    .filter(([, balance]) => balance > 0n)
+    .map(([address, balance]) => ({ address, balance }))
+    .sort((a, b) => (a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1));
+}
+
+// Latest balances per coin this session, by coinId as a decimal string
+const holders = new Map<string, CoinHoldersRecord>();
+// One scan per coin at a time, so overlapping refetches don't count the same blocks twice
+const pending = new Map<string, Promise<CoinHolders>>();
+
+async function updateCoinHolders(client: CoinHoldersClient, coinId: bigint): Promise<CoinHolders> {
+  const key = coinId.toString();
+  const [latest, totalSupply] = await Promise.all([
+    client.getBlockNumber(),
+    client.readContract({ address: CoinsAddress, abi: CoinsAbi, functionName: "totalSupply", args: [coinId] }),
+  ]);
+
+  const cached =
+    holders.get(key) ??
+    (await getCoinHolders(coinId).catch((error) => {
+      console.error("Failed to read stored holders:", error);
+      return undefined;
+    }));
+
+  const balances = new Map(cached?.balances);
+  let fromBlock = cached ? cached.fromBlock : latest + 1n;
+  // A lagging RPC node can be behind what's already counted
+  const toBlock = cached && cached.toBlock > latest ? cached.toBlock : latest;
+  if (cached && cached.toBlock < latest) {
+    addBalances(balances, await fetchTransfersChunked(client, coinId, cached.toBlock + 1n, latest));
+  }
+
+  let complete = isComplete(balances, totalSupply);
+  const stop = fromBlock > BLOCKS_PER_LOAD ? fromBlock - BLOCKS_PER_LOAD : 0n;
+  while (!complete && fromBlock > stop) {
+    const start = fromBlock - chunkBlocks > stop ? fromBlock - chunkBlocks : stop;
+    addBalances(balances, await fetchTransfersChunked(client, coinId, start, fromBlock - 1n));
+    fromBlock = start;
+    complete = isComplete(balances, totalSupply);
+  }
+  // Nothing older to read; whatever doesn't add up was never logged
+  if (fromBlock === 0n) complete = true;
+
+  const now = Date.now();
+  const record: CoinHoldersRecord = {
+    coinId: key,
+    fromBlock,
+    toBlock,
+    complete,
+    balances,
+    updatedAt: cached?.updatedAt ?? now,
+  };
+  const changed = !cached || record.fromBlock !== cached.fromBlock || record.toBlock !== cached.toBlock;
+  if (changed || now - record.updatedAt > TOUCH_INTERVAL_MS) {
+    record.updatedAt = now;
+    putCoinHolders(record).catch((error) => console.error("Failed to store holders:", error));
+  }
+  holders.set(key, record);
+  return record;
+}
+
+/**
+ * A coin's holder balances up to the latest block. Each call walks up to `BLOCKS_PER_LOAD` further back until
+ * `complete`; until then, addresses that held coins from before `fromBlock` are missing or short.
+ */
+export function loadCoinHolders(client: CoinHoldersClient, coinId: bigint) {
+  const key = coinId.toString();
+  const previous = pending.get(key) ?? Promise.resolve();
+  const next = previous.then(
+    () => updateCoinHolders(client, coinId),
+    () => updateCoinHolders(client, coinId),
+  );
+  pending.set(key, next);
+  const settle = () => {
+    if (pending.get(key) === next) pending.delete(key);
+  };
+  next.then(settle, settle);
+  return next;
+}
@@ -0,0 +1,212 @@
+import type { CoinLockup } from "./use-coin-lockups";
+import type { CoinData } from "./use-global-coins-data";
+
+/**
+ * Client-side search over every coin.
+ *
+ * Each query token is scored against a coin's symbol, name and description: exact and prefix hits first,
+ * then substrings, then typo-tolerant matches (edit distance, scaled to token length). A numeric query also
+ * matches coin and pool IDs exactly, and an address (or address prefix) matches the creator from the
+ * coin's lockup. Ties go to the deeper pool.
+ */
+
+// Scores per kind of hit; a coin's score is its best hit
+const SCORE = {
+  exactSymbol: 1000,
+  exactId: 950,
+  exactCreator: 900,
+  symbolPrefix: 700,
+  exactName: 650,
+  creatorPrefix: 600,
+  namePrefix: 500,
+  substring: 400,
+  fuzzySymbol: 350,
+  fuzzyName: 300,
+  description: 150,
+  fuzzyDescription: 100,
+} as const;
+// Subtracted per edit for fuzzy hits
+const TYPO_PENALTY = 50;
+// Shortest address prefix worth searching creators for ("0x" + 4 hex digits)
+const MIN_CREATOR_QUERY_LENGTH = 6;
+
+export type CoinSearchEntry = {
+  coin: CoinData;
+  symbol: string;
+  name: string;
+  nameWords: string[];
+  description: string;
+  descriptionWords: string[];
+  creator: string | null; // lowercase address
+};
+
+export type CoinSearchIndex = {
+  entries: CoinSearchEntry[];
+  byId: Map<string, CoinSearchEntry>;
+  byPoolId: Map<string, CoinSearchEntry>;
+};
+
+const normalize = (text: string | null | undefined) =>
+  (text ?? "").normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase().trim();
+
+const toWords = (text: string) => text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/** True when a query should also search creators, i.e. it looks like (the start of) an address */
+export const isCreatorQuery = (query: string) =>
+  /^0x[0-9a-f]+$/i.test(query.trim()) && query.trim().length >= MIN_CREATOR_QUERY_LENGTH;
+
+// Normalized text per coin, reused while its name, symbol and description are unchanged; reserve updates
+// replace the CoinData objects every block, and re-normalizing thousands of descriptions each time adds up
+const textCache = new Map<string, { key: string; text: Omit<CoinSearchEntry, "coin" | "creator"> }>();
+
+function normalizedText(coin: CoinData) {
+  const id = coin.coinId.toString();
+  const key = `${coin.symbol}\u0000${coin.name}\u0000${coin.description}`;
+  const cached = textCache.get(id);
+  if (cached?.key === key) return cached.text;
+  const name = normalize(coin.name);
+  const description = normalize(coin.description);
+  const text = {
+    symbol: normalize(coin.symbol),
+    name,
+    nameWords: toWords(name),
+    description,
+    descriptionWords: toWords(description),
+  };
+  textCache.set(id, { key, text });
+  return text;
+}
+
+export function buildCoinSearchIndex(coins: CoinData[], lockups?: Map<string, CoinLockup | null>): CoinSearchIndex {
+  const byId = new Map<string, CoinSearchEntry>();
+  const byPoolId = new Map<string, CoinSearchEntry>();
+  const entries = coins.map((coin) => {
+    const id = coin.coinId.toString();
+    const entry: CoinSearchEntry = {
+      coin,
+      ...normalizedText(coin),
+      creator: lockups?.get(id)?.owner.toLowerCase() ?? null,
+    };
+    byId.set(id, entry);
+    if (coin.poolId > 0n) byPoolId.set(coin.poolId.toString(), entry);
+    return entry;
+  });
+  return { entries, byId, byPoolId };
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps), giving up past `max`
+ * @returns The distance, or `max + 1` when it's larger than `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Typos tolerated for a token of this length: none for short tokens, where everything is one edit away
+const maxTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+// Fewest edits from `token` to any word, or to the start of one so partially typed words still match
+function fuzzyDistance(token: string, words: string[]): number | null {
+  const max = maxTypos(token.length);
+  if (max === 0) return null;
+  let best = max + 1;
+  for (const word of words) {
+    best = Math.min(best, editDistance(token, word, max));
+    if (word.length > token.length) best = Math.min(best, editDistance(token, word.slice(0, token.length), max));
+    if (best === 1) break;
+  }
+  return best <= max ? best : null;
+}
+
+function scoreToken(entry: CoinSearchEntry, token: string): number {
+  const { symbol, name, nameWords, description, descriptionWords } = entry;
+  if (symbol === token) return SCORE.exactSymbol;
+  if (symbol.startsWith(token)) return SCORE.symbolPrefix;
+  if (name === token) return SCORE.exactName;
+  if (nameWords.some((word) => word.startsWith(token))) return SCORE.namePrefix;
+  if (symbol.includes(token) || name.includes(token)) return SCORE.substring;
+
+  const symbolTypos = fuzzyDistance(token, [symbol]);
+  if (symbolTypos !== null) return SCORE.fuzzySymbol - symbolTypos * TYPO_PENALTY;
+  const nameTypos = fuzzyDistance(token, nameWords);
+  if (nameTypos !== null) return SCORE.fuzzyName - nameTypos * TYPO_PENALTY;
+
+  if (description.includes(token)) return SCORE.description;
+  const descriptionTypos = fuzzyDistance(token, descriptionWords);
+  if (descriptionTypos !== null) return SCORE.fuzzyDescription - descriptionTypos * TYPO_PENALTY;
+  return 0;
+}
+
+/**
+ * Coins matching a query, best first
+ * @returns Matches with their scores; every token of a multi-word query has to match
+ */
+export function searchCoins(
+  index: CoinSearchIndex,
+  query: string,
+  { limit }: { limit?: number } = {},
+): { coin: CoinData; score: number }[] {
+  const normalized = normalize(query);
+  if (!normalized) return [];
+  const scores = new Map<CoinSearchEntry, number>();
+  const bump = (entry: CoinSearchEntry, score: number) => scores.set(entry, Math.max(scores.get(entry) ?? 0, score));
+
+  // Exact coin or pool ID
+  if (/^\d+$/.test(normalized)) {
+    const byId = index.byId.get(normalized);
+    if (byId) bump(byId, SCORE.exactId);
+    const byPool = index.byPoolId.get(normalized);
+    if (byPool) bump(byPool, SCORE.exactId);
+  }
+
+  // Creator address or prefix
+  if (isCreatorQuery(normalized)) {
+    for (const entry of index.entries) {
+      if (entry.creator === normalized) bump(entry, SCORE.exactCreator);
+      else if (entry.creator?.startsWith(normalized)) bump(entry, SCORE.creatorPrefix);
+    }
+  }
+
+  const tokens = toWords(normalized);
+  if (tokens.length > 0) {
+    for (const entry of index.entries) {
+      let total = 0;
+      for (const token of tokens) {
+        const score = scoreToken(entry, token);
+        if (score === 0) {
+          total = 0;
+          break;
+        }
+        total += score;
+      }
+      if (total === 0) continue;
+      // Whole-query hits on the name beat the same words scattered around
+      const score = entry.name === normalized ? SCORE.exactName : total / tokens.length;
+      bump(entry, entry.symbol === normalized ? SCORE.exactSymbol : score);
+    }
+  }
+
+  const results = Array.from(scores, ([entry, score]) => ({ coin: entry.coin, score })).sort(
+    (a, b) => b.score - a.score || (b.coin.reserve0 > a.coin.reserve0 ? 1 : b.coin.reserve0 < a.coin.reserve0 ? -1 : 0),
+  );
+  return limit === undefined ? results : results.slice(0, limit);
+}
@@ -0,0 +1,169 @@
+import { CoinsMetadataHelperAbi, CoinsMetadataHelperAddress } from "@/constants/CoinsMetadataHelper";
+import { type PublicClient, formatEther, formatUnits } from "viem";
+import type { CoinData } from "./use-global-coins-data";
+
+/**
+ * Largest number of coins read in one `eth_call`. Every coin costs a pool lookup and a tokenURI string,
+ * so whole-registry calls eventually exceed RPC gas and response-size limits.
+ */
+export const SYNC_CHUNK_SIZE = 100;
+// Chunks in flight at once; public RPCs rate-limit bursts
+const MAX_PARALLEL_CHUNKS = 3;
+
+export type CoinsClient = Pick<PublicClient, "readContract" | "getBlockNumber">;
+
+type RawCoin = {
+  coinId: bigint;
+  tokenURI: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  poolId: bigint;
+  liquidity: bigint;
+};
+
+/** ETH per coin at the given reserves, or null for an empty pool */
+export const priceInEth = (reserve0: bigint, reserve1: bigint) =>
+  reserve0 > 0n && reserve1 > 0n ? Number(formatEther(reserve0)) / Number(formatUnits(reserve1, 18)) : null;
+
+/** Contract struct → `CoinData` without metadata */
+export const toCoinData = (raw: RawCoin): CoinData => ({
+  coinId: BigInt(raw.coinId),
+  tokenURI: raw.tokenURI?.toString() || "",
+  reserve0: BigInt(raw.reserve0 || 0),
+  reserve1: BigInt(raw.reserve1 || 0),
+  poolId: BigInt(raw.poolId || 0),
+  liquidity: BigInt(raw.liquidity || 0),
+  name: null,
+  symbol: null,
+  description: null,
+  imageUrl: null,
+  metadata: null,
+  priceInEth: priceInEth(BigInt(raw.reserve0 || 0), BigInt(raw.reserve1 || 0)),
+  stats: null,
+});
+
+/**
+ * Apply freshly read market data to a known coin, keeping its metadata and stats unless the tokenURI changed
+ */
+export function mergeMarket(coin: CoinData, fresh: CoinData): CoinData {
+  if (fresh.coinId !== coin.coinId || fresh.tokenURI !== coin.tokenURI) return fresh;
+  if (
+    fresh.reserve0 === coin.reserve0 &&
+    fresh.reserve1 === coin.reserve1 &&
+    fresh.liquidity === coin.liquidity &&
+    fresh.poolId === coin.poolId
+  ) {
+    return coin;
+  }
+  const { reserve0, reserve1, poolId, liquidity } = fresh;
+  return { ...coin, reserve0, reserve1, poolId, liquidity, priceInEth: fresh.priceInEth };
+}
+
+/**
+ * Apply reserves from a pool event to a coin. LP supply isn't part of the event, so `liquidity` is kept.
+ */
+export function withReserves(coin: CoinData, reserve0: bigint, reserve1: bigint): CoinData {
+  if (coin.reserve0 === reserve0 && coin.reserve1 === reserve1) return coin;
+  return { ...coin, reserve0, reserve1, priceInEth: priceInEth(reserve0, reserve1) };
+}
+
+// Run `tasks` with at most `limit` in flight, preserving order
+export async function inBatches<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+  const results: T[] = [];
+  for (let i = 0; i < tasks.length; i += limit) {
+    results.push(...(await Promise.all(tasks.slice(i, i + limit).map((task) => task()))));
+  }
+  return results;
+}
+
+/** Number of coins in the Coinchan registry */
+export async function fetchCoinsCount(client: CoinsClient, blockNumber?: bigint) {
+  const count = await client.readContract({
+    address: CoinsMetadataHelperAddress,
+    abi: CoinsMetadataHelperAbi,
+    functionName: "getCoinsCount",
+    blockNumber,
+  });
+  return Number(count);
+}
+
+/**
+ * Coins at registry positions `[start, end)`, read in `SYNC_CHUNK_SIZE` chunks
+ */
+export async function fetchCoinRange(
+  client: CoinsClient,
+  start: number,
+  end: number,
+  blockNumber?: bigint,
+): Promise<CoinData[]> {
+  const tasks: (() => Promise<readonly RawCoin[]>)[] = [];
+  for (let from = start; from < end; from += SYNC_CHUNK_SIZE) {
+    // getCoinDataBatch's `finish` is inclusive
+    const finish = Math.min(from + SYNC_CHUNK_SIZE, end) - 1;
+    tasks.push(() =>
+      client.readContract({
+        address: CoinsMetadataHelperAddress,
+        abi: CoinsMetadataHelperAbi,
+        functionName: "getCoinDataBatch",
+        args: [BigInt(from), BigInt(finish)],
+        blockNumber,
+      }),
+    );
+  }
+  const chunks = await inBatches(tasks, MAX_PARALLEL_CHUNKS);
+  return chunks.flat().map(toCoinData);
+}
+
+/**
+ * Specific coins by ID, read in `SYNC_CHUNK_SIZE` chunks
+ */
+export async function fetchCoinsByIds(client: CoinsClient, coinIds: bigint[], blockNumber?: bigint) {
+  const tasks: (() => Promise<readonly RawCoin[]>)[] = [];
+  for (let i = 0; i < coinIds.length; i += SYNC_CHUNK_SIZE) {
+    const ids = coinIds.slice(i, i + SYNC_CHUNK_SIZE);
+    tasks.push(() =>
+      client.readContract({
+        address: CoinsMetadataHelperAddress,
+        abi: CoinsMetadataHelperAbi,
+        functionName: "getCoinsByIds",
+        args: [ids],
+        blockNumber,
+      }),
+    );
+  }
+  const chunks = await inBatches(tasks, MAX_PARALLEL_CHUNKS);
+  return chunks.flat().map(toCoinData);
+}
+
+/**
+ * Bring a registry-ordered coin list up to date.
+ *
+ * The registry is append-only, so only positions past `known.length` are new. They're read by explicit
+ * index range, in chunks for a long gap (first sync, or a long-closed tab), so each coin's position is
+ * known. All reads are pinned to one block so the count and the ranges agree.
+ * @param known Coins already synced, in registry order
+ * @param refreshExisting Also re-read market data for every known coin
+ * @returns The full list in registry order, plus how many coins were new
+ */
+export async function syncCoinRegistry(
+  client: CoinsClient,
+  known: CoinData[],
+  { refreshExisting }: { refreshExisting: boolean },
+): Promise<{ coins: CoinData[]; added: number }> {
+  const blockNumber = await client.getBlockNumber();
+  const count = await fetchCoinsCount(client, blockNumber);
+
+  // Fewer coins than we know of means we were synced against another chain or a bad cache
+  if (count < known.length) {
+    return { coins: await fetchCoinRange(client, 0, count, blockNumber), added: count };
+  }
+
+  const added = count - known.length;
+  const [newCoins, refreshed] = await Promise.all([
+    added === 0 ? [] : fetchCoinRange(client, known.length, count, blockNumber),
+    refreshExisting ? fetchCoinRange(client, 0, known.length, blockNumber) : null,
+  ]);
+
+  const existing = refreshed ? known.map((coin, i) => (refreshed[i] ? mergeMarket(coin, refreshed[i]) : coin)) : known;
+  return { coins: [...existing, ...newCoins], added };
+}
@@ -0,0 +1,104 @@
+import { CoinchanAbi, CoinchanAddress } from "@/constants/Coinchan";
+import type { Address, PublicClient } from "viem";
+
+/**
+ * Coins a creator launched with a lockup, from Coinchan's `Locked` logs.
+ *
+ * A lockup is deleted once its creator claims everything after unlock, but the `Locked` log of its launch stays,
+ * so this still finds coins `lockups` has forgotten. Logs are filtered by creator and few, so the scan starts at
+ * the latest block and walks backwards in wide chunks, a stretch per load, until it reaches the first block. Later
+ * loads only add the blocks mined since.
+ */
+
+export type CreatorLaunchesClient = Pick<PublicClient, "getBlockNumber" | "getContractEvents">;
+
+export type CreatorLaunches = {
+  fromBlock: bigint; // first block scanned, inclusive
+  toBlock: bigint; // last block scanned, inclusive
+  complete: boolean; // scanned back to the first block
+  coinIds: Set<string>; // decimal strings
+};
+
+// A creator's launches are sparse, so chunks can be far wider than the transfer logs'
+const MAX_LAUNCH_CHUNK_BLOCKS = 1_000_000n;
+// Chunks are halved down to this size when the RPC refuses them
+const MIN_LAUNCH_CHUNK_BLOCKS = 1_000n;
+// How far back one load walks before handing back what it has
+const BLOCKS_PER_LOAD = 5_000_000n;
+
+// The widest chunk the RPC has accepted this session; one refusal narrows it for every later scan
+let chunkBlocks = MAX_LAUNCH_CHUNK_BLOCKS;
+
+/** Coins `creator` launched with a lockup over `[fromBlock, toBlock]`, in the widest chunks the RPC takes */
+async function fetchLaunches(client: CreatorLaunchesClient, creator: Address, fromBlock: bigint, toBlock: bigint) {
+  const coinIds = new Set<string>();
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const end = start + chunkBlocks - 1n < toBlock ? start + chunkBlocks - 1n : toBlock;
+    try {
+      const logs = await client.getContractEvents({
+        address: CoinchanAddress,
+        abi: CoinchanAbi,
+        eventName: "Locked",
+        args: { creator },
+        fromBlock: start,
+        toBlock: end,
+        strict: true,
+      });
+      for (const { args } of logs) coinIds.add(args.coinId.toString());
+      start = end + 1n;
+    } catch (error) {
+      if (chunkBlocks <= MIN_LAUNCH_CHUNK_BLOCKS) throw error;
+      chunkBlocks /= 2n;
+    }
+  }
+  return coinIds;
+}
+
+// Latest scan per creator this session, by lowercased address
+const launches = new Map<string, CreatorLaunches>();
+// One scan per creator at a time, so overlapping refetches don't read the same blocks twice
+const pending = new Map<string, Promise<CreatorLaunches>>();
+
+async function updateCreatorLaunches(client: CreatorLaunchesClient, creator: Address): Promise<CreatorLaunches> {
+  const key = creator.toLowerCase();
+  const latest = await client.getBlockNumber();
+  const cached = launches.get(key);
+
+  const coinIds = new Set(cached?.coinIds);
+  let fromBlock = cached ? cached.fromBlock : latest + 1n;
+  // A lagging RPC node can be behind what's already scanned
+  const toBlock = cached && cached.toBlock > latest ? cached.toBlock : latest;
+  if (cached && cached.toBlock < latest) {
+    for (const id of await fetchLaunches(client, creator, cached.toBlock + 1n, latest)) coinIds.add(id);
+  }
+
+  const stop = fromBlock > BLOCKS_PER_LOAD ? fromBlock - BLOCKS_PER_LOAD : 0n;
+  if (fromBlock > stop) {
+    for (const id of await fetchLaunches(client, creator, stop, fromBlock - 1n)) coinIds.add(id);
+    fromBlock = stop;
+  }
+
+  const record: CreatorLaunches = { fromBlock, toBlock, complete: fromBlock === 0n, coinIds };
+  launches.set(key, record);
+  return record;
+}
+
+/**
+ * The coins `creator` launched with a lockup, up to the latest block. Each call walks up to `BLOCKS_PER_LOAD`
+ * further back until `complete`; until then, launches from before `fromBlock` are missing.
+ */
+export function loadCreatorLaunches(client: CreatorLaunchesClient, creator: Address) {
+  const key = creator.toLowerCase();
+  const previous = pending.get(key) ?? Promise.resolve();
+  const next = previous.then(
+    () => updateCreatorLaunches(client, creator),
+    () => updateCreatorLaunches(client, creator),
+  );
+  pending.set(key, next);
+  const settle = () => {
+    if (pending.get(key) === next) pending.delete(key);
+  };
+  next.then(settle, settle);
+  return next;
+}
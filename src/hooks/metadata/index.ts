@@ -1,3 +1,19 @@
 export * from './use-global-coins-data';
 export * from './use-coin-data';
-export * from './use-paged-coins';
\ No newline at end of file
+export * from './use-paged-coins';
+export * from './use-hot-coin-reserves';
+export * from './use-live-reserves';
+export * from './use-coin-lockups';
+export * from './coin-filters';
+export * from './coin-search';
+export * from './use-coin-search';
+export * from './use-coins-by-ids';
+export * from './pool-history';
+export * from './use-pool-history';
+export * from './candles';
+export * from './pool-stats';
+export * from './use-coin-stats';
+export * from './coin-holders';
+export * from './use-coin-holders';
+export * from './creator-launches';
+export * from './use-creator-coins';
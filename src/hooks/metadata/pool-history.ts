@@ -0,0 +1,222 @@
+import { ZAAMAbi, ZAAMAddress } from "@/constants/ZAAM";
+import {
+  type PoolHistoryRecord,
+  type PoolSwapLog,
+  type PoolSyncLog,
+  getPoolHistory,
+  putPoolHistory,
+} from "@/lib/coin-store";
+import type { PublicClient } from "viem";
+import { inBatches } from "./coin-sync";
+
+/**
+ * History of a single pool, rebuilt from its ZAMM `Swap` and `Sync` logs.
+ *
+ * Logs are fetched in block chunks and kept per pool over one contiguous block range, in memory and in the coin
+ * store. Loading a window only fetches the blocks it adds at either end of what's kept, so a pool that was open
+ * before just catches up on the blocks mined since.
+ *
+ * Logs carry no timestamps; each is interpolated between the timestamps of the blocks bounding its chunk, which is
+ * exact at the ends and off by a few missed slots at most in between.
+ */
+
+export type PoolHistoryClient = Pick<PublicClient, "getBlockNumber" | "getBlock" | "getContractEvents">;
+
+export type PoolHistory = Pick<PoolHistoryRecord, "fromBlock" | "toBlock" | "swaps" | "syncs">;
+
+// 12s slots
+export const SECONDS_PER_BLOCK = 12;
+export const BLOCKS_PER_DAY = 7200n;
+/** Longest window kept per pool; older logs are dropped */
+export const MAX_HISTORY_BLOCKS = 30n * BLOCKS_PER_DAY;
+
+const LOG_CHUNK_BLOCKS = 10_000n;
+// Chunks are halved down to this size when the RPC refuses them, usually for returning too many logs
+const MIN_LOG_CHUNK_BLOCKS = 250n;
+// Chunks in flight at once; public RPCs rate-limit bursts
+const MAX_PARALLEL_CHUNKS = 3;
+// Unchanged history is still rewritten this often, so pools in use aren't pruned from the store
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+export type PoolLogs = { swaps: PoolSwapLog[]; syncs: PoolSyncLog[] };
+
+export const NO_LOGS: PoolLogs = { swaps: [], syncs: [] };
+
+export const concatLogs = (parts: PoolLogs[]): PoolLogs => ({
+  swaps: parts.flatMap((part) => part.swaps),
+  syncs: parts.flatMap((part) => part.syncs),
+});
+
+/** Estimated timestamp of any block in `[fromBlock, toBlock]` */
+async function blockTimestamps(client: PoolHistoryClient, fromBlock: bigint, toBlock: bigint) {
+  const [first, last] = await Promise.all([
+    client.getBlock({ blockNumber: fromBlock }),
+    toBlock === fromBlock ? null : client.getBlock({ blockNumber: toBlock }),
+  ]);
+  const start = Number(first.timestamp);
+  const end = last ? Number(last.timestamp) : start;
+  const span = Number(toBlock - fromBlock);
+  return (blockNumber: bigint) =>
+    span === 0 ? start : Math.round(start + ((end - start) * Number(blockNumber - fromBlock)) / span);
+}
+
+async function fetchChunk(
+  client: PoolHistoryClient,
+  poolId: bigint | null,
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<PoolLogs> {
+  const filter = poolId === null ? undefined : { poolId };
+  try {
+    const [swapLogs, syncLogs] = await Promise.all([
+      client.getContractEvents({
+        address: ZAAMAddress,
+        abi: ZAAMAbi,
+        eventName: "Swap",
+        args: filter,
+        fromBlock,
+        toBlock,
+        strict: true,
+      }),
+      client.getContractEvents({
+        address: ZAAMAddress,
+        abi: ZAAMAbi,
+        eventName: "Sync",
+        args: filter,
+        fromBlock,
+        toBlock,
+        strict: true,
+      }),
+    ]);
+    if (swapLogs.length === 0 && syncLogs.length === 0) return NO_LOGS;
+
+    const timestampAt = await blockTimestamps(client, fromBlock, toBlock);
+    return {
+      swaps: swapLogs.map(({ args, blockNumber, logIndex, transactionHash }) => ({
+        poolId: args.poolId,
+        blockNumber,
+        logIndex,
+        transactionHash,
+        timestamp: timestampAt(blockNumber),
+        sender: args.sender,
+        to: args.to,
+        amount0In: args.amount0In,
+        amount1In: args.amount1In,
+        amount0Out: args.amount0Out,
+        amount1Out: args.amount1Out,
+      })),
+      syncs: syncLogs.map(({ args, blockNumber, logIndex }) => ({
+        poolId: args.poolId,
+        blockNumber,
+        logIndex,
+        timestamp: timestampAt(blockNumber),
+        reserve0: args.reserve0,
+        reserve1: args.reserve1,
+      })),
+    };
+  } catch (error) {
+    if (toBlock - fromBlock + 1n <= MIN_LOG_CHUNK_BLOCKS) throw error;
+    const middle = fromBlock + (toBlock - fromBlock) / 2n;
+    const first = await fetchChunk(client, poolId, fromBlock, middle);
+    const second = await fetchChunk(client, poolId, middle + 1n, toBlock);
+    return concatLogs([first, second]);
+  }
+}
+
+/**
+ * A pool's logs over `[fromBlock, toBlock]`, in chain order
+ * @param poolId The pool, or null for every pool
+ */
+export async function fetchPoolLogs(
+  client: PoolHistoryClient,
+  poolId: bigint | null,
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<PoolLogs> {
+  const tasks: (() => Promise<PoolLogs>)[] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+    const end = start + LOG_CHUNK_BLOCKS - 1n < toBlock ? start + LOG_CHUNK_BLOCKS - 1n : toBlock;
+    tasks.push(() => fetchChunk(client, poolId, start, end));
+  }
+  return concatLogs(await inBatches(tasks, MAX_PARALLEL_CHUNKS));
+}
+
+// Latest history per pool this session, by poolId as a decimal string
+const histories = new Map<string, PoolHistoryRecord>();
+// One load per pool at a time, so two windows opening together don't fetch the same blocks twice
+const pending = new Map<string, Promise<PoolHistory>>();
+
+async function updatePoolHistory(
+  client: PoolHistoryClient,
+  poolId: bigint,
+  windowBlocks: bigint,
+): Promise<PoolHistory> {
+  const key = poolId.toString();
+  const latest = await client.getBlockNumber();
+  const start = latest > windowBlocks ? latest - windowBlocks : 0n;
+  const oldest = latest > MAX_HISTORY_BLOCKS ? latest - MAX_HISTORY_BLOCKS : 0n;
+
+  let cached =
+    histories.get(key) ??
+    (await getPoolHistory(poolId).catch((error) => {
+      console.error("Failed to read stored pool history:", error);
+      return undefined;
+    }));
+  // Nothing kept is recent enough to build on, e.g. a pool last opened weeks ago
+  if (cached && cached.toBlock < oldest) cached = undefined;
+
+  const fromBlock = cached && cached.fromBlock <= start ? cached.fromBlock : start;
+  const older = cached
+    ? fromBlock < cached.fromBlock
+      ? await fetchPoolLogs(client, poolId, fromBlock, cached.fromBlock - 1n)
+      : NO_LOGS
+    : await fetchPoolLogs(client, poolId, fromBlock, latest);
+  const newer =
+    cached && cached.toBlock < latest ? await fetchPoolLogs(client, poolId, cached.toBlock + 1n, latest) : NO_LOGS;
+  const logs = concatLogs([older, cached ?? NO_LOGS, newer]);
+
+  const now = Date.now();
+  const trimmedFrom = fromBlock < oldest ? oldest : fromBlock;
+  const record: PoolHistoryRecord = {
+    poolId: key,
+    fromBlock: trimmedFrom,
+    // A lagging RPC node can be behind what's already kept
+    toBlock: cached && cached.toBlock > latest ? cached.toBlock : latest,
+    swaps: logs.swaps.filter((log) => log.blockNumber >= trimmedFrom),
+    syncs: logs.syncs.filter((log) => log.blockNumber >= trimmedFrom),
+    updatedAt: cached?.updatedAt ?? now,
+  };
+
+  // Blocks without logs aren't worth a write; a later session just refetches them
+  const changed =
+    !cached ||
+    record.fromBlock !== cached.fromBlock ||
+    record.swaps.length !== cached.swaps.length ||
+    record.syncs.length !== cached.syncs.length;
+  if (changed || now - record.updatedAt > TOUCH_INTERVAL_MS) {
+    record.updatedAt = now;
+    putPoolHistory(record).catch((error) => console.error("Failed to store pool history:", error));
+  }
+  histories.set(key, record);
+  return record;
+}
+
+/**
+ * A pool's `Swap` and `Sync` logs from at least `windowBlocks` back up to the latest block, fetching only the
+ * blocks not already kept
+ * @returns The history, which may reach further back than asked (up to `MAX_HISTORY_BLOCKS`)
+ */
+export function loadPoolHistory(client: PoolHistoryClient, poolId: bigint, windowBlocks: bigint) {
+  const key = poolId.toString();
+  const previous = pending.get(key) ?? Promise.resolve();
+  const next = previous.then(
+    () => updatePoolHistory(client, poolId, windowBlocks),
+    () => updatePoolHistory(client, poolId, windowBlocks),
+  );
+  pending.set(key, next);
+  const settle = () => {
+    if (pending.get(key) === next) pending.delete(key);
+  };
+  next.then(settle, settle);
+  return next;
+}
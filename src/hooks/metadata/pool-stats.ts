@@ -0,0 +1,109 @@
+import { MAX_SWAP_FEE_BPS, SWAP_FEE } from "@/lib/amm";
+import type { CoinStats, PoolSwapLog, PoolSyncLog } from "@/lib/coin-store";
+import { formatEther } from "viem";
+import { priceInEth } from "./coin-sync";
+import {
+  BLOCKS_PER_DAY,
+  NO_LOGS,
+  type PoolHistoryClient,
+  type PoolLogs,
+  concatLogs,
+  fetchPoolLogs,
+} from "./pool-history";
+
+/**
+ * 24h trading stats for every pool, from ZAMM `Swap` and `Sync` logs.
+ *
+ * The last day of logs across all pools is kept in memory as a rolling window: each refresh fetches the blocks
+ * mined since the last one and drops the ones that fell out of the day.
+ */
+
+// Stats are only looked up by the registry's `poolId`, which CoinsMetadataHelper derives with the default fee, so
+// every pool counted is a 1% one; trades in a pool launched with another fee are left out, and the UI says so
+const FEE_RATE = Number(SWAP_FEE) / Number(MAX_SWAP_FEE_BPS);
+
+/** Stats for a pool nothing happened in */
+export const QUIET_POOL_STATS: CoinStats = { volume24h: 0, swaps24h: 0, fees24h: 0, priceChange24h: 0 };
+
+type StatsWindow = PoolLogs & { toBlock: bigint };
+
+let statsWindow: StatsWindow | null = null;
+
+const eth = (amount: bigint) => Number(formatEther(amount));
+
+// Logs are keyed by position to pair each `Sync` with the swap that emitted it
+const positionKey = (log: { blockNumber: bigint; logIndex: number }) => `${log.blockNumber}:${log.logIndex}`;
+
+/**
+ * The pool's price going into the window. ZAMM emits `Sync` right before the `Swap` it belongs to, so undoing
+ * that swap's amounts recovers the reserves before it. A first `Sync` from a mint or burn doesn't move the price,
+ * so its own reserves stand in.
+ */
+function openingPrice(sync: PoolSyncLog, swapsByPosition: Map<string, PoolSwapLog>) {
+  const swap = swapsByPosition.get(positionKey({ blockNumber: sync.blockNumber, logIndex: sync.logIndex + 1 }));
+  if (!swap || swap.poolId !== sync.poolId) return priceInEth(sync.reserve0, sync.reserve1);
+  return priceInEth(sync.reserve0 - swap.amount0In + swap.amount0Out, sync.reserve1 - swap.amount1In + swap.amount1Out);
+}
+
+/**
+ * Stats per pool from a window of logs. Pools missing from the result had no activity in it.
+ *
+ * Fees are taken on the input side at the default rate; a sell's are valued at the ETH it paid out. Pools with
+ * another fee come out with the wrong fees, but no coin's stats are looked up by their `poolId`.
+ */
+export function computePoolStats({ swaps, syncs }: PoolLogs): Map<bigint, CoinStats> {
+  const stats = new Map<bigint, CoinStats>();
+  const statsFor = (poolId: bigint) => {
+    let entry = stats.get(poolId);
+    if (!entry) {
+      entry = { ...QUIET_POOL_STATS };
+      stats.set(poolId, entry);
+    }
+    return entry;
+  };
+
+  const swapsByPosition = new Map<string, PoolSwapLog>();
+  for (const swap of swaps) {
+    swapsByPosition.set(positionKey(swap), swap);
+    const entry = statsFor(swap.poolId);
+    entry.swaps24h += 1;
+    entry.volume24h += eth(swap.amount0In + swap.amount0Out);
+    entry.fees24h += eth(swap.amount0In > 0n ? swap.amount0In : swap.amount0Out) * FEE_RATE;
+  }
+
+  // Logs are in chain order, so the first and last `Sync` per pool bracket the window
+  const first = new Map<bigint, PoolSyncLog>();
+  const last = new Map<bigint, PoolSyncLog>();
+  for (const sync of syncs) {
+    if (!first.has(sync.poolId)) first.set(sync.poolId, sync);
+    last.set(sync.poolId, sync);
+  }
+  for (const [poolId, sync] of last) {
+    const opening = openingPrice(first.get(poolId) as PoolSyncLog, swapsByPosition);
+    const closing = priceInEth(sync.reserve0, sync.reserve1);
+    statsFor(poolId).priceChange24h = opening && closing !== null ? closing / opening - 1 : null;
+  }
+  return stats;
+}
+
+/**
+ * Catch the rolling window up to the latest block and compute stats from it
+ * @returns Stats by poolId for every pool active in the last day
+ */
+export async function refreshPoolStats(client: PoolHistoryClient): Promise<Map<bigint, CoinStats>> {
+  const latest = await client.getBlockNumber();
+  const start = latest > BLOCKS_PER_DAY ? latest - BLOCKS_PER_DAY : 0n;
+
+  // A window that's fallen a whole day behind, e.g. in a backgrounded tab, is rebuilt from scratch
+  const kept = statsWindow && statsWindow.toBlock >= start ? statsWindow : null;
+  const from = kept ? kept.toBlock + 1n : start;
+  const fresh = from <= latest ? await fetchPoolLogs(client, null, from, latest) : NO_LOGS;
+  const logs = concatLogs([kept ?? NO_LOGS, fresh]);
+
+  statsWindow = {
+    toBlock: kept && kept.toBlock > latest ? kept.toBlock : latest,
+    swaps: logs.swaps.filter((log) => log.blockNumber >= start),
+    syncs: logs.syncs.filter((log) => log.blockNumber >= start),
+  };
+  return computePoolStats(statsWindow);
+}
@@ -1,15 +1,12 @@
 import { useCallback, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { createPublicClient, http } from 'viem';
-import { mainnet } from 'viem/chains';
+import { getMainnetClient } from '@/wagmi';
 import { useGlobalCoinsData, type CoinData } from './use-global-coins-data';
 import { CoinsMetadataHelperAbi, CoinsMetadataHelperAddress } from '@/constants/CoinsMetadataHelper';
+import { fetchIpfsJson, parseIpfsUri, resolveIpfsUrl } from '@/lib/ipfs';
 
-// Create a public client instance
-const publicClient = createPublicClient({
-  chain: mainnet,
-  transport: http(),
-});
+// Shared mainnet client: configured RPC endpoints with fallback, batching and multicall
+const publicClient = getMainnetClient();
 
 /**
  * Hook to access data for a single coin
@@ -108,6 +105,7 @@ async function processRawCoinData(rawData: any): Promise<CoinData> {
     imageUrl: null,
     metadata: null,
     priceInEth: null,
+    stats: null,
   };
   
   // Calculate price in ETH if reserves are available
@@ -120,32 +118,19 @@ async function processRawCoinData(rawData: any): Promise<CoinData> {
   // Try to fetch metadata
   if (coinData.tokenURI && coinData.tokenURI !== 'N/A') {
     try {
-      // Handle IPFS URIs
-      let uri = coinData.tokenURI;
-      if (uri.startsWith('ipfs://')) {
-        uri = `https://content.wrappr.wtf/ipfs/${uri.slice(7)}`;
-      }
-      
-      // Only proceed if it's an HTTP URI
-      if (uri.startsWith('http')) {
-        const response = await fetch(uri);
-        if (response.ok) {
-          const metadata = await response.json();
-          
-          // Extract common fields
-          coinData.name = metadata.name || null;
-          coinData.symbol = metadata.symbol || null;
-          coinData.description = metadata.description || null;
-          coinData.metadata = metadata;
-          
-          // Process image URL if present
-          if (metadata.image) {
-            if (metadata.image.startsWith('ipfs://')) {
-              coinData.imageUrl = `https://content.wrappr.wtf/ipfs/${metadata.image.slice(7)}`;
-            } else {
-              coinData.imageUrl = metadata.image;
-            }
-          }
+      // Only IPFS content and HTTP URIs can be fetched
+      if (parseIpfsUri(coinData.tokenURI) || coinData.tokenURI.startsWith('http')) {
+        const metadata = await fetchIpfsJson<Record<string, any>>(coinData.tokenURI);
+
+        // Extract common fields
+        coinData.name = metadata.name || null;
+        coinData.symbol = metadata.symbol || null;
+        coinData.description = metadata.description || null;
+        coinData.metadata = metadata;
+
+        // Process image URL if present
+        if (metadata.image) {
+          coinData.imageUrl = resolveIpfsUrl(metadata.image);
         }
       }
     } catch (error) {
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { mainnet } from "viem/chains";
+import { usePublicClient } from "wagmi";
+import { type CoinHoldersClient, loadCoinHolders } from "./coin-holders";
+
+// Loads scanning further back follow each other quickly; once whole, only new blocks are read
+const HOLDERS_SCAN_MS = 1_000;
+const HOLDERS_POLL_MS = 30_000;
+
+/**
+ * A coin's holder balances, filled in as the scan walks back to its mint and kept current after
+ * @returns The query; `data.complete` is false while older transfers are still being read
+ */
+export function useCoinHolders(coinId: bigint | null | undefined) {
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+
+  return useQuery({
+    queryKey: ["coin-holders", coinId?.toString() ?? null],
+    queryFn: () => loadCoinHolders(publicClient as CoinHoldersClient, coinId as bigint),
+    enabled: !!publicClient && !!coinId,
+    refetchInterval: (query) => (query.state.data?.complete === false ? HOLDERS_SCAN_MS : HOLDERS_POLL_MS),
+    staleTime: HOLDERS_SCAN_MS,
+  });
+}
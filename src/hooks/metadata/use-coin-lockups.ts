@@ -0,0 +1,179 @@
+import { CoinchanAbi, CoinchanAddress } from "@/constants/Coinchan";
+import { ZAAMAbi, ZAAMAddress } from "@/constants/ZAAM";
+import { computePoolId } from "@/lib/amm";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { type Address, zeroAddress } from "viem";
+import { mainnet } from "viem/chains";
+import { usePublicClient } from "wagmi";
+import { useGlobalCoinsData } from "./use-global-coins-data";
+
+/** The pool LP tokens Coinchan locks for a coin's creator (`lockups(coinId)`); the creator's coins aren't locked */
+export type CoinLockup = {
+  owner: Address; // the creator, who can claim
+  creation: number; // unix seconds
+  unlock: number; // unix seconds
+  vesting: boolean; // linear from creation to unlock; otherwise everything unlocks at once
+  claimed: bigint;
+};
+
+/**
+ * What's left of a coin's lockup. Coinchan locks the creator's LP tokens, not coins, so amounts are in LP and
+ * in coins at the pool's current ratio; `claimed` is valued now too, not at the time it was claimed.
+ */
+export type LockupBalance = CoinLockup & {
+  lockedLp: bigint; // still held by Coinchan and not yet claimable
+  claimableLp: bigint; // vested or unlocked, waiting for the creator to claim
+  locked: bigint; // coins
+  claimable: bigint; // coins
+  claimedCoins: bigint;
+  claimedEth: bigint; // both sides of the claimed LP, in ETH
+};
+
+export type VestingStatus = "none" | "vesting" | "locked" | "unlocked";
+
+export const COIN_LOCKUPS_QUERY_KEY = ["coin-lockups"] as const;
+
+// Owner, schedule and vesting flag never change once a coin is made; only `claimed` moves
+const LOCKUPS_STALE_MS = 60 * 60 * 1000;
+// Claimable amounts grow every block while vesting
+const LOCKUP_BALANCES_STALE_MS = 60_000;
+
+type LockupResult = readonly [Address, number, number, boolean, bigint, bigint];
+type PoolResult = readonly [bigint, bigint, number, bigint, bigint, bigint, bigint];
+
+/**
+ * Where a coin's locked LP stands: still vesting linearly, locked until a cliff, fully unlocked, or launched
+ * without a lockup
+ */
+export function getVestingStatus(
+  lockup: CoinLockup | null | undefined,
+  nowSec = Math.floor(Date.now() / 1000),
+): VestingStatus {
+  if (!lockup) return "none";
+  if (nowSec >= lockup.unlock) return "unlocked";
+  return lockup.vesting ? "vesting" : "locked";
+}
+
+/**
+ * Lockups for every coin in the global list, by coinId as a decimal string; null for coins launched without one.
+ * New coins only cost a lookup for themselves; earlier results are reused.
+ * @param enabled Lookups are a multicall over the whole registry, so only run them where they're shown
+ */
+export function useCoinLockups(enabled = true) {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+  const { allCoins } = useGlobalCoinsData();
+  const coinIds = allCoins?.map((coin) => coin.coinId) ?? [];
+
+  return useQuery({
+    queryKey: [...COIN_LOCKUPS_QUERY_KEY, coinIds.length],
+    queryFn: async () => {
+      // Results from an earlier, shorter coin list
+      const known = new Map<string, CoinLockup | null>();
+      for (const [, data] of queryClient.getQueriesData<Map<string, CoinLockup | null>>({
+        queryKey: COIN_LOCKUPS_QUERY_KEY,
+      })) {
+        for (const [id, lockup] of data ?? []) known.set(id, lockup);
+      }
+
+      const missing = coinIds.filter((id) => !known.has(id.toString()));
+      if (missing.length > 0 && publicClient) {
+        const results = await publicClient.multicall({
+          contracts: missing.map((id) => ({
+            address: CoinchanAddress,
+            abi: CoinchanAbi,
+            functionName: "lockups",
+            args: [id],
+          })),
+        });
+        results.forEach((result, i) => {
+          // Failed calls are left out so they're retried with the next coin list
+          if (result.status !== "success") return;
+          const [owner, creation, unlock, vesting, , claimed] = result.result as unknown as LockupResult;
+          known.set(
+            missing[i].toString(),
+            owner === zeroAddress
+              ? null
+              : { owner, creation: Number(creation), unlock: Number(unlock), vesting, claimed },
+          );
+        });
+      }
+      return known;
+    },
+    enabled: enabled && !!publicClient && coinIds.length > 0,
+    staleTime: LOCKUPS_STALE_MS,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Current lockup balances for `coinIds`, by coinId as a decimal string; null for coins without a lockup, including
+ * ones whose creator has claimed everything after unlock. Coins whose reads failed are left out, so one bad coin
+ * doesn't empty the rest.
+ */
+export function useLockupBalances(coinIds: bigint[]) {
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+
+  return useQuery({
+    queryKey: ["lockup-balances", coinIds.map((id) => id.toString())],
+    queryFn: async () => {
+      const client = publicClient as NonNullable<typeof publicClient>;
+      const lockups = await client.multicall({
+        contracts: coinIds.map((id) => ({
+          address: CoinchanAddress,
+          abi: CoinchanAbi,
+          functionName: "lockups",
+          args: [id],
+        })),
+      });
+
+      const balances = new Map<string, LockupBalance | null>();
+      const locked: { coinId: bigint; lockup: CoinLockup; poolId: bigint }[] = [];
+      lockups.forEach((result, i) => {
+        if (result.status !== "success") return;
+        const [owner, creation, unlock, vesting, swapFee, claimed] = result.result as unknown as LockupResult;
+        if (owner === zeroAddress) {
+          balances.set(coinIds[i].toString(), null);
+          return;
+        }
+        locked.push({
+          coinId: coinIds[i],
+          lockup: { owner, creation: Number(creation), unlock: Number(unlock), vesting, claimed },
+          poolId: computePoolId(coinIds[i], swapFee),
+        });
+      });
+      if (locked.length === 0) return balances;
+
+      // Three reads per lockup: what's claimable, what Coinchan holds and the pool to value it against
+      const reads = await client.multicall({
+        contracts: locked.flatMap(({ coinId, poolId }) => [
+          { address: CoinchanAddress, abi: CoinchanAbi, functionName: "getVestableAmount", args: [coinId] },
+          { address: ZAAMAddress, abi: ZAAMAbi, functionName: "balanceOf", args: [CoinchanAddress, poolId] },
+          { address: ZAAMAddress, abi: ZAAMAbi, functionName: "pools", args: [poolId] },
+        ]),
+      });
+      locked.forEach(({ coinId, lockup }, i) => {
+        const [vestable, held, pool] = reads.slice(i * 3, i * 3 + 3);
+        if (vestable.status !== "success" || held.status !== "success" || pool.status !== "success") return;
+        const claimableLp = vestable.result as bigint;
+        const heldLp = held.result as bigint;
+        const [reserve0, reserve1, , , , , supply] = pool.result as unknown as PoolResult;
+        const toCoins = (lp: bigint) => (supply > 0n ? (lp * reserve1) / supply : 0n);
+        const lockedLp = heldLp > claimableLp ? heldLp - claimableLp : 0n;
+        balances.set(coinId.toString(), {
+          ...lockup,
+          lockedLp,
+          claimableLp,
+          locked: toCoins(lockedLp),
+          claimable: toCoins(claimableLp),
+          claimedCoins: toCoins(lockup.claimed),
+          claimedEth: supply > 0n ? (2n * lockup.claimed * reserve0) / supply : 0n,
+        });
+      });
+      return balances;
+    },
+    enabled: !!publicClient && coinIds.length > 0,
+    staleTime: LOCKUP_BALANCES_STALE_MS,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,22 @@
+import { useMemo } from "react";
+import { buildCoinSearchIndex, isCreatorQuery, searchCoins } from "./coin-search";
+import { useCoinLockups } from "./use-coin-lockups";
+import { useGlobalCoinsData } from "./use-global-coins-data";
+
+/**
+ * Search every loaded coin by name, symbol, description, coin/pool ID or creator address
+ * @param limit Keep only the best matches
+ * @returns Matches best first (null when the query is empty), and whether creator lookups are still loading
+ */
+export function useCoinSearch(query: string, limit?: number) {
+  const { allCoins } = useGlobalCoinsData();
+  // Creators come from each coin's lockup, a registry-wide multicall, so it's only fetched for address queries
+  const wantsCreators = isCreatorQuery(query);
+  const { data: lockups, isFetching: isLoadingCreators } = useCoinLockups(wantsCreators);
+
+  const index = useMemo(() => buildCoinSearchIndex(allCoins ?? [], lockups), [allCoins, lockups]);
+
+  const results = useMemo(() => (query.trim() ? searchCoins(index, query, { limit }) : null), [index, query, limit]);
+
+  return { results, isLoadingCreators: wantsCreators && isLoadingCreators };
+}
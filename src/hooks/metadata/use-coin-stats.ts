@@ -0,0 +1,91 @@
+import { putMarket } from "@/lib/coin-store";
+import { type QueryClient, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { mainnet } from "viem/chains";
+import { usePublicClient } from "wagmi";
+import { QUIET_POOL_STATS, refreshPoolStats } from "./pool-stats";
+import {
+  ALL_COINS_QUERY_KEY,
+  type CoinData,
+  type CoinStats,
+  toMarketRecord,
+  useGlobalCoinsData,
+} from "./use-global-coins-data";
+
+// A minute of new blocks is a handful of small getLogs calls
+const STATS_REFRESH_MS = 60_000;
+
+const statsEqual = (a: CoinStats | null, b: CoinStats) =>
+  a !== null &&
+  a.volume24h === b.volume24h &&
+  a.swaps24h === b.swaps24h &&
+  a.fees24h === b.fees24h &&
+  a.priceChange24h === b.priceChange24h;
+
+/**
+ * Write fresh stats onto every coin in the shared caches, and into the store so they show straight away on the next
+ * load. Coins whose pool saw no trades get zeroes.
+ */
+function applyCoinStats(queryClient: QueryClient, statsByPool: Map<bigint, CoinStats>) {
+  const apply = (coin: CoinData) => {
+    const stats = statsByPool.get(coin.poolId) ?? {
+      ...QUIET_POOL_STATS,
+      priceChange24h: coin.priceInEth === null ? null : 0,
+    };
+    return statsEqual(coin.stats, stats) ? coin : { ...coin, stats };
+  };
+
+  const now = Date.now();
+  const changed: { coin: CoinData; index: number }[] = [];
+  queryClient.setQueryData<CoinData[]>(ALL_COINS_QUERY_KEY, (coins) =>
+    coins?.map((coin, index) => {
+      const updated = apply(coin);
+      if (updated !== coin) changed.push({ coin: updated, index });
+      return updated;
+    }),
+  );
+  queryClient.setQueriesData<CoinData>({ queryKey: ["coin-data"] }, (coin) => coin && apply(coin));
+
+  putMarket(changed.map(({ coin, index }) => toMarketRecord(coin, index, now))).catch((error) =>
+    console.error("Failed to store coin stats:", error),
+  );
+}
+
+/**
+ * Keep every coin's 24h volume, swap count, fees and price change (`CoinData.stats`) current from the pools' logs.
+ * Mounted once, at the app root.
+ */
+export function useCoinStats() {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+  const { allCoins } = useGlobalCoinsData();
+  // Stats are written onto coins, so the first refresh waits for the list
+  const hasCoins = allCoins.length > 0;
+
+  useEffect(() => {
+    if (!publicClient || !hasCoins) return;
+    let cancelled = false;
+    // A slow refresh shouldn't overlap the next; the one after picks up the blocks
+    let busy = false;
+
+    const refresh = async () => {
+      if (busy) return;
+      busy = true;
+      try {
+        const stats = await refreshPoolStats(publicClient);
+        if (!cancelled) applyCoinStats(queryClient, stats);
+      } catch (error) {
+        console.error("Failed to refresh coin stats:", error);
+      } finally {
+        busy = false;
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, STATS_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [publicClient, queryClient, hasCoins]);
+}
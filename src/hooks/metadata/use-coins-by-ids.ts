@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { mainnet } from "viem/chains";
+import { usePublicClient } from "wagmi";
+import { fetchCoinsByIds } from "./coin-sync";
+import { useGlobalCoinsData } from "./use-global-coins-data";
+import { useWatchCoinReserves } from "./use-hot-coin-reserves";
+
+// Coins the global list doesn't have yet are re-read on the same cadence as hot reserves
+const MISSING_COINS_POLL_MS = 15 * 1000;
+
+/**
+ * Live data for a specific set of coins, e.g. a watchlist.
+ *
+ * Their market data is re-read with `getCoinsByIds` on the fast cadence while mounted (and follows Sync
+ * events like every other coin); coins the global list hasn't synced yet, e.g. on a cold start or right after
+ * a launch, are read directly, without metadata until the next sync picks them up.
+ * @returns The coins in the order given, skipping IDs that don't exist
+ */
+export function useCoinsByIds(coinIds: readonly bigint[]) {
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+  const { allCoins, isLoading: isGlobalLoading } = useGlobalCoinsData();
+  useWatchCoinReserves(coinIds);
+
+  const known = useMemo(() => new Map(allCoins.map((coin) => [coin.coinId, coin])), [allCoins]);
+  const missing = coinIds.filter((id) => !known.has(id));
+  const missingKey = missing.map((id) => id.toString()).join(",");
+
+  const { data: direct, isLoading: isDirectLoading } = useQuery({
+    queryKey: ["coins-by-ids", missingKey],
+    queryFn: async () => {
+      const coins = await fetchCoinsByIds(
+        publicClient as NonNullable<typeof publicClient>,
+        missingKey.split(",").map((id) => BigInt(id)),
+      );
+      // IDs that were never minted come back without a tokenURI
+      return coins.filter((coin) => coin.tokenURI !== "");
+    },
+    enabled: !!publicClient && missingKey !== "",
+    refetchInterval: MISSING_COINS_POLL_MS,
+    staleTime: MISSING_COINS_POLL_MS,
+  });
+
+  const coins = useMemo(() => {
+    const byId = new Map(direct?.map((coin) => [coin.coinId, coin]));
+    return coinIds.flatMap((id) => {
+      const coin = known.get(id) ?? byId.get(id);
+      return coin ? [coin] : [];
+    });
+  }, [coinIds, known, direct]);
+
+  return { coins, isLoading: isGlobalLoading || (missingKey !== "" && isDirectLoading) };
+}
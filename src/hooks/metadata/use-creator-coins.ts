@@ -0,0 +1,122 @@
+import { CoinchanAbi, CoinchanAddress } from "@/constants/Coinchan";
+import { CoinsAbi, CoinsAddress } from "@/constants/Coins";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { type Address, isAddressEqual, zeroAddress } from "viem";
+import { mainnet } from "viem/chains";
+import { usePublicClient, useReadContract } from "wagmi";
+import { type CreatorLaunchesClient, loadCreatorLaunches } from "./creator-launches";
+import { useCoinLockups } from "./use-coin-lockups";
+import { useGlobalCoinsData } from "./use-global-coins-data";
+
+// Ownership can be handed over, so it's re-read now and then rather than kept for good like lockups
+const COIN_OWNERS_STALE_MS = 10 * 60 * 1000;
+// Loads scanning further back follow each other quickly; once whole, only new blocks are read
+const LAUNCHES_SCAN_MS = 1_000;
+const LAUNCHES_POLL_MS = 60_000;
+
+/**
+ * `Coins.ownerOf` for every coin in the global list, by coinId as a decimal string; null for coins nobody owns,
+ * which includes every locked launch
+ */
+export function useCoinOwners(enabled = true) {
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+  const { allCoins } = useGlobalCoinsData();
+  const coinIds = allCoins.map((coin) => coin.coinId);
+
+  return useQuery({
+    queryKey: ["coin-owners", coinIds.length],
+    queryFn: async () => {
+      const client = publicClient as NonNullable<typeof publicClient>;
+      const results = await client.multicall({
+        contracts: coinIds.map((id) => ({
+          address: CoinsAddress,
+          abi: CoinsAbi,
+          functionName: "ownerOf",
+          args: [id],
+        })),
+      });
+      const owners = new Map<string, Address | null>();
+      results.forEach((result, i) => {
+        if (result.status !== "success") return;
+        const owner = result.result as Address;
+        owners.set(coinIds[i].toString(), owner === zeroAddress ? null : owner);
+      });
+      return owners;
+    },
+    enabled: enabled && !!publicClient && coinIds.length > 0,
+    staleTime: COIN_OWNERS_STALE_MS,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Coins `creator` launched with a lockup, from their `Locked` logs, filled in as the scan walks back
+ * @returns The query; `data.complete` is false while older blocks are still being read
+ */
+export function useCreatorLaunches(creator: Address) {
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+
+  return useQuery({
+    queryKey: ["creator-launches", creator.toLowerCase()],
+    queryFn: () => loadCreatorLaunches(publicClient as CreatorLaunchesClient, creator),
+    enabled: !!publicClient,
+    refetchInterval: (query) => (query.state.data?.complete === false ? LAUNCHES_SCAN_MS : LAUNCHES_POLL_MS),
+    staleTime: LAUNCHES_SCAN_MS,
+  });
+}
+
+/**
+ * Coins launched by `creator`: those with a `Locked` log naming them, which outlasts the lockup itself, those whose
+ * lockup is theirs, and those they own on Coins
+ * @returns The coins, and `isScanning` while older `Locked` logs are still being read
+ */
+export function useCreatorCoins(creator: Address) {
+  const { allCoins, isLoading: isCoinsLoading } = useGlobalCoinsData();
+  const { data: lockups, isLoading: isLockupsLoading } = useCoinLockups();
+  const { data: owners, isLoading: isOwnersLoading } = useCoinOwners();
+  const { data: launches } = useCreatorLaunches(creator);
+
+  const coins = useMemo(
+    () =>
+      allCoins.filter((coin) => {
+        const key = coin.coinId.toString();
+        const lockupOwner = lockups?.get(key)?.owner;
+        const owner = owners?.get(key);
+        return (
+          !!launches?.coinIds.has(key) ||
+          (!!lockupOwner && isAddressEqual(lockupOwner, creator)) ||
+          (!!owner && isAddressEqual(owner, creator))
+        );
+      }),
+    [allCoins, lockups, owners, launches, creator],
+  );
+
+  return {
+    coins,
+    isLoading: isCoinsLoading || isLockupsLoading || isOwnersLoading,
+    isScanning: !launches?.complete,
+  };
+}
+
+/** Who launched a coin: its lockup's owner, or its owner on Coins for launches without a lockup */
+export function useCoinCreator(coinId: bigint): Address | undefined {
+  const { data: lockup } = useReadContract({
+    address: CoinchanAddress,
+    abi: CoinchanAbi,
+    functionName: "lockups",
+    args: [coinId],
+    chainId: mainnet.id,
+    query: { staleTime: COIN_OWNERS_STALE_MS },
+  });
+  const lockupOwner = lockup && lockup[0] !== zeroAddress ? lockup[0] : undefined;
+  const { data: owner } = useReadContract({
+    address: CoinsAddress,
+    abi: CoinsAbi,
+    functionName: "ownerOf",
+    args: [coinId],
+    chainId: mainnet.id,
+    query: { enabled: lockup !== undefined && !lockupOwner, staleTime: COIN_OWNERS_STALE_MS },
+  });
+  return lockupOwner ?? (owner && owner !== zeroAddress ? owner : undefined);
+}
@@ -1,14 +1,24 @@
 import { useCallback } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { createPublicClient, http, formatEther, formatUnits } from 'viem';
-import { mainnet } from 'viem/chains';
-import { CoinsMetadataHelperAbi, CoinsMetadataHelperAddress } from '@/constants/CoinsMetadataHelper';
-
-// Create a public client instance for direct contract calls
-const publicClient = createPublicClient({
-  chain: mainnet,
-  transport: http('https://eth-mainnet.g.alchemy.com/v2/demo'),
-});
+import { type QueryClient, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getMainnetClient } from '@/wagmi';
+import { fetchIpfs, parseIpfsUri, resolveIpfsUrl } from '@/lib/ipfs';
+import {
+  type CoinMarketRecord,
+  type CoinMetadataRecord,
+  type CoinStats,
+  getAllMarket,
+  getAllMetadata,
+  getSyncState,
+  isMetadataFresh,
+  pruneExpired,
+  putMarket,
+  putMetadata,
+  putSyncState,
+} from '@/lib/coin-store';
+import { syncCoinRegistry, toCoinData } from './coin-sync';
+
+// Shared mainnet client: configured RPC endpoints with fallback, batching and multicall
+const publicClient = getMainnetClient();
 
 // Define the CoinData type based on our contract
 export type RawCoinData = {
@@ -30,259 +40,215 @@ export type CoinData = RawCoinData & {
   metadata: Record<string, any> | null;
   // Additional derived fields
   priceInEth: number | null;
+  // 24h volume, fees and price change, kept current by useCoinStats; null until first computed
+  stats: CoinStats | null;
 };
 
-// Cache key for localStorage
-const CACHE_KEY = 'coinchan-metadata-cache';
+export type { CoinStats };
+
+// How often to look for newly launched coins
+const NEW_COINS_POLL_MS = 60 * 1000;
+// How often every coin's reserves are re-read; visible and held coins refresh faster via useHotCoinReserves
+const FULL_REFRESH_MS = 15 * 60 * 1000;
+// Metadata lookups in flight at once (each races several IPFS gateways)
+const ENRICH_CONCURRENCY = 8;
+// Settled lookups are applied to the query cache in batches to avoid a re-render per coin
+const ENRICH_FLUSH_MS = 500;
+
+export const ALL_COINS_QUERY_KEY = ['all-coins-data'] as const;
+
+// Copy a stored metadata lookup onto a coin
+function applyMetadata(coin: CoinData, record: CoinMetadataRecord): CoinData {
+  return {
+    ...coin,
+    metadata: record.metadata,
+    name: record.name,
+    symbol: record.symbol,
+    description: record.description,
+    imageUrl: record.imageUrl,
+  };
+}
+
+export function toMarketRecord(coin: CoinData, index: number, updatedAt: number): CoinMarketRecord {
+  const { tokenURI, reserve0, reserve1, poolId, liquidity, stats } = coin;
+  return { coinId: coin.coinId.toString(), index, tokenURI, reserve0, reserve1, poolId, liquidity, stats, updatedAt };
+}
+
+// Rebuild the registry-ordered coin list from the store. Only the contiguous run from index 0 is
+// returned, so the sync can treat everything after it as new
+function coinsFromStore(
+  market: Map<string, CoinMarketRecord>,
+  metadata: Map<string, CoinMetadataRecord>,
+): CoinData[] {
+  const records = Array.from(market.values()).sort((a, b) => a.index - b.index);
+  const contiguous = records.findIndex((record, position) => record.index !== position);
+  return records.slice(0, contiguous === -1 ? records.length : contiguous).map((record) => {
+    const stored = metadata.get(record.coinId);
+    const coin = {
+      ...toCoinData({ ...record, coinId: BigInt(record.coinId), tokenURI: record.tokenURI ?? stored?.tokenURI ?? '' }),
+      stats: record.stats ?? null,
+    };
+    return stored ? applyMetadata(coin, stored) : coin;
+  });
+}
+
+// Coins whose metadata is being looked up, so overlapping syncs don't fetch the same tokenURI twice
+const enriching = new Set<string>();
+// Queued coins about to come on screen; their lookups jump the queue
+const prioritized = new Set<string>();
 
 /**
- * A hook that provides access to global coin data
- * Uses the CoinsMetadataHelper contract to fetch data in a single call
+ * Look these coins up ahead of the rest of a running metadata enrichment, e.g. the explorer's next batch.
+ * Coins that aren't waiting on a lookup are ignored.
  */
-export function useGlobalCoinsData() {
-  // We no longer need to track enriched coins since we handle it directly in the queryFn
+export function prioritizeCoinMetadata(coinIds: readonly bigint[]) {
+  for (const id of coinIds) {
+    if (enriching.has(id.toString())) prioritized.add(id.toString());
+  }
+}
 
-  // Function to load data from cache
-  const loadFromCache = useCallback(() => {
-    try {
-      const cached = localStorage.getItem(CACHE_KEY);
-      if (cached) {
-        // Convert the serialized data back to the correct format
-        return JSON.parse(cached, (_key, value) => {
-          // Convert serialized BigInts back to actual BigInts(ensure value is bigInt and not token name)
-          // FIX: Improved deserialization of BigInt values from cache.
-          // Previously, any string ending in "n" (e.g., "Ross Coin") would be incorrectly parsed as a BigInt,
-          // causing runtime errors. Replaced loose check with strict regex /^\d+n$/ to ensure only actual
-          // BigInt-like strings (e.g., "123n") are converted.
-          // This fixes cases where token names or symbols (like "Token") were mistakenly treated as BigInts.
-          if (typeof value === 'string' && /^\d+n$/.test(value)) {
-            return BigInt(value.slice(0, -1));
-          }
-
-          return value;
-        }) as CoinData[];
+// Next coin to look up: a prioritized one if any is queued, otherwise the next in order
+function takeNext(queue: CoinData[]): CoinData | undefined {
+  if (prioritized.size > 0) {
+    const index = queue.findIndex(coin => prioritized.has(coin.coinId.toString()));
+    if (index !== -1) return queue.splice(index, 1)[0];
+  }
+  return queue.shift();
+}
+
+/**
+ * Resolve metadata for coins the store couldn't answer for, a few at a time, storing each lookup and
+ * patching it into the query cache as it settles
+ */
+async function enrichInBackground(queryClient: QueryClient, coins: CoinData[]) {
+  const queue = coins.filter(coin => !enriching.has(coin.coinId.toString()));
+  if (queue.length === 0) return;
+  for (const coin of queue) enriching.add(coin.coinId.toString());
+
+  let pending: CoinMetadataRecord[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  const flush = () => {
+    flushTimer = null;
+    if (pending.length === 0) return;
+    const records = new Map(pending.map(record => [record.coinId, record]));
+    pending = [];
+    queryClient.setQueryData<CoinData[]>(ALL_COINS_QUERY_KEY, (current) =>
+      current?.map(coin => {
+        const record = records.get(coin.coinId.toString());
+        // The tokenURI may have changed while the lookup was in flight
+        return record && record.tokenURI === coin.tokenURI ? applyMetadata(coin, record) : coin;
+      }),
+    );
+    putMetadata(...records.values()).catch(err => console.error('Failed to store metadata:', err));
+  };
+
+  const worker = async () => {
+    for (let coin = takeNext(queue); coin; coin = takeNext(queue)) {
+      let metadata: Record<string, any> | null = null;
+      try {
+        metadata = await processTokenURI(coin.tokenURI);
+      } catch (err) {
+        console.error(`Error processing token URI for coin ${coin.coinId.toString()}:`, err);
       }
-    } catch (error) {
-      console.error('Failed to load from cache:', error);
-    }
-    return null;
-  }, []);
 
-  // Function to save data to cache
-  const saveToCache = useCallback((data: CoinData[]) => {
-    try {
-      localStorage.setItem(
-        CACHE_KEY,
-        JSON.stringify(data, (_key, value) => {
-          // Convert BigInts to strings for serialization
-          if (typeof value === 'bigint') {
-            return value.toString() + 'n';
-          }
-          return value;
-        })
-      );
-    } catch (error) {
-      console.error('Failed to save to cache:', error);
+      const imageSource = metadata?.image || metadata?.image_url || metadata?.imageUrl;
+      pending.push({
+        coinId: coin.coinId.toString(),
+        tokenURI: coin.tokenURI,
+        metadata,
+        name: metadata?.name || null,
+        symbol: metadata?.symbol || null,
+        description: metadata?.description || null,
+        imageUrl: imageSource ? resolveIpfsUrl(imageSource) : null,
+        // Failed lookups are stored too so they're retried on the store's schedule, not every sync
+        fetchedAt: Date.now(),
+      });
+      enriching.delete(coin.coinId.toString());
+      prioritized.delete(coin.coinId.toString());
+      flushTimer ??= setTimeout(flush, ENRICH_FLUSH_MS);
     }
-  }, []);
+  };
 
-  // Fetch all coins data from the contract
+  await Promise.all(Array.from({ length: ENRICH_CONCURRENCY }, worker));
+  if (flushTimer) clearTimeout(flushTimer);
+  flush();
+}
+
+/**
+ * A hook that provides access to global coin data, in registry (launch) order.
+ *
+ * Coins are synced incrementally from CoinsMetadataHelper: each poll only reads coins launched since the
+ * last one, and every coin's market data is re-read in bounded chunks on a slower cadence. Metadata and
+ * market data are cached per coin in the IndexedDB coin store, and metadata lookups run in the background.
+ */
+export function useGlobalCoinsData() {
+  const queryClient = useQueryClient();
+
+  // Sync coins data from the contract
   const {
     data: coinsData,
     isLoading,
     error,
     refetch
   } = useQuery({
-    queryKey: ['all-coins-data'],
+    queryKey: ALL_COINS_QUERY_KEY,
     queryFn: async () => {
-      console.log('Fetching all coins data from CoinsMetadataHelper contract...');
+      const [storedMetadata, storedMarket, syncState] = await Promise.all([
+        getAllMetadata(),
+        getAllMarket(),
+        getSyncState(),
+      ]);
+
+      // Pick up from this session's list, or from the store after a reload
+      const known = queryClient.getQueryData<CoinData[]>(ALL_COINS_QUERY_KEY) ?? coinsFromStore(storedMarket, storedMetadata);
+      const now = Date.now();
+      // Records stored before tokenURIs were kept need one full read to pick theirs up
+      const missingTokenURIs = Array.from(storedMarket.values()).some(record => record.tokenURI === undefined);
+      const refreshExisting = !syncState || now - syncState.lastFullRefresh > FULL_REFRESH_MS || missingTokenURIs;
 
       try {
-        // Try to use the cached data first while we fetch fresh data
-        const cachedData = loadFromCache();
-        if (cachedData) {
-          console.log('Using cached data while fetching fresh data...', cachedData.length, 'coins in cache');
-        }
-
-        // CRITICAL: Use the direct contract call to fetch all coins data in one go
-        console.log(`Making direct contract call to CoinsMetadataHelper at ${CoinsMetadataHelperAddress}`);
-
-        const rawCoinsData = await publicClient.readContract({
-          address: CoinsMetadataHelperAddress,
-          abi: CoinsMetadataHelperAbi,
-          functionName: 'getAllCoinsData',
-        });
-
-        // Log the raw response to help debug
-        console.log(`Raw response from contract:`, rawCoinsData);
-
-        // Process the raw data into our CoinData format
-        const processedData: CoinData[] = [];
-
-        if (Array.isArray(rawCoinsData)) {
-          console.log(`Successfully received ${rawCoinsData.length} coins from contract`);
-
-          // Map the raw data to our CoinData format with immediate metadata extraction
-          for (const rawCoin of rawCoinsData) {
-            console.log('Processing raw coin:', rawCoin);
-
-            // Enhanced handling - properly check the structure of the response
-            let coinId, tokenURI, reserve0, reserve1, poolId, liquidity;
-
-            // Handle both tuple object and array response formats
-            if (Array.isArray(rawCoin)) {
-              // If it's an array (some contracts return tuples as arrays)
-              [coinId, tokenURI, reserve0, reserve1, poolId, liquidity] = rawCoin;
-            } else {
-              // If it's an object with properties (standard viem response)
-              coinId = rawCoin.coinId;
-              tokenURI = rawCoin.tokenURI;
-              reserve0 = rawCoin.reserve0;
-              reserve1 = rawCoin.reserve1;
-              poolId = rawCoin.poolId;
-              liquidity = rawCoin.liquidity;
-            }
-
-            // Convert all values to ensure correct types
-            const coinData: CoinData = {
-              coinId: BigInt(coinId),
-              tokenURI: tokenURI?.toString() || '',
-              reserve0: BigInt(reserve0 || 0),
-              reserve1: BigInt(reserve1 || 0),
-              poolId: BigInt(poolId || 0),
-              liquidity: BigInt(liquidity || 0),
-              name: null,
-              symbol: null,
-              description: null,
-              imageUrl: null,
-              metadata: null,
-              priceInEth: null,
-            };
-
-            // Calculate price in ETH
-            if (coinData.reserve0 > 0n && coinData.reserve1 > 0n) {
-              // Calculate price based on reserves
-              const r0 = Number(formatEther(coinData.reserve0)); // ETH reserves in decimal
-              const r1 = Number(formatUnits(coinData.reserve1, 18)); // Token reserves in decimal
-              coinData.priceInEth = r0 / r1;
-            }
-
-            processedData.push(coinData);
-          }
-        } else {
-          console.error('Contract returned unexpected data format:', rawCoinsData);
-          throw new Error('Invalid data format from contract');
-        }
-
-        // Merge with cached metadata if available for faster rendering
-        let mergedData: CoinData[];
-        if (cachedData) {
-          // Create a map of coin IDs to cached metadata for quick lookup
-          const cachedMap = new Map(
-            cachedData.map(coin => [coin.coinId.toString(), coin])
+        const { coins: synced, added } = await syncCoinRegistry(publicClient, known, { refreshExisting });
+
+        // Only coins whose market data was actually read get their record rewritten
+        const firstChanged = refreshExisting ? 0 : synced.length - added;
+        putMarket(synced.slice(firstChanged).map((coin, i) => toMarketRecord(coin, firstChanged + i, now))).catch(err =>
+          console.error('Failed to store market data:', err)
+        );
+        if (refreshExisting) {
+          putSyncState({ key: 'coins', lastFullRefresh: now }).catch(err =>
+            console.error('Failed to store sync state:', err)
           );
-
-          // For each fresh coin data, use cached metadata if available
-          mergedData = processedData.map(freshCoin => {
-            const cachedCoin = cachedMap.get(freshCoin.coinId.toString());
-            if (cachedCoin) {
-              // Merge fresh blockchain data with cached metadata
-              return {
-                ...freshCoin,
-                name: cachedCoin.name || null,
-                symbol: cachedCoin.symbol || null,
-                description: cachedCoin.description || null,
-                imageUrl: cachedCoin.imageUrl || null,
-                metadata: cachedCoin.metadata || null,
-              };
-            }
-            return freshCoin;
-          });
-        } else {
-          mergedData = processedData;
         }
 
-        // Save the merged data to cache
-        saveToCache(mergedData);
-
-        // Debug log the merged data
-        console.log(`Prepared ${mergedData.length} coins with initial data`);
-
-        // Start processing metadata immediately but use Promise.all to wait for all metadata
-        // This ensures the data is processed before we return it to React Query
-        // and helps React render the component with the updated metadata
-        const metadataPromises = mergedData.map(async (coin) => {
-          if (!coin.metadata && coin.tokenURI) {
-            console.log(`Processing metadata for coin ${coin.coinId.toString()} with URI: ${coin.tokenURI}`);
-
-            try {
-              const metadata = await processTokenURI(coin.tokenURI);
-
-              if (metadata) {
-                console.log(`Successfully processed metadata for coin ${coin.coinId.toString()}:`, metadata);
-
-                // Create a new object to ensure React detects the change
-                const updatedCoin = {
-                  ...coin,
-                  metadata: metadata,
-                  name: metadata.name || null,
-                  symbol: metadata.symbol || null,
-                  description: metadata.description || null,
-                };
-
-                // Process image URL
-                if (metadata.image) {
-                  updatedCoin.imageUrl = formatImageURL(metadata.image);
-                  console.log(`Set image URL for coin ${coin.coinId.toString()}: ${updatedCoin.imageUrl}`);
-                } else if (metadata.image_url) {
-                  updatedCoin.imageUrl = formatImageURL(metadata.image_url);
-                  console.log(`Set image_url for coin ${coin.coinId.toString()}: ${updatedCoin.imageUrl}`);
-                } else if (metadata.imageUrl) {
-                  updatedCoin.imageUrl = formatImageURL(metadata.imageUrl);
-                  console.log(`Set imageUrl for coin ${coin.coinId.toString()}: ${updatedCoin.imageUrl}`);
-                }
-
-                // Replace the original coin in the array with the updated one
-                const index = mergedData.findIndex(c => c.coinId === coin.coinId);
-                if (index !== -1) {
-                  mergedData[index] = updatedCoin;
-                }
-
-                // Return the updated coin
-                return updatedCoin;
-              }
-            } catch (err) {
-              console.error(`Error processing token URI for coin ${coin.coinId.toString()}:`, err);
-            }
-          }
-
-          // If no metadata was processed, return the original coin
+        // Reuse stored metadata where it's still valid for the coin's tokenURI; look up the rest
+        const stale: CoinData[] = [];
+        const merged = synced.map(coin => {
+          if (coin.metadata) return coin;
+          const stored = storedMetadata.get(coin.coinId.toString());
+          if (isMetadataFresh(stored, coin.tokenURI, now)) return applyMetadata(coin, stored as CoinMetadataRecord);
+          if (coin.tokenURI) stale.push(coin);
           return coin;
         });
+        enrichInBackground(queryClient, stale).catch(err => console.error('Metadata enrichment failed:', err));
 
-        // Wait for all metadata to be processed
-        await Promise.all(metadataPromises);
-
-        // Update the cache with the processed data
-        console.log(`Saving ${mergedData.length} coins to cache with processed metadata`);
-        saveToCache(mergedData);
+        // Housekeeping; nothing waits on it
+        if (refreshExisting) pruneExpired().catch(err => console.error('Failed to prune coin store:', err));
 
-        return mergedData;
+        return merged;
       } catch (err) {
-        console.error('Error fetching all coins data:', err);
+        console.error('Error syncing coins data:', err);
 
-        // If we have cached data, use it as a fallback
-        const cachedData = loadFromCache();
-        if (cachedData && cachedData.length > 0) {
-          console.log('Using cached data as fallback due to fetch error');
-          return cachedData;
+        // If we have earlier data, keep showing it
+        if (known.length > 0) {
+          return known;
         }
 
-        // Re-throw the error if we don't have cached data
+        // Re-throw the error if we don't have stored data
         throw err;
       }
     },
-    staleTime: 5 * 60 * 1000, // 5 minutes - stale after 5 minutes
+    staleTime: NEW_COINS_POLL_MS,
+    refetchInterval: NEW_COINS_POLL_MS,
     gcTime: 30 * 60 * 1000,   // 30 minutes - keep in cache for 30 minutes
   });
 
@@ -313,75 +279,15 @@ async function processTokenURI(tokenURI: string): Promise<Record<string, any> |
   console.log(`Starting metadata fetch for URI: ${tokenURI}`);
 
   try {
-    // Handle IPFS URIs with multiple gateway fallbacks 
-    let uri = tokenURI;
-
-    // First attempt with primary gateway
-    if (uri.startsWith('ipfs://')) {
-      uri = `${IPFS_GATEWAYS[0]}${uri.slice(7)}`;
-      console.log(`Converted IPFS URI to HTTP: ${uri}`);
-    }
-
-    // Skip if it's not an HTTP or HTTPS URI
-    if (!uri.startsWith('http')) {
-      console.log(`Skipping non-HTTP URI: ${uri}`);
+    // Skip if it's neither IPFS content nor an HTTP or HTTPS URI
+    if (!parseIpfsUri(tokenURI) && !tokenURI.startsWith('http')) {
+      console.log(`Skipping non-HTTP URI: ${tokenURI}`);
       return null;
     }
 
-    console.log(`Fetching metadata from ${uri}`);
-
-    // Try to fetch with timeout to avoid hanging requests
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-
-    // Fetch the metadata
-    let response;
-    try {
-      response = await fetch(uri, { signal: controller.signal });
-      console.log(`Initial fetch response status: ${response.status} for ${uri}`);
-    } catch (fetchError) {
-      console.warn(`Primary fetch failed for ${uri}:`, fetchError);
-
-      // If the URI is IPFS and the primary gateway failed, try alternative gateways
-      if (tokenURI.startsWith('ipfs://')) {
-        const ipfsHash = tokenURI.slice(7);
-
-        // Try alternative gateways
-        for (let i = 1; i < IPFS_GATEWAYS.length; i++) {
-          const altUri = `${IPFS_GATEWAYS[i]}${ipfsHash}`;
-          console.log(`Trying alternative gateway: ${altUri}`);
-
-          try {
-            clearTimeout(timeoutId);
-            const altController = new AbortController();
-            const altTimeoutId = setTimeout(() => altController.abort(), 5000);
-
-            response = await fetch(altUri, { signal: altController.signal });
-            clearTimeout(altTimeoutId);
-
-            console.log(`Alternative gateway ${i} response status: ${response.status}`);
-
-            if (response.ok) {
-              console.log(`Successfully fetched from alternative gateway: ${altUri}`);
-              break;
-            }
-          } catch (altError) {
-            console.warn(`Alternative gateway ${IPFS_GATEWAYS[i]} failed:`, altError);
-          }
-        }
-      }
-
-      // If still no valid response after trying alternatives
-      if (!response || !response.ok) {
-        throw new Error('All gateway attempts failed');
-      }
-    } finally {
-      clearTimeout(timeoutId);
-    }
-
-    if (!response || !response.ok) {
-      throw new Error(`HTTP error! status: ${response?.status || 'unknown'}`);
-    }
+    // Races the IPFS gateways in parallel; plain HTTP URIs are fetched directly
+    const response = await fetchIpfs(tokenURI, { timeoutMs: 5000 });
+    console.log(`Fetched metadata for ${tokenURI} with status ${response.status}`);
 
     // Parse the JSON response
     try {
@@ -473,88 +379,3 @@ function normalizeMetadata(metadata: Record<string, any>): Record<string, any> {
 
   return normalized;
 }
-
-// Define IPFS gateways at module level for consistency
-const IPFS_GATEWAYS = [
-  'https://content.wrappr.wtf/ipfs/',     // Primary gateway
-  'https://cloudflare-ipfs.com/ipfs/',     // Cloudflare gateway is very reliable
-  'https://gateway.pinata.cloud/ipfs/',    // Pinata gateway (often fast)
-  'https://ipfs.io/ipfs/',                 // Standard gateway
-  'https://dweb.link/ipfs/',               // Protocol Labs gateway
-  'https://ipfs.fleek.co/ipfs/'           // Fleek gateway
-];
-
-// Format image URL (handle IPFS URLs)
-export function formatImageURL(imageURL: string): string {
-  if (!imageURL) {
-    return '';
-  }
-
-  // Extract IPFS hash if present
-  let ipfsHash = '';
-
-  // Handle IPFS URLs
-  if (imageURL.startsWith('ipfs://')) {
-    ipfsHash = imageURL.slice(7);
-  }
-  // Handle direct IPFS gateway references
-  else if (imageURL.includes('/ipfs/')) {
-    const parts = imageURL.split('/ipfs/');
-    if (parts.length >= 2) {
-      ipfsHash = parts[1];
-    }
-  }
-  // Handle ipfs.io URLs which sometimes have rate limits
-  else if (imageURL.includes('ipfs.io')) {
-    const ipfsMatch = imageURL.match(/\/ipfs\/([a-zA-Z0-9]+)/);
-    if (ipfsMatch && ipfsMatch[1]) {
-      ipfsHash = ipfsMatch[1];
-    }
-  }
-
-  // If we found an IPFS hash, use the primary gateway
-  if (ipfsHash) {
-    return `${IPFS_GATEWAYS[0]}${ipfsHash}`;
-  }
-
-  // Return the original URL if no IPFS hash was found
-  return imageURL;
-}
-
-// Get alternative IPFS URLs for fallback handling
-export function getAlternativeImageUrls(imageURL: string): string[] {
-  if (!imageURL) {
-    return [];
-  }
-
-  // Extract IPFS hash if present
-  let ipfsHash = '';
-
-  // Handle IPFS URLs
-  if (imageURL.startsWith('ipfs://')) {
-    ipfsHash = imageURL.slice(7);
-  }
-  // Handle direct IPFS gateway references
-  else if (imageURL.includes('/ipfs/')) {
-    const parts = imageURL.split('/ipfs/');
-    if (parts.length >= 2) {
-      ipfsHash = parts[1];
-    }
-  }
-  // Handle ipfs.io URLs which sometimes have rate limits
-  else if (imageURL.includes('ipfs.io')) {
-    const ipfsMatch = imageURL.match(/\/ipfs\/([a-zA-Z0-9]+)/);
-    if (ipfsMatch && ipfsMatch[1]) {
-      ipfsHash = ipfsMatch[1];
-    }
-  }
-
-  // If we found an IPFS hash, generate URLs for all gateways
-  if (ipfsHash) {
-    // Skip the first gateway as it's used as the primary one in formatImageURL
-    return IPFS_GATEWAYS.slice(1).map(gateway => `${gateway}${ipfsHash}`);
-  }
-
-  // Return an empty array if no IPFS hash was found
-  return [];
-}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { putMarket } from "@/lib/coin-store";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useSyncExternalStore } from "react";
+import { mainnet } from "viem/chains";
+import { usePublicClient } from "wagmi";
+import { fetchCoinsByIds, mergeMarket } from "./coin-sync";
+import { ALL_COINS_QUERY_KEY, type CoinData, toMarketRecord } from "./use-global-coins-data";
+
+// Visible and held coins are re-read this often; the rest wait for the global sync's full refresh
+const HOT_RESERVES_POLL_MS = 15 * 1000;
+
+// coinId → number of mounted watchers
+const watchers = new Map<string, number>();
+const listeners = new Set<() => void>();
+// Sorted, comma-joined IDs; a string so useSyncExternalStore sees a stable snapshot
+let snapshot = "";
+
+function emit() {
+  snapshot = Array.from(watchers.keys()).sort().join(",");
+  for (const listener of listeners) listener();
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const getSnapshot = () => snapshot;
+
+/**
+ * Keep these coins' reserves fresh while the calling component is mounted, e.g. the cards on screen or
+ * the coins the connected wallet holds
+ */
+export function useWatchCoinReserves(coinIds: readonly bigint[]) {
+  const key = coinIds.map((id) => id.toString()).join(",");
+
+  useEffect(() => {
+    if (!key) return;
+    const ids = key.split(",");
+    for (const id of ids) watchers.set(id, (watchers.get(id) ?? 0) + 1);
+    emit();
+    return () => {
+      for (const id of ids) {
+        const count = (watchers.get(id) ?? 1) - 1;
+        if (count > 0) watchers.set(id, count);
+        else watchers.delete(id);
+      }
+      emit();
+    };
+  }, [key]);
+}
+
+/**
+ * Poll reserves for every watched coin with `getCoinsByIds` and fold them into the shared coin list.
+ * Mounted once, at the app root.
+ */
+export function useHotCoinReserves() {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+  const watched = useSyncExternalStore(subscribe, getSnapshot);
+
+  useQuery({
+    queryKey: ["hot-coin-reserves", watched],
+    queryFn: async () => {
+      if (!publicClient) return 0;
+      const fresh = await fetchCoinsByIds(
+        publicClient,
+        watched.split(",").map((id) => BigInt(id)),
+      );
+      const byId = new Map(fresh.map((coin) => [coin.coinId, coin]));
+      const now = Date.now();
+      const changed: { coin: CoinData; index: number }[] = [];
+
+      queryClient.setQueryData<CoinData[]>(ALL_COINS_QUERY_KEY, (coins) =>
+        coins?.map((coin, index) => {
+          const update = byId.get(coin.coinId);
+          if (!update) return coin;
+          const merged = mergeMarket(coin, update);
+          if (merged !== coin) changed.push({ coin: merged, index });
+          return merged;
+        }),
+      );
+
+      putMarket(changed.map(({ coin, index }) => toMarketRecord(coin, index, now))).catch((error) =>
+        console.error("Failed to store market data:", error),
+      );
+      return fresh.length;
+    },
+    enabled: !!publicClient && watched !== "",
+    refetchInterval: HOT_RESERVES_POLL_MS,
+    staleTime: HOT_RESERVES_POLL_MS,
+  });
+}
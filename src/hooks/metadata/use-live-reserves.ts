@@ -0,0 +1,190 @@
+import { ZAAMAbi, ZAAMAddress } from "@/constants/ZAAM";
+import { type Reserves, computePoolId } from "@/lib/amm";
+import { putMarket } from "@/lib/coin-store";
+import { type QueryClient, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useState } from "react";
+import type { PublicClient } from "viem";
+import { mainnet } from "viem/chains";
+import { usePublicClient } from "wagmi";
+import { withReserves } from "./coin-sync";
+import { ALL_COINS_QUERY_KEY, type CoinData, toMarketRecord } from "./use-global-coins-data";
+
+/**
+ * Live pool reserves.
+ *
+ * Every ZAMM swap, mint and burn ends in a `Sync(poolId, reserve0, reserve1)` log carrying the pool's new
+ * reserves, so following `Sync` alone is enough to keep every pool current. Each new block, the logs since
+ * the last one are fetched and written into the shared caches (per-pool reserves, the global coin list and
+ * single-coin lookups); quotes and cards re-render from there.
+ */
+
+export const POOL_RESERVES_QUERY_KEY = ["pool-reserves"] as const;
+
+// How often to check for a new block; mainnet produces one every ~12s
+const BLOCK_POLL_MS = 4_000;
+// Past this many blocks behind (e.g. a backgrounded tab), re-read reserves instead of replaying logs
+const MAX_LOG_BLOCK_RANGE = 500n;
+// Backstop for pools whose events were missed
+const POOL_RESERVES_STALE_MS = 60_000;
+
+type PoolsClient = Pick<PublicClient, "readContract">;
+
+async function fetchPoolReserves(client: PoolsClient, poolId: bigint): Promise<Reserves> {
+  const [reserve0, reserve1] = await client.readContract({
+    address: ZAAMAddress,
+    abi: ZAAMAbi,
+    functionName: "pools",
+    args: [poolId],
+  });
+  return { reserve0, reserve1 };
+}
+
+export const reservesEqual = (a: Reserves, b: Reserves) => a.reserve0 === b.reserve0 && a.reserve1 === b.reserve1;
+
+const poolReservesKey = (poolId: bigint | null) => [...POOL_RESERVES_QUERY_KEY, poolId?.toString() ?? null];
+
+/**
+ * Write the latest reserves of each pool into every cache that holds them
+ */
+function applyPoolReserves(queryClient: QueryClient, updates: Map<bigint, Reserves>) {
+  if (updates.size === 0) return;
+
+  for (const [poolId, reserves] of updates) {
+    const key = poolReservesKey(poolId);
+    // Only pools something is looking at; the rest would just fill the cache
+    if (queryClient.getQueryData(key)) queryClient.setQueryData(key, reserves);
+  }
+
+  const apply = (coin: CoinData) => {
+    const reserves = updates.get(coin.poolId);
+    return reserves ? withReserves(coin, reserves.reserve0, reserves.reserve1) : coin;
+  };
+
+  const now = Date.now();
+  const changed: { coin: CoinData; index: number }[] = [];
+  queryClient.setQueryData<CoinData[]>(ALL_COINS_QUERY_KEY, (coins) =>
+    coins?.map((coin, index) => {
+      const updated = apply(coin);
+      if (updated !== coin) changed.push({ coin: updated, index });
+      return updated;
+    }),
+  );
+  queryClient.setQueriesData<CoinData>({ queryKey: ["coin-data"] }, (coin) => coin && apply(coin));
+
+  putMarket(changed.map(({ coin, index }) => toMarketRecord(coin, index, now))).catch((error) =>
+    console.error("Failed to store market data:", error),
+  );
+}
+
+/**
+ * Follow ZAMM `Sync` logs block by block and push the new reserves into the shared caches.
+ * Mounted once, at the app root.
+ */
+export function useLiveReserves() {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+
+  useEffect(() => {
+    if (!publicClient) return;
+    // Last block whose logs have been applied
+    let cursor: bigint | null = null;
+    // A slow getLogs shouldn't overlap the next one; the next block picks up the whole range
+    let busy = false;
+
+    const onBlockNumber = async (blockNumber: bigint) => {
+      if (busy || (cursor !== null && blockNumber <= cursor)) return;
+
+      if (cursor === null || blockNumber - cursor > MAX_LOG_BLOCK_RANGE) {
+        // Nothing to replay on the first block; after a long gap a fresh read is cheaper than the logs
+        if (cursor !== null) queryClient.invalidateQueries({ queryKey: POOL_RESERVES_QUERY_KEY });
+        cursor = blockNumber;
+        return;
+      }
+
+      busy = true;
+      try {
+        const logs = await publicClient.getContractEvents({
+          address: ZAAMAddress,
+          abi: ZAAMAbi,
+          eventName: "Sync",
+          fromBlock: cursor + 1n,
+          toBlock: blockNumber,
+        });
+        // Logs come in chain order, so the last one per pool wins
+        const updates = new Map<bigint, Reserves>();
+        for (const { args } of logs) {
+          if (args.poolId === undefined || args.reserve0 === undefined || args.reserve1 === undefined) continue;
+          updates.set(args.poolId, { reserve0: args.reserve0, reserve1: args.reserve1 });
+        }
+        cursor = blockNumber;
+        applyPoolReserves(queryClient, updates);
+      } catch (error) {
+        // The cursor stays put, so the range is retried with the next block
+        console.error("Failed to fetch pool events:", error);
+      } finally {
+        busy = false;
+      }
+    };
+
+    return publicClient.watchBlockNumber({
+      onBlockNumber,
+      emitOnBegin: true,
+      poll: true,
+      pollingInterval: BLOCK_POLL_MS,
+    });
+  }, [publicClient, queryClient]);
+}
+
+/**
+ * Reserves of a coin's ETH pool, kept current by `useLiveReserves`
+ * @returns The reserves (null until loaded), and `refresh` to re-read them from chain, e.g. right before submitting
+ */
+export function usePoolReserves(coinId: bigint | null | undefined) {
+  const queryClient = useQueryClient();
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+  const poolId = coinId ? computePoolId(coinId) : null;
+
+  const queryFn = useCallback(
+    () => fetchPoolReserves(publicClient as PoolsClient, poolId as bigint),
+    [publicClient, poolId],
+  );
+
+  const { data } = useQuery({
+    queryKey: poolReservesKey(poolId),
+    queryFn,
+    enabled: !!publicClient && poolId !== null,
+    staleTime: POOL_RESERVES_STALE_MS,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.fetchQuery({ queryKey: poolReservesKey(poolId), queryFn, staleTime: 0 }),
+    [queryClient, poolId, queryFn],
+  );
+
+  return { reserves: data ?? null, refresh };
+}
+
+/**
+ * Whether the pool moved after the user got their quote, i.e. the amounts on screen were recomputed
+ * against new reserves since they last edited the trade
+ * @param reserves Reserves the current quote is computed from
+ * @param quoteKey Changes whenever the user edits the trade; the reserves at that point become the baseline
+ * @returns `moved`, and `accept` to take the current quote as the new baseline
+ */
+export function usePoolMovedSinceQuote(reserves: Reserves | null, quoteKey: string) {
+  const [baseline, setBaseline] = useState<{ key: string; reserves: Reserves } | null>(null);
+
+  useEffect(() => {
+    if (!reserves) return;
+    setBaseline((prev) => (prev?.key === quoteKey ? prev : { key: quoteKey, reserves }));
+  }, [quoteKey, reserves]);
+
+  const moved =
+    reserves !== null && baseline !== null && baseline.key === quoteKey && !reservesEqual(baseline.reserves, reserves);
+
+  const accept = useCallback(() => {
+    if (reserves) setBaseline({ key: quoteKey, reserves });
+  }, [quoteKey, reserves]);
+
+  return { moved, accept };
+}
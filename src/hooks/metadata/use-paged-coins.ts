@@ -1,23 +1,30 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useGlobalCoinsData, type CoinData } from './use-global-coins-data';
-import { createPublicClient, http } from 'viem';
-import { mainnet } from 'viem/chains';
+import { getMainnetClient } from '@/wagmi';
 import { CoinsMetadataHelperAbi, CoinsMetadataHelperAddress } from '@/constants/CoinsMetadataHelper';
+import { fetchIpfsJson, parseIpfsUri, resolveIpfsUrl } from '@/lib/ipfs';
 import { useQuery } from '@tanstack/react-query';
 
-// Create a public client instance
-const publicClient = createPublicClient({
-  chain: mainnet,
-  transport: http(),
-});
+// Shared mainnet client: configured RPC endpoints with fallback, batching and multicall
+const publicClient = getMainnetClient();
 
 /**
  * Hook for paginated access to coins data
  * Uses the global coins data if available, with fallback to direct pagination
+ * @param source Coins to page through instead of the registry order, e.g. a sorted and filtered view of
+ *   the global data. The direct fallback only covers the unfiltered registry, so it's skipped then.
+ * @param controlled Page held by the caller (0-based), e.g. from the URL; otherwise it's local state
  */
-export function usePagedCoins(pageSize: number = 20) {
-  const [page, setPage] = useState(0);
-  const { allCoins, isLoading: isGlobalLoading } = useGlobalCoinsData();
+export function usePagedCoins(
+  pageSize: number = 20,
+  source?: CoinData[] | null,
+  controlled?: { page: number; setPage: (page: number, options?: { replace?: boolean }) => void },
+) {
+  const [localPage, setLocalPage] = useState(0);
+  const page = controlled?.page ?? localPage;
+  const setPage = controlled?.setPage ?? ((next: number) => setLocalPage(next));
+  const { allCoins: globalCoins, isLoading: isGlobalLoading } = useGlobalCoinsData();
+  const allCoins = source ?? globalCoins;
   
   // Calculate total pages based on global data
   const totalCoinsFromGlobal = useMemo(() => allCoins?.length || 0, [allCoins]);
@@ -28,6 +35,7 @@ export function usePagedCoins(pageSize: number = 20) {
   // Direct query for coin count as a fallback
   const { data: totalCoinsCount, isLoading: isCountLoading } = useQuery({
     queryKey: ['coins-count'],
+    enabled: !source,
     queryFn: async () => {
       if (totalCoinsFromGlobal > 0) return totalCoinsFromGlobal;
       
@@ -49,18 +57,18 @@ export function usePagedCoins(pageSize: number = 20) {
   
   // Calculate pages from direct count if needed
   const totalPages = useMemo(() => {
-    if (totalPagesFromGlobal > 1) return totalPagesFromGlobal;
+    if (source || totalPagesFromGlobal > 1) return totalPagesFromGlobal;
     return Math.ceil((totalCoinsCount || 0) / pageSize) || 1;
   }, [totalPagesFromGlobal, totalCoinsCount, pageSize]);
   
   // If we're using the global data, get the current page items
   const pageItemsFromGlobal = useMemo(() => {
-    if (!allCoins || allCoins.length === 0) return null;
+    if (!allCoins || (allCoins.length === 0 && !source)) return null;
     
     const start = page * pageSize;
     const end = Math.min(start + pageSize, allCoins.length);
     return allCoins.slice(start, end);
-  }, [allCoins, page, pageSize]);
+  }, [allCoins, source, page, pageSize]);
   
   // Direct query for a page of coins as a fallback
   const { 
@@ -102,7 +110,7 @@ export function usePagedCoins(pageSize: number = 20) {
         return [];
       }
     },
-    enabled: !pageItemsFromGlobal || pageItemsFromGlobal.length === 0,
+    enabled: !source && (!pageItemsFromGlobal || pageItemsFromGlobal.length === 0),
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
   
@@ -111,12 +119,13 @@ export function usePagedCoins(pageSize: number = 20) {
     return pageItemsFromGlobal || directPageItems || [];
   }, [pageItemsFromGlobal, directPageItems]);
   
-  // Ensure page is valid
+  // Ensure page is valid, once there's something to count (a linked page shouldn't reset while loading)
   useEffect(() => {
+    if (!source && !allCoins?.length) return;
     if (page >= totalPages && totalPages > 0) {
-      setPage(totalPages - 1);
+      setPage(totalPages - 1, { replace: true });
     }
-  }, [page, totalPages]);
+  }, [page, totalPages, source, allCoins]);
   
   // Pagination helpers
   const hasNextPage = page < totalPages - 1;
@@ -124,28 +133,28 @@ export function usePagedCoins(pageSize: number = 20) {
   
   const goToNextPage = useCallback(() => {
     if (hasNextPage) {
-      setPage(p => p + 1);
+      setPage(page + 1);
     }
-  }, [hasNextPage]);
+  }, [hasNextPage, page, setPage]);
   
   const goToPreviousPage = useCallback(() => {
     if (hasPreviousPage) {
-      setPage(p => p - 1);
+      setPage(page - 1);
     }
-  }, [hasPreviousPage]);
+  }, [hasPreviousPage, page, setPage]);
   
   const goToPage = useCallback((newPage: number) => {
     if (newPage >= 0 && newPage < totalPages) {
       setPage(newPage);
     }
-  }, [totalPages]);
+  }, [totalPages, setPage]);
   
   // Loading state
-  const isLoading = isGlobalLoading || isCountLoading || isPageLoading;
+  const isLoading = isGlobalLoading || (!source && (isCountLoading || isPageLoading));
   
   return {
     coins: pageItems,
-    total: totalCoinsCount || totalCoinsFromGlobal || 0,
+    total: source ? source.length : totalCoinsCount || totalCoinsFromGlobal || 0,
     page,
     totalPages,
     setPage: goToPage,
@@ -158,9 +167,6 @@ export function usePagedCoins(pageSize: number = 20) {
   };
 }
 
-// Import the processTokenURI and formatImageURL functions from use-global-coins-data.ts
-import { formatImageURL } from './use-global-coins-data';
-
 // Helper function to process raw coin data
 async function processRawCoinData(rawData: any): Promise<CoinData> {
   console.log('Processing raw coin data:', rawData);
@@ -196,6 +202,7 @@ async function processRawCoinData(rawData: any): Promise<CoinData> {
     imageUrl: null,
     metadata: null,
     priceInEth: null,
+    stats: null,
   };
   
   // Calculate price in ETH if reserves are available
@@ -210,36 +217,27 @@ async function processRawCoinData(rawData: any): Promise<CoinData> {
     try {
       console.log(`Fetching metadata for coin ${coinData.coinId.toString()} with URI: ${coinData.tokenURI}`);
       
-      // Handle IPFS URIs with gateway
-      let uri = coinData.tokenURI;
-      if (uri.startsWith('ipfs://')) {
-        uri = `https://content.wrappr.wtf/ipfs/${uri.slice(7)}`;
-      }
-      
-      // Skip if it's not an HTTP or HTTPS URI
-      if (uri.startsWith('http')) {
-        const response = await fetch(uri);
-        if (response.ok) {
-          const metadata = await response.json();
-          console.log(`Successfully fetched metadata for coin ${coinData.coinId.toString()}:`, metadata);
-          
-          // Extract common fields
-          coinData.metadata = metadata;
-          coinData.name = metadata.name || null;
-          coinData.symbol = metadata.symbol || null;
-          coinData.description = metadata.description || null;
-          
-          // Process image URL
-          if (metadata.image) {
-            coinData.imageUrl = formatImageURL(metadata.image);
-            console.log(`Set image URL for coin ${coinData.coinId.toString()}: ${coinData.imageUrl}`);
-          } else if (metadata.image_url) {
-            coinData.imageUrl = formatImageURL(metadata.image_url);
-            console.log(`Set image_url for coin ${coinData.coinId.toString()}: ${coinData.imageUrl}`);
-          } else if (metadata.imageUrl) {
-            coinData.imageUrl = formatImageURL(metadata.imageUrl);
-            console.log(`Set imageUrl for coin ${coinData.coinId.toString()}: ${coinData.imageUrl}`);
-          }
+      // Skip if it's neither IPFS content nor an HTTP or HTTPS URI
+      if (parseIpfsUri(coinData.tokenURI) || coinData.tokenURI.startsWith('http')) {
+        const metadata = await fetchIpfsJson<Record<string, any>>(coinData.tokenURI);
+        console.log(`Successfully fetched metadata for coin ${coinData.coinId.toString()}:`, metadata);
+
+        // Extract common fields
+        coinData.metadata = metadata;
+        coinData.name = metadata.name || null;
+        coinData.symbol = metadata.symbol || null;
+        coinData.description = metadata.description || null;
+
+        // Process image URL
+        if (metadata.image) {
+          coinData.imageUrl = resolveIpfsUrl(metadata.image);
+          console.log(`Set image URL for coin ${coinData.coinId.toString()}: ${coinData.imageUrl}`);
+        } else if (metadata.image_url) {
+          coinData.imageUrl = resolveIpfsUrl(metadata.image_url);
+          console.log(`Set image_url for coin ${coinData.coinId.toString()}: ${coinData.imageUrl}`);
+        } else if (metadata.imageUrl) {
+          coinData.imageUrl = resolveIpfsUrl(metadata.imageUrl);
+          console.log(`Set imageUrl for coin ${coinData.coinId.toString()}: ${coinData.imageUrl}`);
         }
       }
     } catch (error) {
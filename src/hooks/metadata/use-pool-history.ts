@@ -0,0 +1,26 @@
+import { computePoolId } from "@/lib/amm";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { mainnet } from "viem/chains";
+import { usePublicClient } from "wagmi";
+import { type PoolHistoryClient, loadPoolHistory } from "./pool-history";
+
+// Each refetch only asks for the blocks since the last one
+const POOL_HISTORY_POLL_MS = 12_000;
+
+/**
+ * `Swap` and `Sync` logs of a coin's ETH pool over the last `windowBlocks` blocks, caught up as new blocks arrive
+ * @returns The query; while a wider window loads, `data` holds the previous one with `isPlaceholderData` set
+ */
+export function usePoolHistory(coinId: bigint | null | undefined, windowBlocks: bigint) {
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+  const poolId = coinId ? computePoolId(coinId) : null;
+
+  return useQuery({
+    queryKey: ["pool-history", poolId?.toString() ?? null, windowBlocks.toString()],
+    queryFn: () => loadPoolHistory(publicClient as PoolHistoryClient, poolId as bigint, windowBlocks),
+    enabled: !!publicClient && poolId !== null,
+    refetchInterval: POOL_HISTORY_POLL_MS,
+    staleTime: POOL_HISTORY_POLL_MS,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,55 @@
+import { findBestRoute } from "@/lib/router";
+import { useQuery } from "@tanstack/react-query";
+import type { PublicClient } from "viem";
+import { mainnet } from "viem/chains";
+import { useAccount, usePublicClient } from "wagmi";
+import { useSwapSettings } from "./use-swap-settings";
+
+/**
+ * Best coin-to-coin route for the given amount, simulated against chain state when a wallet is connected
+ * @param source Coin being sold (null/undefined disables the query)
+ * @param target Coin being bought
+ * @param amountIn Raw amount of the source coin
+ * @param via Candidate intermediate coins (e.g. the deepest pools)
+ */
+export function useCoinRoute({
+  source,
+  target,
+  amountIn,
+  via = [],
+}: {
+  source: bigint | null | undefined;
+  target: bigint | null | undefined;
+  amountIn: bigint;
+  via?: bigint[];
+}) {
+  const publicClient = usePublicClient({ chainId: mainnet.id });
+  const { address } = useAccount();
+  const { slippage } = useSwapSettings();
+
+  const enabled = !!publicClient && source != null && target != null && source !== target && amountIn > 0n;
+
+  return useQuery({
+    queryKey: [
+      "coin-route",
+      source?.toString(),
+      target?.toString(),
+      amountIn.toString(),
+      via.map(String).join(","),
+      slippage.toString(),
+      address,
+    ],
+    queryFn: () =>
+      findBestRoute(publicClient as PublicClient, {
+        source: source as bigint,
+        target: target as bigint,
+        amountIn,
+        via,
+        slippageBps: slippage,
+        account: address,
+      }),
+    enabled,
+    staleTime: 12_000, // ~one block
+    refetchInterval: 12_000,
+  });
+}
@@ -0,0 +1,25 @@
+import { CheckTheChainAbi, CheckTheChainAddress } from "@/constants/CheckTheChain";
+import { mainnet } from "viem/chains";
+import { useReadContract } from "wagmi";
+
+/**
+ * ETH price in USD from CheckTheChain's WETH quote
+ * @returns The price, or null while loading / when the oracle can't be read
+ */
+export function useEthUsdPrice() {
+  const { data } = useReadContract({
+    address: CheckTheChainAddress,
+    abi: CheckTheChainAbi,
+    functionName: "checkPrice",
+    args: ["WETH"],
+    chainId: mainnet.id,
+    query: {
+      // Refresh every 60 seconds
+      staleTime: 60_000,
+    },
+  });
+
+  // priceStr is the human-readable decimal; the raw uint's decimals depend on the quote token
+  const price = data ? Number.parseFloat(data[1]) : Number.NaN;
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
@@ -0,0 +1,61 @@
+import { loadIpfsImage, resolveTokenImageUri } from "@/lib/ipfs";
+import { type QueryClient, useQuery } from "@tanstack/react-query";
+
+type IpfsImageState = {
+  src: string | null; // a URL that has already loaded
+  isLoading: boolean;
+  failed: boolean;
+};
+
+const ipfsImageQuery = (uri: string | null | undefined) => ({
+  queryKey: ["ipfs-image", uri],
+  queryFn: () => loadIpfsImage(uri as string),
+  staleTime: Number.POSITIVE_INFINITY,
+  gcTime: 60 * 60 * 1000,
+  // The resolver already falls back across every gateway
+  retry: false,
+});
+
+/**
+ * Load an image URI (ipfs://, ipns://, gateway URL, bare CID or plain https) through the gateway resolver.
+ * Results are shared across components, so a grid of cards only races each image once.
+ */
+export function useIpfsImage(uri: string | null | undefined): IpfsImageState {
+  const { data, isLoading, isError } = useQuery({ ...ipfsImageQuery(uri), enabled: !!uri });
+
+  return { src: data ?? null, isLoading: !!uri && isLoading, failed: isError };
+}
+
+/**
+ * Start loading images that are about to be shown, so they're ready when their cards mount
+ */
+export function prefetchIpfsImages(queryClient: QueryClient, uris: readonly string[]) {
+  for (const uri of uris) {
+    queryClient.prefetchQuery(ipfsImageQuery(uri));
+  }
+}
+
+/**
+ * Image for a coin's token URI, which may be a metadata document or the image itself
+ */
+export function useTokenUriImage(tokenUri: string | null | undefined): IpfsImageState {
+  const {
+    data: imageUri,
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ["token-uri-image", tokenUri],
+    queryFn: () => resolveTokenImageUri(tokenUri as string),
+    enabled: !!tokenUri && tokenUri !== "N/A",
+    staleTime: Number.POSITIVE_INFINITY,
+    gcTime: 60 * 60 * 1000,
+    retry: false,
+  });
+  const image = useIpfsImage(imageUri);
+
+  return {
+    src: image.src,
+    isLoading: (!!tokenUri && tokenUri !== "N/A" && isLoading) || image.isLoading,
+    failed: isError || imageUri === null || image.failed,
+  };
+}
@@ -0,0 +1,157 @@
+import { createExternalStore } from "@/lib/external-store";
+import { useSyncExternalStore } from "react";
+import { type Address, getAddress } from "viem";
+
+/**
+ * URL routes for the app's views, on the History API so they can be bookmarked, shared, and walked with
+ * back/forward:
+ *
+ *   /swap?from=&to=&amount=         `from`/`to` are "eth" or a coin ID
+ *   /launch
+ *   /explorer?tab=&page=&sort=&q=   `tab` is "watchlist", or unset for every coin; `page` is 1-based
+ *   /coin/:id
+ *   /creator/:address
+ *   /coinpaper
+ *   /menu
+ *
+ * `/` and unknown paths show the swap view.
+ */
+
+export type SwapRoute = { view: "swap"; from?: string; to?: string; amount?: string };
+export type ExplorerRoute = { view: "explorer"; tab?: "watchlist"; page?: number; sort?: string; q?: string };
+
+export type Route =
+  | SwapRoute
+  | ExplorerRoute
+  | { view: "form" }
+  | { view: "coin"; coinId: bigint }
+  | { view: "creator"; address: Address }
+  | { view: "memepaper" }
+  | { view: "menu" };
+
+export type RouteView = Route["view"];
+
+// Views whose path carries a parameter, so they have no fixed path
+type ParamView = "coin" | "creator";
+
+const PATHS: Record<Exclude<RouteView, ParamView>, string> = {
+  swap: "/swap",
+  form: "/launch",
+  explorer: "/explorer",
+  memepaper: "/coinpaper",
+  menu: "/menu",
+};
+
+const VIEWS_BY_PATH = new Map(
+  Object.entries(PATHS).map(([view, path]) => [path, view as Exclude<RouteView, ParamView>]),
+);
+
+// Empty and missing params both read as unset
+const param = (params: URLSearchParams, name: string) => params.get(name) || undefined;
+
+export function parseRoute(pathname: string, search: string): Route {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  const params = new URLSearchParams(search);
+
+  const coinMatch = /^\/coin\/(\d+)$/.exec(path);
+  if (coinMatch) return { view: "coin", coinId: BigInt(coinMatch[1]) };
+
+  const creatorMatch = /^\/creator\/(0x[0-9a-fA-F]{40})$/.exec(path);
+  if (creatorMatch) return { view: "creator", address: getAddress(creatorMatch[1]) };
+
+  const view = VIEWS_BY_PATH.get(path) ?? "swap";
+  switch (view) {
+    case "swap":
+      return { view, from: param(params, "from"), to: param(params, "to"), amount: param(params, "amount") };
+    case "explorer": {
+      const page = Number.parseInt(param(params, "page") ?? "", 10);
+      return {
+        view,
+        tab: param(params, "tab") === "watchlist" ? "watchlist" : undefined,
+        page: page > 1 ? page : undefined,
+        sort: param(params, "sort"),
+        q: param(params, "q"),
+      };
+    }
+    default:
+      return { view };
+  }
+}
+
+/** Path and query string for a route; unset params are left out */
+export function routePath(route: Route): string {
+  if (route.view === "coin") return `/coin/${route.coinId.toString()}`;
+  if (route.view === "creator") return `/creator/${route.address}`;
+
+  const params = new URLSearchParams();
+  const set = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== "") params.set(name, String(value));
+  };
+  if (route.view === "swap") {
+    set("from", route.from);
+    set("to", route.to);
+    set("amount", route.amount);
+  } else if (route.view === "explorer") {
+    set("tab", route.tab);
+    set("page", route.page && route.page > 1 ? route.page : undefined);
+    set("sort", route.sort);
+    set("q", route.q);
+  }
+  const query = params.toString();
+  return query ? `${PATHS[route.view]}?${query}` : PATHS[route.view];
+}
+
+/** Absolute link to a route, e.g. for sharing */
+export const routeUrl = (route: Route) => `${window.location.origin}${routePath(route)}`;
+
+// Position in the session's history; entries pushed by the app carry theirs in `history.state`
+type HistoryState = { index: number };
+
+const historyIndex = () => (window.history.state as HistoryState | null)?.index ?? 0;
+
+const readRoute = () => parseRoute(window.location.pathname, window.location.search);
+
+// Module-level store so every component sees the same route, re-read on back/forward
+const store = createExternalStore(readRoute, "popstate");
+
+/**
+ * Go to a route
+ * @param replace Swap the current history entry instead of adding one, e.g. while typing in a field mirrored to the URL
+ */
+export function navigate(route: Route, { replace = false }: { replace?: boolean } = {}) {
+  const path = routePath(route);
+  if (path === `${window.location.pathname}${window.location.search}`) return;
+  if (replace) {
+    window.history.replaceState({ index: historyIndex() } satisfies HistoryState, "", path);
+  } else {
+    window.history.pushState({ index: historyIndex() + 1 } satisfies HistoryState, "", path);
+    window.scrollTo(0, 0);
+  }
+  store.set(readRoute());
+}
+
+/**
+ * Go back one entry when it belongs to the app, so the previous page comes back as it was (page, sort, search);
+ * otherwise, e.g. when the page was opened from a shared link, go to `fallback`
+ */
+export function goBack(fallback: Route) {
+  if (historyIndex() > 0) window.history.back();
+  else navigate(fallback, { replace: true });
+}
+
+// View state per history entry (scroll position, rows loaded), kept for the session so coming back to an
+// entry can put the page back the way it was
+const entryStates = new Map<string, unknown>();
+const entryKey = (name: string) => `${name}@${historyIndex()}:${window.location.pathname}${window.location.search}`;
+
+/** State saved with `writeEntryState` for the current history entry */
+export const readEntryState = <T>(name: string) => entryStates.get(entryKey(name)) as T | undefined;
+
+export const writeEntryState = (name: string, value: unknown) => {
+  entryStates.set(entryKey(name), value);
+};
+
+/** The route for the current URL, updating on navigation and back/forward */
+export function useRoute(): Route {
+  return useSyncExternalStore(store.subscribe, store.get);
+}
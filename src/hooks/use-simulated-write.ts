@@ -0,0 +1,33 @@
+import { useCallback } from "react";
+import type { SimulateContractParameters } from "viem";
+import { useAccount, useConfig, useWriteContract } from "wagmi";
+import { getPublicClient } from "wagmi/actions";
+
+/**
+ * Drop-in replacement for `useWriteContract` whose `writeContractAsync` first simulates the call
+ * against the latest block. A call that would revert throws before the wallet is prompted, with the
+ * revert decodable by `handleWalletError` / `decodeContractError`.
+ */
+export function useSimulatedWriteContract() {
+  const config = useConfig();
+  const { address } = useAccount();
+  const write = useWriteContract();
+  const { writeContractAsync } = write;
+
+  const simulateAndWrite = useCallback(
+    async (parameters: Parameters<typeof writeContractAsync>[0]) => {
+      const publicClient = getPublicClient(config, { chainId: parameters.chainId });
+      if (publicClient) {
+        await publicClient.simulateContract({
+          account: address,
+          ...parameters,
+        } as SimulateContractParameters);
+      }
+      // The per-chain parameter unions don't survive this passthrough; the signature is restored below
+      return writeContractAsync(parameters as never);
+    },
+    [config, address, writeContractAsync],
+  );
+
+  return { ...write, writeContractAsync: simulateAndWrite as typeof writeContractAsync };
+}
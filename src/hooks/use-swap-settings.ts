@@ -0,0 +1,89 @@
+import { DEADLINE_SEC, SLIPPAGE_BPS } from "@/lib/amm";
+import { createLocalStorageStore } from "@/lib/external-store";
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+
+export type SwapSettings = {
+  slippageBps: number; // e.g. 100 = 1%
+  deadlineMinutes: number;
+};
+
+// Bounds for user input; anything outside is clamped
+export const MIN_SLIPPAGE_BPS = 1;
+export const MAX_SLIPPAGE_BPS = 5000;
+export const MIN_DEADLINE_MINUTES = 1;
+export const MAX_DEADLINE_MINUTES = 4320; // 3 days
+
+// Thresholds for the settings warning
+export const LOW_SLIPPAGE_BPS = 10; // 0.1% — likely to revert on thin pools
+export const HIGH_SLIPPAGE_BPS = 500; // 5% — open to sandwiching
+
+export const SLIPPAGE_PRESETS_BPS = [50, 100, 300] as const;
+
+const STORAGE_KEY = "coinchan-swap-settings";
+
+const DEFAULT_SETTINGS: SwapSettings = {
+  slippageBps: Number(SLIPPAGE_BPS),
+  deadlineMinutes: DEADLINE_SEC / 60,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const sanitize = (settings: Partial<SwapSettings>): SwapSettings => ({
+  slippageBps: Number.isFinite(settings.slippageBps)
+    ? clamp(Math.round(settings.slippageBps as number), MIN_SLIPPAGE_BPS, MAX_SLIPPAGE_BPS)
+    : DEFAULT_SETTINGS.slippageBps,
+  deadlineMinutes: Number.isFinite(settings.deadlineMinutes)
+    ? clamp(Math.round(settings.deadlineMinutes as number), MIN_DEADLINE_MINUTES, MAX_DEADLINE_MINUTES)
+    : DEFAULT_SETTINGS.deadlineMinutes,
+});
+
+const load = (): SwapSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return sanitize(JSON.parse(stored));
+  } catch (error) {
+    console.error("Failed to load swap settings:", error);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+// Module-level store so every swap surface shares the same settings
+const store = createLocalStorageStore(STORAGE_KEY, load);
+
+/**
+ * User-configurable slippage tolerance and transaction deadline, persisted in localStorage
+ */
+export function useSwapSettings() {
+  const settings = useSyncExternalStore(store.subscribe, store.get);
+
+  const setSlippageBps = useCallback((slippageBps: number) => {
+    store.set(sanitize({ ...store.get(), slippageBps }));
+  }, []);
+
+  const setDeadlineMinutes = useCallback((deadlineMinutes: number) => {
+    store.set(sanitize({ ...store.get(), deadlineMinutes }));
+  }, []);
+
+  const resetSettings = useCallback(() => store.set(DEFAULT_SETTINGS), []);
+
+  const slippageWarning = useMemo(() => {
+    if (settings.slippageBps < LOW_SLIPPAGE_BPS) {
+      return "Slippage is very low — your transaction may revert.";
+    }
+    if (settings.slippageBps > HIGH_SLIPPAGE_BPS) {
+      return "Slippage is very high — your trade may be frontrun.";
+    }
+    return null;
+  }, [settings.slippageBps]);
+
+  return {
+    ...settings,
+    // bigint / seconds forms for the AMM helpers
+    slippage: BigInt(settings.slippageBps),
+    deadlineSec: settings.deadlineMinutes * 60,
+    slippageWarning,
+    setSlippageBps,
+    setDeadlineMinutes,
+    resetSettings,
+  };
+}
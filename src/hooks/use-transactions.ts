@@ -0,0 +1,192 @@
+import { createLocalStorageStore } from "@/lib/external-store";
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import type { Address, Hash } from "viem";
+import { mainnet } from "viem/chains";
+import { type Config, useAccount, useConfig } from "wagmi";
+import { getPublicClient } from "wagmi/actions";
+
+export type TxType = "swap" | "add-liquidity" | "remove-liquidity" | "launch" | "claim" | "approval";
+
+export type TxStatus = "pending" | "confirmed" | "reverted" | "replaced";
+
+export type TxAmount = {
+  amount: string; // raw 18-decimal amount, stringified so it survives JSON
+  symbol: string;
+};
+
+export type TxRecord = {
+  hash: Hash;
+  chainId: number;
+  account?: Address;
+  type: TxType;
+  description: string;
+  coinIds: string[];
+  amounts: TxAmount[];
+  status: TxStatus;
+  createdAt: number;
+  updatedAt: number;
+  blockNumber?: string;
+  replacedBy?: Hash; // hash of the transaction that took this one's nonce
+};
+
+export type NewTransaction = {
+  hash: Hash;
+  type: TxType;
+  description: string;
+  chainId?: number;
+  account?: Address;
+  coinIds?: bigint[];
+  amounts?: { amount: bigint; symbol: string }[];
+};
+
+// Oldest records are dropped beyond this
+export const MAX_TRANSACTIONS = 100;
+
+const STORAGE_KEY = "coinchan-transactions";
+
+const load = (): TxRecord[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (error) {
+    console.error("Failed to load transactions:", error);
+  }
+  return [];
+};
+
+// Module-level store so every component sees the same history, newest first
+const store = createLocalStorageStore(STORAGE_KEY, load);
+
+const write = (next: TxRecord[]) => store.set(next.slice(0, MAX_TRANSACTIONS));
+
+const updateTransaction = (hash: Hash, patch: Partial<TxRecord>) => {
+  write(store.get().map((tx) => (tx.hash === hash ? { ...tx, ...patch, updatedAt: Date.now() } : tx)));
+};
+
+/**
+ * Add a just-submitted transaction to the history as pending; `useTransactionWatcher` settles it
+ */
+export function recordTransaction({
+  hash,
+  type,
+  description,
+  chainId = mainnet.id,
+  account,
+  coinIds = [],
+  amounts = [],
+}: NewTransaction) {
+  const now = Date.now();
+  const record: TxRecord = {
+    hash,
+    chainId,
+    account,
+    type,
+    description,
+    coinIds: coinIds.map(String),
+    amounts: amounts.map(({ amount, symbol }) => ({ amount: amount.toString(), symbol })),
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+  };
+  write([record, ...store.get().filter((tx) => tx.hash !== hash)]);
+}
+
+/** Drop settled transactions; pending ones stay until their receipt arrives */
+export const clearTransactions = () => write(store.get().filter((tx) => tx.status === "pending"));
+
+// Hashes with an in-flight receipt watch, so remounts don't double up
+const watching = new Set<Hash>();
+// Failed watches so far per hash, for the retry backoff
+const watchFailures = new Map<Hash, number>();
+
+// A failed watch (RPC error, receipt timeout) is retried after 5s, doubling up to 5 minutes
+const WATCH_RETRY_MS = 5_000;
+const MAX_WATCH_RETRY_MS = 5 * 60 * 1000;
+
+function watchTransaction(config: Config, tx: TxRecord) {
+  if (watching.has(tx.hash)) return;
+  const publicClient = getPublicClient(config, { chainId: tx.chainId as typeof mainnet.id });
+  if (!publicClient) return;
+
+  watching.add(tx.hash);
+  let replaced = false;
+  publicClient
+    .waitForTransactionReceipt({
+      hash: tx.hash,
+      onReplaced: ({ reason, transaction, transactionReceipt }) => {
+        replaced = true;
+        updateTransaction(tx.hash, { status: "replaced", replacedBy: transaction.hash });
+        // A sped-up transaction is the same action under a new hash; keep tracking it
+        if (reason === "repriced") {
+          write([
+            {
+              ...tx,
+              hash: transaction.hash,
+              status: transactionReceipt.status === "success" ? "confirmed" : "reverted",
+              blockNumber: transactionReceipt.blockNumber.toString(),
+              updatedAt: Date.now(),
+            },
+            ...store.get().filter((record) => record.hash !== transaction.hash),
+          ]);
+        }
+      },
+    })
+    .then((receipt) => {
+      watching.delete(tx.hash);
+      watchFailures.delete(tx.hash);
+      if (replaced) return;
+      updateTransaction(tx.hash, {
+        status: receipt.status === "success" ? "confirmed" : "reverted",
+        blockNumber: receipt.blockNumber.toString(),
+      });
+    })
+    .catch((error) => {
+      console.warn(`Failed to watch transaction ${tx.hash}:`, error);
+      watching.delete(tx.hash);
+      const failures = (watchFailures.get(tx.hash) ?? 0) + 1;
+      watchFailures.set(tx.hash, failures);
+      setTimeout(
+        () => {
+          // Settled or cleared meanwhile, or already picked up again by a store change
+          const latest = store.get().find((record) => record.hash === tx.hash);
+          if (latest?.status === "pending") watchTransaction(config, latest);
+          else watchFailures.delete(tx.hash);
+        },
+        Math.min(WATCH_RETRY_MS * 2 ** (failures - 1), MAX_WATCH_RETRY_MS),
+      );
+    });
+}
+
+/**
+ * Watch receipts of every pending transaction in the store (including ones restored after a reload)
+ * and settle them as confirmed, reverted or replaced. Mount once near the app root.
+ */
+export function useTransactionWatcher() {
+  const config = useConfig();
+  const transactions = useSyncExternalStore(store.subscribe, store.get);
+
+  useEffect(() => {
+    for (const tx of transactions) {
+      if (tx.status === "pending") watchTransaction(config, tx);
+    }
+  }, [config, transactions]);
+}
+
+/**
+ * Transaction history of the connected account (everything when disconnected), newest first
+ */
+export function useTransactions() {
+  const { address } = useAccount();
+  const all = useSyncExternalStore(store.subscribe, store.get);
+
+  const transactions = useMemo(
+    () => (address ? all.filter((tx) => !tx.account || tx.account.toLowerCase() === address.toLowerCase()) : all),
+    [all, address],
+  );
+  const pendingCount = useMemo(() => transactions.filter((tx) => tx.status === "pending").length, [transactions]);
+
+  return { transactions, pendingCount, clearTransactions };
+}
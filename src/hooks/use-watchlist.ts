@@ -0,0 +1,39 @@
+import { createLocalStorageStore } from "@/lib/external-store";
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+
+const STORAGE_KEY = "coinchan-watchlist";
+
+// Coin IDs as decimal strings, most recently starred first
+const load = (): string[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (Array.isArray(parsed)) return parsed.filter((id): id is string => typeof id === "string" && /^\d+$/.test(id));
+  } catch (error) {
+    console.error("Failed to load watchlist:", error);
+  }
+  return [];
+};
+
+// Module-level store so every star and list shares the same watchlist
+const store = createLocalStorageStore(STORAGE_KEY, load);
+
+/**
+ * Favorite coins, saved in localStorage
+ */
+export function useWatchlist() {
+  const ids = useSyncExternalStore(store.subscribe, store.get);
+
+  const coinIds = useMemo(() => ids.map((id) => BigInt(id)), [ids]);
+  const watched = useMemo(() => new Set(ids), [ids]);
+
+  const isWatched = useCallback((coinId: bigint) => watched.has(coinId.toString()), [watched]);
+
+  const toggleWatched = useCallback((coinId: bigint) => {
+    const id = coinId.toString();
+    const current = store.get();
+    store.set(current.includes(id) ? current.filter((other) => other !== id) : [id, ...current]);
+  }, []);
+
+  return { coinIds, isWatched, toggleWatched };
+}
@@ -0,0 +1,153 @@
+import { type Hex, concatHex, keccak256, numberToHex, padHex, zeroAddress } from "viem";
+import { describe, expect, it } from "vitest";
+import { CoinsAddress } from "../constants/Coins";
+import {
+  SWAP_FEE,
+  combinePriceImpactBps,
+  computeCoinPairPoolKey,
+  computePoolId,
+  computePoolIdFromKey,
+  computePoolKey,
+  getAmountIn,
+  getAmountOut,
+  getHopBreakdown,
+  quoteExactIn,
+  quoteExactOut,
+  withSlippage,
+  withSlippageCeil,
+} from "./amm";
+
+const ETH = 10n ** 18n;
+// 1 ETH against 1M coins
+const RESERVES = { reserve0: 1n * ETH, reserve1: 1_000_000n * ETH };
+
+// abi.encode of static types is each value left-padded to a 32-byte word
+const word = (value: bigint | Hex) => padHex(typeof value === "bigint" ? numberToHex(value) : value, { size: 32 });
+
+describe("getAmountOut / getAmountIn", () => {
+  it("matches the constant-product formula with the fee taken from the input", () => {
+    // 0.1 ETH in, 1% fee: 0.099 * 1M / 1.099
+    expect(getAmountOut(ETH / 10n, RESERVES.reserve0, RESERVES.reserve1)).toBe(
+      (99n * ETH * 1_000_000n * ETH) / (1_099n * ETH),
+    );
+  });
+
+  it("returns 0 for empty pools and zero amounts", () => {
+    expect(getAmountOut(0n, 1n, 1n)).toBe(0n);
+    expect(getAmountOut(1n, 0n, 1n)).toBe(0n);
+    expect(getAmountIn(0n, 1n, 1n)).toBe(0n);
+    expect(getAmountIn(1n, 1n, 0n)).toBe(0n);
+  });
+
+  it("returns 0 when the pool can't supply the output", () => {
+    expect(getAmountIn(RESERVES.reserve1, RESERVES.reserve0, RESERVES.reserve1)).toBe(0n);
+  });
+
+  it.each([1n, 12_345n, ETH / 1000n, ETH / 3n, 5n * ETH])("round-trips %s wei in", (amountIn) => {
+    const amountOut = getAmountOut(amountIn, RESERVES.reserve0, RESERVES.reserve1);
+    const required = getAmountIn(amountOut, RESERVES.reserve0, RESERVES.reserve1);
+    // The exact-output input never exceeds what produced the output, and still buys at least as much
+    expect(required).toBeLessThanOrEqual(amountIn + 1n);
+    expect(getAmountOut(required, RESERVES.reserve0, RESERVES.reserve1)).toBeGreaterThanOrEqual(amountOut);
+  });
+
+  it.each([1n, 999n, ETH, 123_456n * ETH])("round-trips %s out", (amountOut) => {
+    const amountIn = getAmountIn(amountOut, RESERVES.reserve0, RESERVES.reserve1);
+    expect(getAmountOut(amountIn, RESERVES.reserve0, RESERVES.reserve1)).toBeGreaterThanOrEqual(amountOut);
+    // One wei less falls short, so the input is the minimum
+    expect(getAmountOut(amountIn - 1n, RESERVES.reserve0, RESERVES.reserve1)).toBeLessThanOrEqual(amountOut);
+  });
+
+  it("charges more for a higher fee", () => {
+    const low = getAmountOut(ETH / 10n, RESERVES.reserve0, RESERVES.reserve1, 30n);
+    const high = getAmountOut(ETH / 10n, RESERVES.reserve0, RESERVES.reserve1, 300n);
+    expect(low).toBeGreaterThan(high);
+  });
+});
+
+describe("withSlippage / withSlippageCeil", () => {
+  it("rounds the minimum output down", () => {
+    expect(withSlippage(10_000n)).toBe(9_900n);
+    expect(withSlippage(101n)).toBe(99n); // 99.99
+    expect(withSlippage(1n)).toBe(0n);
+    expect(withSlippage(1_000n, 0n)).toBe(1_000n);
+  });
+
+  it("rounds the maximum input up", () => {
+    expect(withSlippageCeil(10_000n)).toBe(10_100n);
+    expect(withSlippageCeil(101n)).toBe(103n); // 102.01
+    expect(withSlippageCeil(1n)).toBe(2n);
+    expect(withSlippageCeil(1_000n, 0n)).toBe(1_000n);
+  });
+});
+
+describe("quoteExactIn / quoteExactOut", () => {
+  it("quotes a buy against reserve0 → reserve1", () => {
+    const quote = quoteExactIn(ETH / 10n, RESERVES, true);
+    expect(quote.amountOut).toBe(getAmountOut(ETH / 10n, RESERVES.reserve0, RESERVES.reserve1));
+    expect(quote.amountOutMin).toBe(withSlippage(quote.amountOut));
+  });
+
+  it("quotes a sell against reserve1 → reserve0", () => {
+    const quote = quoteExactIn(1_000n * ETH, RESERVES, false, 50n);
+    expect(quote.amountOut).toBe(getAmountOut(1_000n * ETH, RESERVES.reserve1, RESERVES.reserve0));
+    expect(quote.amountOutMin).toBe(withSlippage(quote.amountOut, 50n));
+  });
+
+  it("quotes an exact-output buy with a ceiling on the input", () => {
+    const quote = quoteExactOut(10_000n * ETH, RESERVES, true);
+    expect(quote.amountIn).toBe(getAmountIn(10_000n * ETH, RESERVES.reserve0, RESERVES.reserve1));
+    expect(quote.amountInMax).toBe(withSlippageCeil(quote.amountIn));
+  });
+
+  it("zeroes an unfillable exact-output quote", () => {
+    expect(quoteExactOut(2n * ETH, RESERVES, false)).toEqual({ amountIn: 0n, amountOut: 2n * ETH, amountInMax: 0n });
+  });
+});
+
+describe("computePoolId", () => {
+  it("is keccak256 of the abi-encoded pool key", () => {
+    const coinId = 1334160193485309697971829933264346612480800613613n;
+    const encoded = concatHex([word(0n), word(coinId), word(zeroAddress), word(CoinsAddress), word(SWAP_FEE)]);
+    expect(computePoolId(coinId)).toBe(BigInt(keccak256(encoded)));
+    expect(computePoolIdFromKey(computePoolKey(coinId))).toBe(computePoolId(coinId));
+  });
+
+  it("differs per fee tier", () => {
+    expect(computePoolId(1n, 30n)).not.toBe(computePoolId(1n));
+  });
+
+  it("orders coin pair keys by id", () => {
+    expect(computePoolIdFromKey(computeCoinPairPoolKey(2n, 1n))).toBe(
+      computePoolIdFromKey(computeCoinPairPoolKey(1n, 2n)),
+    );
+    expect(computeCoinPairPoolKey(2n, 1n)).toMatchObject({ id0: 1n, id1: 2n });
+  });
+});
+
+describe("getHopBreakdown", () => {
+  it("splits a trade into fee and price impact", () => {
+    const hop = getHopBreakdown(ETH / 10n, RESERVES.reserve0, RESERVES.reserve1);
+    expect(hop.amountOut).toBe(getAmountOut(ETH / 10n, RESERVES.reserve0, RESERVES.reserve1));
+    expect(hop.feeAmount).toBe(ETH / 1000n);
+    expect(hop.midPrice).toBe(1_000_000);
+    // 0.099 / 1.099 of the pool
+    expect(hop.priceImpactBps).toBe(900n);
+    expect(hop.executionPrice).toBeLessThan(hop.midPrice);
+  });
+
+  it("has next to no impact for dust", () => {
+    expect(getHopBreakdown(1000n, RESERVES.reserve0, RESERVES.reserve1).priceImpactBps).toBe(0n);
+  });
+
+  it("zeroes an empty pool", () => {
+    const hop = getHopBreakdown(ETH, 0n, 0n);
+    expect(hop).toMatchObject({ amountOut: 0n, midPrice: 0, priceImpactBps: 0n });
+  });
+
+  it("compounds impact across hops", () => {
+    const hop = getHopBreakdown(ETH / 10n, RESERVES.reserve0, RESERVES.reserve1);
+    // 1 - 0.91²
+    expect(combinePriceImpactBps([hop, hop])).toBe(1_719n);
+  });
+});
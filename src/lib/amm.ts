@@ -0,0 +1,239 @@
+import { type Address, encodeAbiParameters, keccak256, parseAbiParameters, zeroAddress } from "viem";
+import { CoinsAddress } from "../constants/Coins";
+
+/**
+ * Constants for AMM operations
+ */
+export const SWAP_FEE = 100n; // 1% pool fee
+export const MAX_SWAP_FEE_BPS = 10_000n; // ZAMM reverts with InvalidSwapFee above this (100%)
+export const SLIPPAGE_BPS = 100n; // 1% slippage tolerance
+export const DEADLINE_SEC = 20 * 60; // 20 minutes
+
+const BPS = 10000n;
+
+export type PoolKey = {
+  id0: bigint;
+  id1: bigint;
+  token0: Address;
+  token1: Address;
+  swapFee: bigint;
+};
+
+export type Reserves = {
+  reserve0: bigint; // ETH reserve
+  reserve1: bigint; // Coin reserve
+};
+
+/**
+ * Compute pool key structure for a coin ID for ZAMM
+ * @param coinId The coin ID to trade with ETH
+ * @param swapFee Pool fee in basis points (defaults to the 1% Coinchan pools)
+ * @returns PoolKey structure
+ */
+export const computePoolKey = (coinId: bigint, swapFee: bigint = SWAP_FEE): PoolKey => ({
+  id0: 0n,
+  id1: coinId,
+  token0: zeroAddress,
+  token1: CoinsAddress,
+  swapFee,
+});
+
+/**
+ * Compute the pool key for a direct coin/coin pool (both legs on the Coins contract, ordered by id)
+ * @param coinA One coin ID
+ * @param coinB The other coin ID
+ * @param swapFee Pool fee in basis points
+ * @returns PoolKey structure
+ */
+export const computeCoinPairPoolKey = (coinA: bigint, coinB: bigint, swapFee: bigint = SWAP_FEE): PoolKey => ({
+  id0: coinA < coinB ? coinA : coinB,
+  id1: coinA < coinB ? coinB : coinA,
+  token0: CoinsAddress,
+  token1: CoinsAddress,
+  swapFee,
+});
+
+/**
+ * Compute the ZAMM pool ID of any pool key: keccak256(abi.encode(poolKey))
+ * @param poolKey The pool key
+ * @returns Pool ID
+ */
+export const computePoolIdFromKey = ({ id0, id1, token0, token1, swapFee }: PoolKey) =>
+  BigInt(
+    keccak256(
+      encodeAbiParameters(
+        parseAbiParameters("uint256 id0, uint256 id1, address token0, address token1, uint96 swapFee"),
+        [id0, id1, token0, token1, swapFee],
+      ),
+    ),
+  );
+
+/**
+ * Compute the ZAMM pool ID for a coin's ETH pool
+ * @param coinId The coin ID
+ * @param swapFee Pool fee in basis points (defaults to the 1% Coinchan pools)
+ * @returns Pool ID
+ */
+export const computePoolId = (coinId: bigint, swapFee: bigint = SWAP_FEE) =>
+  computePoolIdFromKey(computePoolKey(coinId, swapFee));
+
+/**
+ * Apply slippage tolerance to an output amount (rounds down)
+ * @param amount Raw amount
+ * @param slippageBps Tolerance in basis points
+ * @returns Minimum amount the swap may return
+ */
+export const withSlippage = (amount: bigint, slippageBps: bigint = SLIPPAGE_BPS) =>
+  (amount * (BPS - slippageBps)) / BPS;
+
+/**
+ * Apply slippage tolerance to an input amount (rounds up), for exact-output swaps
+ * @param amount Raw input amount
+ * @param slippageBps Tolerance in basis points
+ * @returns Maximum amount the swap may pull (`amountInMax`)
+ */
+export const withSlippageCeil = (amount: bigint, slippageBps: bigint = SLIPPAGE_BPS) =>
+  (amount * (BPS + slippageBps) + BPS - 1n) / BPS;
+
+/**
+ * Helper to create a nowSec function for deadline calculations
+ * @returns Current timestamp in seconds as BigInt
+ */
+export const nowSec = () => BigInt(Math.floor(Date.now() / 1000));
+
+/**
+ * Generate a deadline timestamp in seconds
+ * @param deadlineSec Seconds from now
+ * @returns BigInt of current time + deadline window
+ */
+export const deadlineTimestamp = (deadlineSec: number = DEADLINE_SEC) => nowSec() + BigInt(deadlineSec);
+
+/**
+ * x*y=k AMM with fee — forward (amountIn → amountOut), mirrors ZAMM._getAmountOut
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, swapFee: bigint = SWAP_FEE) {
+  if (amountIn === 0n || reserveIn === 0n || reserveOut === 0n) return 0n;
+
+  const amountInWithFee = amountIn * (BPS - swapFee);
+  const numerator = amountInWithFee * reserveOut;
+  const denominator = reserveIn * BPS + amountInWithFee;
+  return numerator / denominator;
+}
+
+/**
+ * Inverse — desired amountOut → required amountIn, mirrors ZAMM._getAmountIn
+ * Returns 0n when the pool cannot supply `amountOut`.
+ */
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, swapFee: bigint = SWAP_FEE) {
+  if (amountOut === 0n || reserveIn === 0n || reserveOut === 0n || amountOut >= reserveOut) return 0n;
+
+  const numerator = reserveIn * amountOut * BPS;
+  const denominator = (reserveOut - amountOut) * (BPS - swapFee);
+  return numerator / denominator + 1n; // +1 for ceiling rounding
+}
+
+export type ExactInQuote = {
+  amountIn: bigint;
+  amountOut: bigint;
+  amountOutMin: bigint;
+};
+
+export type ExactOutQuote = {
+  amountIn: bigint;
+  amountOut: bigint;
+  amountInMax: bigint;
+};
+
+/**
+ * Quote a `swapExactIn` against an ETH/coin pool
+ * @param amountIn Input amount (ETH when `zeroForOne`, coin otherwise)
+ * @param reserves Pool reserves
+ * @param zeroForOne true for ETH → coin, false for coin → ETH
+ * @returns Expected output and the slippage-adjusted `amountOutMin`
+ */
+export function quoteExactIn(
+  amountIn: bigint,
+  reserves: Reserves,
+  zeroForOne: boolean,
+  slippageBps: bigint = SLIPPAGE_BPS,
+  swapFee: bigint = SWAP_FEE,
+): ExactInQuote {
+  const [reserveIn, reserveOut] = zeroForOne
+    ? [reserves.reserve0, reserves.reserve1]
+    : [reserves.reserve1, reserves.reserve0];
+  const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, swapFee);
+  return { amountIn, amountOut, amountOutMin: withSlippage(amountOut, slippageBps) };
+}
+
+/**
+ * Quote a `swapExactOut` against an ETH/coin pool
+ * @param amountOut Desired output amount (coin when `zeroForOne`, ETH otherwise)
+ * @param reserves Pool reserves
+ * @param zeroForOne true for ETH → coin, false for coin → ETH
+ * @returns Required input and the slippage-adjusted `amountInMax` (0n amounts if unfillable)
+ */
+export function quoteExactOut(
+  amountOut: bigint,
+  reserves: Reserves,
+  zeroForOne: boolean,
+  slippageBps: bigint = SLIPPAGE_BPS,
+  swapFee: bigint = SWAP_FEE,
+): ExactOutQuote {
+  const [reserveIn, reserveOut] = zeroForOne
+    ? [reserves.reserve0, reserves.reserve1]
+    : [reserves.reserve1, reserves.reserve0];
+  const amountIn = getAmountIn(amountOut, reserveIn, reserveOut, swapFee);
+  return { amountIn, amountOut, amountInMax: amountIn === 0n ? 0n : withSlippageCeil(amountIn, slippageBps) };
+}
+
+/**
+ * Price impact above which the UI asks for an explicit confirmation (5%)
+ */
+export const HIGH_PRICE_IMPACT_BPS = 500n;
+
+export type HopBreakdown = {
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint; // fee paid, denominated in the input token
+  midPrice: number; // output per input before the trade
+  executionPrice: number; // output per input actually received
+  priceImpactBps: bigint; // price movement caused by the trade, excluding the fee
+};
+
+/**
+ * Break a single pool hop down into mid vs execution price, fee and price impact
+ * @param amountIn Input amount
+ * @param reserveIn Reserve of the input token
+ * @param reserveOut Reserve of the output token
+ * @param swapFee Pool fee in basis points
+ * @returns Breakdown of the hop (zeroed when the pool is empty)
+ */
+export function getHopBreakdown(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  swapFee: bigint = SWAP_FEE,
+): HopBreakdown {
+  const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, swapFee);
+  const midPrice = reserveIn === 0n ? 0 : Number(reserveOut) / Number(reserveIn);
+  const executionPrice = amountIn === 0n ? 0 : Number(amountOut) / Number(amountIn);
+
+  // x*y=k: the fee-adjusted input moves the price by amountInWithFee / (reserveIn + amountInWithFee)
+  const amountInWithFee = amountIn * (BPS - swapFee);
+  const priceImpactBps = reserveIn === 0n ? 0n : (amountInWithFee * BPS) / (reserveIn * BPS + amountInWithFee);
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount: (amountIn * swapFee) / BPS,
+    midPrice,
+    executionPrice,
+    priceImpactBps,
+  };
+}
+
+/**
+ * Combine the price impact of consecutive hops: 1 - Π(1 - impact)
+ */
+export const combinePriceImpactBps = (hops: HopBreakdown[]) =>
+  BPS - hops.reduce((remaining, hop) => (remaining * (BPS - hop.priceImpactBps)) / BPS, BPS);
@@ -0,0 +1,358 @@
+import type { Address, Hash } from "viem";
+import { parseIpfsUri } from "./ipfs";
+
+/**
+ * Persistent coin cache in IndexedDB, one record per coin.
+ *
+ * Metadata (resolved from the tokenURI) and market data (reserves, liquidity) live in separate tables:
+ * metadata is effectively immutable and only refetched when its tokenURI changes or the record expires,
+ * while market records are rewritten on every sync. Records are keyed by coinId as a decimal string;
+ * bigint fields are stored natively by the structured clone.
+ *
+ * Pool history (the `Swap` and `Sync` logs of a pool over a contiguous block range) is kept alongside, so charts
+ * only have to fetch the blocks mined since they were last open. Holder balances, summed from a coin's `Transfer`
+ * logs, are kept the same way.
+ */
+
+const DB_NAME = "coinchan";
+export const DB_VERSION = 4;
+
+const METADATA_STORE = "metadata";
+const MARKET_STORE = "market";
+const SYNC_STORE = "sync";
+const POOL_HISTORY_STORE = "pool-history";
+const HOLDERS_STORE = "holders";
+
+// Single-blob cache this store replaces; migrated and removed on first open
+const LEGACY_CACHE_KEY = "coinchan-metadata-cache";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Failed lookups are retried after this long */
+const MISSING_METADATA_TTL_MS = 60 * 60 * 1000;
+/** `/ipfs/` content never changes; anything else (https, ipns) can, so it's refreshed weekly */
+const MUTABLE_METADATA_TTL_MS = 7 * DAY_MS;
+/** Market records untouched for this long belong to coins we no longer see and are pruned */
+const MARKET_MAX_AGE_MS = 30 * DAY_MS;
+/** Pool history and holder balances nobody has looked at for this long are dropped; they can be refetched */
+const POOL_HISTORY_MAX_AGE_MS = 30 * DAY_MS;
+
+export type CoinMetadataRecord = {
+  coinId: string;
+  tokenURI: string;
+  metadata: Record<string, unknown> | null; // null when the lookup failed
+  name: string | null;
+  symbol: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  fetchedAt: number;
+};
+
+/** A pool's trading over the last 24h */
+export type CoinStats = {
+  volume24h: number; // ETH side of every swap
+  swaps24h: number;
+  fees24h: number; // in ETH
+  priceChange24h: number | null; // fraction, 0.1 = +10%; null without a pool
+};
+
+export type CoinMarketRecord = {
+  coinId: string;
+  index: number; // position in the Coinchan registry, i.e. launch order
+  tokenURI?: string; // kept so coins restored without a metadata record can still be looked up; absent on older records
+  reserve0: bigint;
+  reserve1: bigint;
+  poolId: bigint;
+  liquidity: bigint;
+  stats?: CoinStats | null; // absent on records written before stats were kept
+  updatedAt: number;
+};
+
+/** A ZAMM `Swap` log. Token0 is ETH, token1 the coin. */
+export type PoolSwapLog = {
+  poolId: bigint;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+  timestamp: number; // unix seconds
+  sender: Address;
+  to: Address;
+  amount0In: bigint;
+  amount1In: bigint;
+  amount0Out: bigint;
+  amount1Out: bigint;
+};
+
+/** A ZAMM `Sync` log: the pool's reserves after a swap, mint or burn */
+export type PoolSyncLog = {
+  poolId: bigint;
+  blockNumber: bigint;
+  logIndex: number;
+  timestamp: number; // unix seconds
+  reserve0: bigint;
+  reserve1: bigint;
+};
+
+export type PoolHistoryRecord = {
+  poolId: string;
+  fromBlock: bigint; // first block covered, inclusive
+  toBlock: bigint; // last block covered, inclusive
+  swaps: PoolSwapLog[]; // in chain order
+  syncs: PoolSyncLog[]; // in chain order
+  updatedAt: number;
+};
+
+/** Net balances from a coin's `Transfer` logs over a contiguous block range */
+export type CoinHoldersRecord = {
+  coinId: string;
+  fromBlock: bigint; // first block covered, inclusive; scanned backwards until the coin's creation
+  toBlock: bigint; // last block covered, inclusive
+  complete: boolean; // the range reaches back to the coin's creation, so the balances are whole
+  balances: Map<Address, bigint>; // negative for addresses that received coins before `fromBlock`
+  updatedAt: number;
+};
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+/**
+ * Schema migrations, indexed by the version they upgrade *to* minus one. Append a migration and bump
+ * `DB_VERSION` to change the schema; never edit a migration that has shipped.
+ */
+const MIGRATIONS: Migration[] = [
+  // v1: metadata and market tables, seeded from the legacy localStorage blob
+  (db, tx) => {
+    db.createObjectStore(METADATA_STORE, { keyPath: "coinId" });
+    db.createObjectStore(MARKET_STORE, { keyPath: "coinId" });
+    migrateLegacyCache(tx);
+  },
+  // v2: market records carry their registry index for incremental sync, plus a sync cursor table.
+  // v1 records have no index and are cheap to refetch, so they're dropped rather than backfilled
+  (db, tx) => {
+    tx.objectStore(MARKET_STORE).clear();
+    db.createObjectStore(SYNC_STORE, { keyPath: "key" });
+  },
+  // v3: pool history for price charts and trade feeds
+  (db) => {
+    db.createObjectStore(POOL_HISTORY_STORE, { keyPath: "poolId" });
+  },
+  // v4: holder balances
+  (db) => {
+    db.createObjectStore(HOLDERS_STORE, { keyPath: "coinId" });
+  },
+];
+
+// Shape of a coin in the legacy blob, i.e. `CoinData` as it was serialized
+type LegacyCachedCoin = Omit<CoinMetadataRecord, "coinId" | "fetchedAt"> &
+  Omit<CoinMarketRecord, "coinId" | "index" | "updatedAt"> & { coinId: bigint };
+
+function migrateLegacyCache(tx: IDBTransaction) {
+  try {
+    const cached = localStorage.getItem(LEGACY_CACHE_KEY);
+    if (!cached) return;
+
+    // The blob encoded bigints as "123n"
+    const coins = JSON.parse(cached, (_key, value) =>
+      typeof value === "string" && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value,
+    ) as LegacyCachedCoin[];
+    const now = Date.now();
+    const metadataStore = tx.objectStore(METADATA_STORE);
+    const marketStore = tx.objectStore(MARKET_STORE);
+
+    for (const coin of coins) {
+      const coinId = coin.coinId.toString();
+      // Only carry over successful lookups; failures get retried straight away
+      if (coin.metadata) {
+        metadataStore.put({
+          coinId,
+          tokenURI: coin.tokenURI,
+          metadata: coin.metadata,
+          name: coin.name,
+          symbol: coin.symbol,
+          description: coin.description,
+          imageUrl: coin.imageUrl,
+          fetchedAt: now,
+        } satisfies CoinMetadataRecord);
+      }
+      // v1 market records predate the registry index
+      marketStore.put({
+        coinId,
+        reserve0: BigInt(coin.reserve0),
+        reserve1: BigInt(coin.reserve1),
+        poolId: BigInt(coin.poolId),
+        liquidity: BigInt(coin.liquidity),
+        updatedAt: now,
+      } satisfies Omit<CoinMarketRecord, "index">);
+    }
+    localStorage.removeItem(LEGACY_CACHE_KEY);
+  } catch (error) {
+    // A corrupt blob isn't worth failing the upgrade over; it's just dropped
+    console.error("Failed to migrate legacy metadata cache:", error);
+    localStorage.removeItem(LEGACY_CACHE_KEY);
+  }
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open (and upgrade) the database once per session
+ * @returns The database, or null where IndexedDB isn't available (private mode in some browsers, SSR)
+ */
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction as IDBTransaction;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](request.result, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; let it proceed and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      console.error("Failed to open coin store:", request.error);
+      resolve(null);
+    };
+    request.onblocked = () => console.warn("Coin store upgrade is waiting for other tabs to close");
+  });
+  return dbPromise;
+}
+
+/**
+ * Whether a metadata record can be used for a coin's current tokenURI
+ */
+export function isMetadataFresh(record: CoinMetadataRecord | undefined, tokenURI: string, now = Date.now()) {
+  if (!record || record.tokenURI !== tokenURI) return false;
+  const age = now - record.fetchedAt;
+  if (!record.metadata) return age < MISSING_METADATA_TTL_MS;
+  return parseIpfsUri(tokenURI)?.protocol === "ipfs" || age < MUTABLE_METADATA_TTL_MS;
+}
+
+async function getAll<T>(storeName: string): Promise<Map<string, T>> {
+  const db = await openDb();
+  if (!db) return new Map();
+  const records = await promisify(db.transaction(storeName, "readonly").objectStore(storeName).getAll());
+  return new Map(records.map((record: T & { coinId: string }) => [record.coinId, record]));
+}
+
+/** Every stored metadata record, by coinId */
+export const getAllMetadata = () => getAll<CoinMetadataRecord>(METADATA_STORE);
+
+/** Every stored market record, by coinId */
+export const getAllMarket = () => getAll<CoinMarketRecord>(MARKET_STORE);
+
+/** A single coin's metadata record */
+export async function getMetadata(coinId: bigint): Promise<CoinMetadataRecord | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  return promisify(
+    db.transaction(METADATA_STORE, "readonly").objectStore(METADATA_STORE).get(coinId.toString()),
+  ) as Promise<CoinMetadataRecord | undefined>;
+}
+
+async function putAll(storeName: string, records: object[]) {
+  if (records.length === 0) return;
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction(storeName, "readwrite");
+  const store = tx.objectStore(storeName);
+  for (const record of records) store.put(record);
+  await transactionDone(tx);
+}
+
+/** Write metadata records, e.g. as each coin's lookup settles */
+export const putMetadata = (...records: CoinMetadataRecord[]) => putAll(METADATA_STORE, records);
+
+/** Write market records in one transaction */
+export const putMarket = (records: CoinMarketRecord[]) => putAll(MARKET_STORE, records);
+
+/** Progress of the registry sync, so a reload picks up where the last session stopped */
+export type CoinSyncState = {
+  key: "coins";
+  lastFullRefresh: number; // when every coin's market data was last refreshed
+};
+
+export async function getSyncState(): Promise<CoinSyncState | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  return promisify(db.transaction(SYNC_STORE, "readonly").objectStore(SYNC_STORE).get("coins")) as Promise<
+    CoinSyncState | undefined
+  >;
+}
+
+export const putSyncState = (state: CoinSyncState) => putAll(SYNC_STORE, [state]);
+
+/** The stored history of a pool */
+export async function getPoolHistory(poolId: bigint): Promise<PoolHistoryRecord | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  return promisify(
+    db.transaction(POOL_HISTORY_STORE, "readonly").objectStore(POOL_HISTORY_STORE).get(poolId.toString()),
+  ) as Promise<PoolHistoryRecord | undefined>;
+}
+
+export const putPoolHistory = (record: PoolHistoryRecord) => putAll(POOL_HISTORY_STORE, [record]);
+
+/** The stored holder balances of a coin */
+export async function getCoinHolders(coinId: bigint): Promise<CoinHoldersRecord | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  return promisify(
+    db.transaction(HOLDERS_STORE, "readonly").objectStore(HOLDERS_STORE).get(coinId.toString()),
+  ) as Promise<CoinHoldersRecord | undefined>;
+}
+
+export const putCoinHolders = (record: CoinHoldersRecord) => putAll(HOLDERS_STORE, [record]);
+
+/**
+ * Drop market records that haven't been refreshed within `MARKET_MAX_AGE_MS`, along with their metadata,
+ * and pool history and holder balances that haven't been opened within `POOL_HISTORY_MAX_AGE_MS`
+ */
+export async function pruneExpired(now = Date.now()) {
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction([MARKET_STORE, METADATA_STORE, POOL_HISTORY_STORE, HOLDERS_STORE], "readwrite");
+  const market = tx.objectStore(MARKET_STORE);
+  const metadata = tx.objectStore(METADATA_STORE);
+  const records = (await promisify(market.getAll())) as CoinMarketRecord[];
+  for (const record of records) {
+    if (now - record.updatedAt > MARKET_MAX_AGE_MS) {
+      market.delete(record.coinId);
+      metadata.delete(record.coinId);
+    }
+  }
+  const poolHistory = tx.objectStore(POOL_HISTORY_STORE);
+  const histories = (await promisify(poolHistory.getAll())) as PoolHistoryRecord[];
+  for (const record of histories) {
+    if (now - record.updatedAt > POOL_HISTORY_MAX_AGE_MS) poolHistory.delete(record.poolId);
+  }
+  const holders = tx.objectStore(HOLDERS_STORE);
+  const holderRecords = (await promisify(holders.getAll())) as CoinHoldersRecord[];
+  for (const record of holderRecords) {
+    if (now - record.updatedAt > POOL_HISTORY_MAX_AGE_MS) holders.delete(record.coinId);
+  }
+  await transactionDone(tx);
+}
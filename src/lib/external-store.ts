@@ -0,0 +1,65 @@
+/**
+ * Module-level state shared by every component that reads it through `useSyncExternalStore`
+ */
+export type ExternalStore<T> = {
+  get: () => T;
+  /** Replace the value and re-render every subscriber */
+  set: (next: T) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+/**
+ * @param read Reads the value from where it lives, on creation and whenever `event` fires
+ * @param event Window event saying the value changed outside the app, e.g. `popstate`; one listener serves every
+ *   subscriber, so the value is re-read once per event
+ * @param accept Skips events that aren't about this value
+ */
+export function createExternalStore<T, K extends keyof WindowEventMap>(
+  read: () => T,
+  event?: K,
+  accept: (event: WindowEventMap[K]) => boolean = () => true,
+): ExternalStore<T> {
+  let current = read();
+  const listeners = new Set<() => void>();
+
+  const set = (next: T) => {
+    current = next;
+    for (const listener of listeners) listener();
+  };
+
+  if (event) {
+    window.addEventListener(event, (windowEvent) => {
+      if (accept(windowEvent)) set(read());
+    });
+  }
+
+  return {
+    get: () => current,
+    set,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * A store persisted as JSON under `key` in localStorage, kept in sync with other tabs
+ * @param load Reads and validates the stored value, falling back to a default
+ */
+export function createLocalStorageStore<T>(key: string, load: () => T): ExternalStore<T> {
+  const store = createExternalStore(load, "storage", (event) => event.key === key);
+  return {
+    ...store,
+    set: (next) => {
+      try {
+        localStorage.setItem(key, JSON.stringify(next));
+      } catch (error) {
+        console.error(`Failed to save ${key}:`, error);
+      }
+      store.set(next);
+    },
+  };
+}
@@ -0,0 +1,373 @@
+/**
+ * IPFS content resolution shared by every image and metadata consumer.
+ *
+ * Gateways are raced in parallel and each outcome feeds a per-session health score, so slow or dead
+ * gateways sink to the bottom of the ranking and later lookups start from the ones that work.
+ */
+
+/** Path-style gateways, in default preference order */
+export const IPFS_GATEWAYS = [
+  "https://content.wrappr.wtf",
+  "https://gateway.pinata.cloud",
+  "https://ipfs.io",
+  "https://dweb.link",
+  "https://cloudflare-ipfs.com",
+  "https://ipfs.fleek.co",
+] as const;
+
+/** How many of the best-ranked gateways are raced at once; the rest are a second wave */
+const RACE_WIDTH = 3;
+const DEFAULT_TIMEOUT_MS = 8_000;
+// Latency assumed for a gateway we haven't heard from yet
+const UNKNOWN_LATENCY_MS = 1_500;
+
+export type IpfsProtocol = "ipfs" | "ipns";
+
+export type IpfsPath = {
+  protocol: IpfsProtocol;
+  root: string; // CID for ipfs, key or DNSLink name for ipns
+  path: string; // subpath with leading "/", or ""
+};
+
+const CID_V0 = /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/;
+// base32 (b…) and base36 (k…, used by IPNS keys) multibase CIDv1
+const CID_V1 = /^(b[a-z2-7]{58,}|k[0-9a-z]{50,})$/;
+
+export const isCid = (value: string) => CID_V0.test(value) || CID_V1.test(value);
+
+const splitRoot = (protocol: IpfsProtocol, rest: string): IpfsPath | null => {
+  const slash = rest.search(/[/?#]/);
+  const root = slash === -1 ? rest : rest.slice(0, slash);
+  const path = slash === -1 ? "" : rest.slice(slash);
+  if (!root) return null;
+  if (protocol === "ipfs" && !isCid(root)) return null;
+  return { protocol, root, path: path === "/" ? "" : path };
+};
+
+/**
+ * Recognise the ways IPFS content shows up in token URIs and metadata: `ipfs://` and `ipns://` URIs,
+ * `/ipfs/…` paths, path- and subdomain-style gateway URLs, and bare CIDv0/v1 with optional subpaths
+ * @returns The content path, or null for anything that isn't IPFS (plain https, data: URIs, …)
+ */
+export function parseIpfsUri(uri: string): IpfsPath | null {
+  const value = uri.trim();
+  if (!value) return null;
+
+  const scheme = /^(ipfs|ipns):\/\/(.*)$/i.exec(value);
+  if (scheme) {
+    const protocol = scheme[1].toLowerCase() as IpfsProtocol;
+    // Tolerate the common `ipfs://ipfs/<cid>` mistake
+    const rest = scheme[2].replace(/^(ipfs|ipns)\//i, "");
+    return splitRoot(protocol, rest);
+  }
+
+  const pathStyle = /^(?:https?:\/\/[^/]+)?\/(ipfs|ipns)\/(.+)$/i.exec(value);
+  if (pathStyle) return splitRoot(pathStyle[1].toLowerCase() as IpfsProtocol, pathStyle[2]);
+
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      const url = new URL(value);
+      // Subdomain gateways: https://<cid>.ipfs.<gateway>/<path>
+      const subdomain = /^([^.]+)\.(ipfs|ipns)\./i.exec(url.hostname);
+      if (subdomain) {
+        return splitRoot(
+          subdomain[2].toLowerCase() as IpfsProtocol,
+          `${subdomain[1]}${url.pathname}${url.search}${url.hash}`,
+        );
+      }
+    } catch {
+      return null;
+    }
+    return null;
+  }
+
+  return splitRoot("ipfs", value);
+}
+
+const toGatewayUrl = (gateway: string, { protocol, root, path }: IpfsPath) => `${gateway}/${protocol}/${root}${path}`;
+
+const contentKey = ({ protocol, root, path }: IpfsPath) => `${protocol}/${root}${path}`;
+
+type GatewayHealth = {
+  successes: number;
+  failures: number;
+  latencyMs: number | null; // moving average of successful requests
+};
+
+const health = new Map<string, GatewayHealth>();
+
+// Winning URL per content path, so repeat renders of the same image skip the race
+const resolvedUrls = new Map<string, string>();
+
+// In-flight and settled JSON lookups; /ipfs/ content is immutable so these live for the session
+const jsonCache = new Map<string, Promise<unknown>>();
+
+const getHealth = (gateway: string): GatewayHealth => {
+  let entry = health.get(gateway);
+  if (!entry) {
+    entry = { successes: 0, failures: 0, latencyMs: null };
+    health.set(gateway, entry);
+  }
+  return entry;
+};
+
+function recordSuccess(gateway: string, latencyMs: number) {
+  const entry = getHealth(gateway);
+  entry.successes += 1;
+  entry.latencyMs = entry.latencyMs === null ? latencyMs : entry.latencyMs * 0.7 + latencyMs * 0.3;
+}
+
+function recordFailure(gateway: string) {
+  getHealth(gateway).failures += 1;
+}
+
+// Expected time to a good response: latency divided by a smoothed success rate. Lower is better
+const gatewayScore = (gateway: string) => {
+  const { successes, failures, latencyMs } = getHealth(gateway);
+  const successRate = (successes + 1) / (successes + failures + 2);
+  return (latencyMs ?? UNKNOWN_LATENCY_MS) / successRate;
+};
+
+/**
+ * Gateways ordered by this session's health scores; ties keep the default preference order
+ */
+export const rankedGateways = (): string[] =>
+  IPFS_GATEWAYS.map((gateway, index) => ({ gateway, index, score: gatewayScore(gateway) }))
+    .sort((a, b) => a.score - b.score || a.index - b.index)
+    .map(({ gateway }) => gateway);
+
+/** Snapshot of gateway health, best first, for diagnostics */
+export const getGatewayHealth = () =>
+  rankedGateways().map((gateway) => ({ gateway, score: gatewayScore(gateway), ...getHealth(gateway) }));
+
+/**
+ * Every gateway URL for an IPFS URI, best-ranked first
+ * @returns The URI itself for non-IPFS URLs, or an empty list for an empty URI
+ */
+export function ipfsGatewayUrls(uri: string): string[] {
+  const parsed = parseIpfsUri(uri);
+  if (!parsed) return uri ? [uri] : [];
+  return rankedGateways().map((gateway) => toGatewayUrl(gateway, parsed));
+}
+
+/**
+ * Best URL to use right now for an IPFS URI, without waiting on the network: the URL that already won a
+ * race for this content, else the best-ranked gateway. Non-IPFS URLs are returned as-is.
+ */
+export function resolveIpfsUrl(uri: string): string {
+  if (!uri) return "";
+  const parsed = parseIpfsUri(uri);
+  if (!parsed) return uri;
+  return resolvedUrls.get(contentKey(parsed)) ?? toGatewayUrl(rankedGateways()[0], parsed);
+}
+
+type Attempt<T> = { gateway: string | null; start: (signal: AbortSignal) => Promise<T> };
+
+/**
+ * Run attempts in parallel and settle with the first success, aborting the rest. Losers that were
+ * cancelled aren't counted against their gateway; errors and timeouts are.
+ */
+function race<T>(
+  attempts: Attempt<T>[],
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<{ value: T; gateway: string | null }> {
+  return new Promise((resolve, reject) => {
+    if (attempts.length === 0) {
+      reject(new Error("No IPFS gateways to try"));
+      return;
+    }
+
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+
+    const controllers = attempts.map(() => new AbortController());
+    const failed = attempts.map(() => false);
+    let pending = attempts.length;
+    let settled = false;
+    const errors: unknown[] = [];
+
+    const abortAll = () => {
+      for (const controller of controllers) controller.abort();
+    };
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      abortAll();
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener("abort", onAbort);
+      abortAll();
+      // Only the attempts still running were too slow; the others already counted their failure
+      attempts.forEach(({ gateway }, index) => gateway && !failed[index] && recordFailure(gateway));
+      reject(new Error(`IPFS request timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    attempts.forEach(({ gateway, start }, index) => {
+      const startedAt = performance.now();
+      start(controllers[index].signal).then(
+        (value) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          if (gateway) recordSuccess(gateway, performance.now() - startedAt);
+          controllers.forEach((controller, i) => i !== index && controller.abort());
+          resolve({ value, gateway });
+        },
+        (error) => {
+          if (settled) return;
+          if (gateway) recordFailure(gateway);
+          failed[index] = true;
+          errors.push(error);
+          pending -= 1;
+          if (pending === 0) {
+            settled = true;
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+            reject(errors[errors.length - 1]);
+          }
+        },
+      );
+    });
+  });
+}
+
+// Race the top gateways; if they all fail, give the remaining ones a chance before giving up
+async function raceGateways<T>(
+  parsed: IpfsPath,
+  start: (url: string, signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<{ value: T; url: string }> {
+  const gateways = rankedGateways();
+  const waves = [gateways.slice(0, RACE_WIDTH), gateways.slice(RACE_WIDTH)];
+  let lastError: unknown = new Error("No IPFS gateways to try");
+
+  for (const wave of waves) {
+    if (wave.length === 0) continue;
+    try {
+      const { value, gateway } = await race(
+        wave.map((gateway) => ({ gateway, start: (s) => start(toGatewayUrl(gateway, parsed), s) })),
+        timeoutMs,
+        signal,
+      );
+      const url = toGatewayUrl(gateway as string, parsed);
+      resolvedUrls.set(contentKey(parsed), url);
+      return { value, url };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+const fetchOk = async (url: string, signal: AbortSignal) => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+  return response;
+};
+
+/**
+ * Fetch a URI, racing IPFS gateways when it points at IPFS content
+ * @returns The first successful response
+ * @throws When every gateway fails or times out, or the URI isn't http(s) or IPFS
+ */
+export async function fetchIpfs(
+  uri: string,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, signal }: { timeoutMs?: number; signal?: AbortSignal } = {},
+): Promise<Response> {
+  const parsed = parseIpfsUri(uri);
+  if (!parsed) {
+    if (!/^https?:\/\//i.test(uri)) throw new Error(`Unsupported URI: ${uri}`);
+    const { value } = await race([{ gateway: null, start: (s) => fetchOk(uri, s) }], timeoutMs, signal);
+    return value;
+  }
+  const { value } = await raceGateways(parsed, fetchOk, timeoutMs, signal);
+  return value;
+}
+
+/**
+ * Fetch and parse JSON (token metadata) through the resolver. Immutable `/ipfs/` content is cached for
+ * the session and concurrent lookups of the same URI share one request.
+ */
+export function fetchIpfsJson<T = Record<string, unknown>>(uri: string, options?: { timeoutMs?: number }): Promise<T> {
+  const parsed = parseIpfsUri(uri);
+  const key = parsed?.protocol === "ipfs" ? contentKey(parsed) : null;
+  const cached = key ? jsonCache.get(key) : undefined;
+  if (cached) return cached as Promise<T>;
+
+  const request = fetchIpfs(uri, options).then((response) => response.json() as Promise<T>);
+  if (key) {
+    jsonCache.set(key, request);
+    // Don't pin failures; the next caller should try again
+    request.catch(() => jsonCache.delete(key));
+  }
+  return request;
+}
+
+const preloadImage = (url: string, signal: AbortSignal) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    const cleanup = () => {
+      image.onload = null;
+      image.onerror = null;
+    };
+    image.onload = () => {
+      cleanup();
+      resolve(url);
+    };
+    image.onerror = () => {
+      cleanup();
+      reject(new Error(`Image failed to load: ${url}`));
+    };
+    signal.addEventListener("abort", () => {
+      cleanup();
+      // Clearing src cancels the download in every major browser
+      image.src = "";
+      reject(new DOMException("Aborted", "AbortError"));
+    });
+    image.src = url;
+  });
+
+/**
+ * Load an image URI, racing gateways for IPFS content
+ * @returns A URL that has finished loading and can be rendered straight away
+ */
+export async function loadIpfsImage(uri: string, { timeoutMs = DEFAULT_TIMEOUT_MS } = {}): Promise<string> {
+  const parsed = parseIpfsUri(uri);
+  if (!parsed) {
+    const { value } = await race([{ gateway: null, start: (s) => preloadImage(uri, s) }], timeoutMs);
+    return value;
+  }
+  const known = resolvedUrls.get(contentKey(parsed));
+  if (known) return known;
+  const { url } = await raceGateways(parsed, preloadImage, timeoutMs);
+  return url;
+}
+
+/**
+ * Image for a coin's token URI, which may point at a metadata JSON document or straight at an image
+ * @returns The image URI as written in the metadata (resolve it with `loadIpfsImage`), or null if none
+ */
+export async function resolveTokenImageUri(tokenUri: string): Promise<string | null> {
+  if (!tokenUri || tokenUri === "N/A") return null;
+  if (tokenUri.startsWith("data:")) return tokenUri;
+
+  const response = await fetchIpfs(tokenUri);
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!contentType.includes("json")) {
+    response.body?.cancel().catch(() => {});
+    return tokenUri;
+  }
+  const metadata = await response.json();
+  return typeof metadata?.image === "string" && metadata.image ? metadata.image : null;
+}
@@ -0,0 +1,195 @@
+import { type Log, isAddressEqual, parseEther, parseEventLogs, zeroAddress } from "viem";
+import { CoinsAbi, CoinsAddress } from "../constants/Coins";
+import { MAX_SWAP_FEE_BPS, SWAP_FEE, getHopBreakdown } from "./amm";
+
+/** Every coin launched from the form has this fixed supply (18 decimals) */
+export const TOTAL_SUPPLY = 21_000_000;
+
+export const DEFAULT_SEED_ETH = "0.01";
+
+export const DEFAULT_VESTING_DAYS = 182; // ~6 months
+export const MAX_VESTING_DAYS = 3650;
+
+/** Fee tiers offered as presets, in basis points */
+export const SWAP_FEE_PRESETS_BPS = [30, 100, 300] as const;
+
+/**
+ * How the coin is created:
+ * - `makeLocked`: creator supply sent straight to the creator; the pool's LP tokens are locked in Coinchan until the
+ *   unlock, vesting linearly or all at once. Coin ownership is given up
+ * - `makeHold`: creator supply and LP tokens both sent to the creator, Coinchan keeps nothing. Coin ownership is
+ *   given up
+ * - `make`: creator supply and LP tokens both sent to the creator, who keeps coin ownership (minting, URI updates)
+ * - `create`: `Coins.create` only; the whole supply goes to the creator and no pool is seeded
+ */
+export type LaunchMode = "makeLocked" | "makeHold" | "make" | "create";
+
+export type VestingSchedule = "linear" | "cliff";
+
+export const LAUNCH_MODES: Record<LaunchMode, { label: string; description: string; createsPool: boolean }> = {
+  makeLocked: {
+    label: "Locked",
+    description: "Seed a pool and lock its liquidity until the unlock date; your tokens go to your wallet.",
+    createsPool: true,
+  },
+  makeHold: {
+    label: "Held",
+    description: "Seed a pool; your tokens and its liquidity go to your wallet. You give up ownership of the coin.",
+    createsPool: true,
+  },
+  make: {
+    label: "Unlocked",
+    description: "Seed a pool; your tokens and its liquidity go to your wallet. You keep ownership of the coin.",
+    createsPool: true,
+  },
+  create: {
+    label: "Coin only",
+    description: "Mint the full supply to your wallet without a pool.",
+    createsPool: false,
+  },
+};
+
+export type LaunchParams = {
+  mode: LaunchMode;
+  swapFeeBps: number;
+  vestingDays: number;
+  schedule: VestingSchedule;
+  creatorSupply: number; // whole coins
+  seedEth: string; // ETH deposited into the pool, as typed
+};
+
+export const DEFAULT_LAUNCH_PARAMS: LaunchParams = {
+  mode: "makeLocked",
+  swapFeeBps: Number(SWAP_FEE),
+  vestingDays: DEFAULT_VESTING_DAYS,
+  schedule: "linear",
+  creatorSupply: 0,
+  seedEth: DEFAULT_SEED_ETH,
+};
+
+/**
+ * Parse a typed ETH amount
+ * @returns The amount in wei, or null if it isn't a valid decimal
+ */
+export const parseEthAmount = (value: string): bigint | null => {
+  try {
+    return parseEther(value.trim() as `${number}`);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check launch parameters against the contracts' bounds
+ * @returns A user-facing error, or null when the launch can be submitted
+ */
+export function validateLaunchParams({
+  mode,
+  swapFeeBps,
+  vestingDays,
+  creatorSupply,
+  seedEth,
+}: LaunchParams): string | null {
+  // Coins.create mints the whole supply to the creator; there's no split, fee or lockup to check
+  if (mode === "create") return null;
+
+  if (!Number.isInteger(creatorSupply) || creatorSupply < 0 || creatorSupply > TOTAL_SUPPLY) {
+    return `Your tokens must be a whole number between 0 and ${TOTAL_SUPPLY.toLocaleString()}.`;
+  }
+
+  if (creatorSupply === TOTAL_SUPPLY) return "Leave some supply for the pool.";
+  const seed = parseEthAmount(seedEth);
+  if (seed === null || seed <= 0n) return "Enter how much ETH to seed the pool with.";
+  if (!Number.isInteger(swapFeeBps) || swapFeeBps < 0 || BigInt(swapFeeBps) > MAX_SWAP_FEE_BPS) {
+    return `Swap fee must be a whole number of basis points between 0 and ${MAX_SWAP_FEE_BPS.toString()}.`;
+  }
+  if (mode === "makeLocked" && (!Number.isFinite(vestingDays) || vestingDays < 1 || vestingDays > MAX_VESTING_DAYS)) {
+    return `Unlock must be between 1 day and ${MAX_VESTING_DAYS} days away.`;
+  }
+  return null;
+}
+
+/**
+ * Unlock timestamp for `makeLocked`, in unix seconds
+ */
+export const unlockTimestamp = (vestingDays: number, from: number = Date.now()) =>
+  BigInt(Math.floor(from / 1000) + Math.round(vestingDays * 86_400));
+
+export type LaunchPreview = {
+  poolSupply: number;
+  creatorShare: number; // 0-1
+  initialPriceEth: number; // ETH per coin when the pool opens
+  fdvEth: number; // initial price × total supply
+  firstBuy: {
+    coinsOut: bigint;
+    priceImpactBps: bigint;
+    priceAfterEth: number; // pool price once the buy has settled
+    priceMove: number; // relative change of the pool price, e.g. 0.25 = +25%
+  } | null;
+};
+
+/**
+ * Supply split, opening price and the effect of a first buy on a freshly seeded pool
+ * @param creatorSupply Whole coins kept by the creator
+ * @param seedEth ETH deposited into the pool alongside the pool supply, in wei
+ * @param swapFeeBps Pool fee in basis points
+ * @param firstBuyEth Size of the hypothetical first buy, in wei
+ */
+export function previewLaunch({
+  creatorSupply,
+  seedEth,
+  swapFeeBps,
+  firstBuyEth = 0n,
+}: {
+  creatorSupply: number;
+  seedEth: bigint;
+  swapFeeBps: number;
+  firstBuyEth?: bigint;
+}): LaunchPreview {
+  const poolSupply = TOTAL_SUPPLY - creatorSupply;
+  const reserve0 = seedEth;
+  const reserve1 = poolSupply > 0 ? parseEther(poolSupply.toString()) : 0n;
+
+  // Constant-product pool opens at reserve0 / reserve1
+  const initialPriceEth = reserve1 > 0n ? Number(reserve0) / Number(reserve1) : 0;
+
+  let firstBuy: LaunchPreview["firstBuy"] = null;
+  if (firstBuyEth > 0n && reserve0 > 0n && reserve1 > 0n) {
+    const { amountOut, priceImpactBps } = getHopBreakdown(firstBuyEth, reserve0, reserve1, BigInt(swapFeeBps));
+    // The whole input, fee included, stays in the pool
+    const priceAfterEth = Number(reserve0 + firstBuyEth) / Number(reserve1 - amountOut);
+    firstBuy = { coinsOut: amountOut, priceImpactBps, priceAfterEth, priceMove: priceAfterEth / initialPriceEth - 1 };
+  }
+
+  return {
+    poolSupply,
+    creatorShare: creatorSupply / TOTAL_SUPPLY,
+    initialPriceEth,
+    fdvEth: initialPriceEth * TOTAL_SUPPLY,
+    firstBuy,
+  };
+}
+
+/**
+ * Read the ID of a freshly created coin from a launch receipt's `Coins` logs.
+ *
+ * `Coins` emits `MetadataSet(id)` when the coin is created and a `Transfer` from the zero address
+ * for every mint; the first is preferred and the mint is the fallback.
+ * @param logs Receipt logs of a launch (any `LaunchMode`)
+ * @returns The new coin ID, or null if the receipt didn't create one
+ */
+export function decodeLaunchedCoinId(logs: Log[]): bigint | null {
+  const coinLogs = logs.filter((log) => isAddressEqual(log.address, CoinsAddress));
+  const events = parseEventLogs({ abi: CoinsAbi, logs: coinLogs, eventName: ["MetadataSet", "Transfer"] });
+
+  // The ABI's event inputs are unnamed, so the args decode positionally
+  const metadataSet = events.find((event) => event.eventName === "MetadataSet");
+  if (metadataSet) return (metadataSet.args as readonly [bigint])[0];
+
+  for (const event of events) {
+    if (event.eventName !== "Transfer") continue;
+    const [, from, , id] = event.args as unknown as readonly [string, string, string, bigint, bigint];
+    if (isAddressEqual(from as `0x${string}`, zeroAddress)) return id;
+  }
+  return null;
+}
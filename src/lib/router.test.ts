@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { computePoolIdFromKey, getAmountOut, withSlippage } from "./amm";
+import { ROUTE_SAFETY_MARGIN_BPS, buildCandidateRoutes, quoteRoute } from "./router";
+
+const ETH = 10n ** 18n;
+const SOURCE = 1n;
+const TARGET = 2n;
+
+// Source → ETH → target, both pools 1 ETH against 1M coins
+const route = buildCandidateRoutes(SOURCE, TARGET).find((candidate) => candidate.hops.length === 2);
+const reserves = new Map(
+  (route?.hops ?? []).map((hop) => [
+    computePoolIdFromKey(hop.poolKey).toString(),
+    { reserve0: ETH, reserve1: 1_000_000n * ETH },
+  ]),
+);
+
+describe("quoteRoute", () => {
+  it("spends nearly all of each intermediate output", () => {
+    if (!route) throw new Error("no two-hop route");
+    const quote = quoteRoute(route, 1_000n * ETH, reserves, 100n);
+    if (!quote) throw new Error("no quote");
+
+    const [first, second] = quote.hops;
+    expect(second.amountIn).toBe(withSlippage(first.amountOut, ROUTE_SAFETY_MARGIN_BPS));
+    // The first hop has to deliver the whole spend, so the next hop never falls back to the wallet
+    expect(first.amountOutMin).toBe(second.amountIn);
+    expect(quote.amountOutMin).toBe(withSlippage(second.amountOut, 100n));
+    expect(quote.ethRefund).toBe(first.amountOut - second.amountIn);
+  });
+
+  it("sizes the next spend from simulated outputs", () => {
+    if (!route) throw new Error("no two-hop route");
+    const simulatedFirst = getAmountOut(1_000n * ETH, 1_000_000n * ETH, ETH) - 1_000n;
+    const quote = quoteRoute(route, 1_000n * ETH, reserves, 100n, [simulatedFirst, 123n]);
+    expect(quote?.hops[1].amountIn).toBe(withSlippage(simulatedFirst, ROUTE_SAFETY_MARGIN_BPS));
+    expect(quote?.amountOut).toBe(123n);
+  });
+
+  it("caps the margin at the slippage tolerance", () => {
+    if (!route) throw new Error("no two-hop route");
+    const quote = quoteRoute(route, 1_000n * ETH, reserves, 0n);
+    expect(quote?.hops[1].amountIn).toBe(quote?.hops[0].amountOut);
+  });
+});
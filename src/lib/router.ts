@@ -0,0 +1,344 @@
+import { type Address, type PublicClient, decodeFunctionResult, encodeFunctionData, zeroAddress } from "viem";
+import { CoinsAddress } from "../constants/Coins";
+import { ZAAMAbi, ZAAMAddress } from "../constants/ZAAM";
+import {
+  type PoolKey,
+  SLIPPAGE_BPS,
+  SWAP_FEE,
+  computeCoinPairPoolKey,
+  computePoolIdFromKey,
+  computePoolKey,
+  deadlineTimestamp,
+  getAmountOut,
+  withSlippage,
+} from "./amm";
+
+/**
+ * Router for coin-to-coin swaps executed as a single ZAMM `multicall`.
+ *
+ * Every hop but the last sends its output to ZAMM itself, where it sits as a transient balance
+ * for the next `swapExactIn`. Each hop spends the previous hop's expected output (simulated when
+ * possible) less a small safety margin, and the previous hop's `amountOutMin` is set to that spend,
+ * so a hop that delivers short reverts instead of the next one pulling the difference from the
+ * wallet. Only the final output carries the user's slippage tolerance; the margin left over in the
+ * intermediate tokens is returned by `recoverTransientBalance`.
+ */
+
+/** A token on a route: a coin ID, or null for ETH */
+export type RouteToken = bigint | null;
+
+export type RouteHop = {
+  poolKey: PoolKey;
+  tokenIn: RouteToken;
+  tokenOut: RouteToken;
+  zeroForOne: boolean;
+};
+
+export type Route = {
+  path: RouteToken[];
+  hops: RouteHop[];
+};
+
+export type HopQuote = RouteHop & {
+  reserveIn: bigint;
+  reserveOut: bigint;
+  amountIn: bigint; // amount this hop spends
+  amountOut: bigint; // expected output
+  amountOutMin: bigint; // what the swap call enforces
+};
+
+export type RouteRefund = {
+  token: RouteToken;
+  amount: bigint;
+};
+
+export type RouteQuote = {
+  route: Route;
+  hops: HopQuote[];
+  amountIn: bigint;
+  amountOut: bigint;
+  amountOutMin: bigint;
+  refunds: RouteRefund[]; // expected leftovers of intermediate tokens
+  ethRefund: bigint;
+  simulated: boolean; // true when the amounts come from an eth_call of the full multicall
+};
+
+type PoolReserves = { reserve0: bigint; reserve1: bigint };
+
+export const MAX_ROUTE_HOPS = 3;
+
+// Share of each intermediate output held back from the next hop, so rounding and small pool moves
+// between quoting and inclusion don't starve it (0.1%, capped at the slippage tolerance)
+export const ROUTE_SAFETY_MARGIN_BPS = 10n;
+
+const tokenKey = (token: RouteToken) => (token === null ? "eth" : token.toString());
+
+// Pool between two route tokens: ETH/coin pools for ETH legs, ordered Coins/Coins pools otherwise
+const poolKeyFor = (a: RouteToken, b: RouteToken, swapFee: bigint): PoolKey | null => {
+  if (a === null && b === null) return null;
+  if (a === null) return computePoolKey(b as bigint, swapFee);
+  if (b === null) return computePoolKey(a, swapFee);
+  return computeCoinPairPoolKey(a, b, swapFee);
+};
+
+const makeHop = (tokenIn: RouteToken, tokenOut: RouteToken, swapFee: bigint): RouteHop | null => {
+  const poolKey = poolKeyFor(tokenIn, tokenOut, swapFee);
+  if (!poolKey) return null;
+  // token0 is ETH for ETH pools and the lower id for coin pairs
+  const zeroForOne = tokenIn === null || (tokenOut !== null && tokenIn < tokenOut);
+  return { poolKey, tokenIn, tokenOut, zeroForOne };
+};
+
+/**
+ * Enumerate simple paths from `source` to `target` through ETH and the `via` coins
+ * @param source Coin to sell
+ * @param target Coin to buy
+ * @param via Extra coins that may be used as intermediates
+ * @param swapFee Pool fee in basis points
+ * @returns Candidate routes with at most MAX_ROUTE_HOPS hops
+ */
+export function buildCandidateRoutes(
+  source: bigint,
+  target: bigint,
+  via: bigint[] = [],
+  swapFee: bigint = SWAP_FEE,
+): Route[] {
+  const intermediates: RouteToken[] = [
+    null,
+    ...via.filter((id, i) => id !== source && id !== target && via.indexOf(id) === i),
+  ];
+  const routes: Route[] = [];
+
+  const walk = (path: RouteToken[]) => {
+    const last = path[path.length - 1];
+    if (path.length > MAX_ROUTE_HOPS) return;
+
+    const direct = makeHop(last, target, swapFee);
+    if (direct) {
+      const full = [...path, target];
+      const hops = full.slice(1).map((token, i) => makeHop(full[i], token, swapFee) as RouteHop);
+      routes.push({ path: full, hops });
+    }
+
+    for (const next of intermediates) {
+      if (path.some((token) => tokenKey(token) === tokenKey(next))) continue;
+      walk([...path, next]);
+    }
+  };
+
+  walk([source]);
+  return routes;
+}
+
+/**
+ * Read reserves of every pool the routes touch in one multicall
+ * @returns Reserves keyed by pool ID (pools that don't exist are omitted)
+ */
+export async function fetchRouteReserves(publicClient: PublicClient, routes: Route[]) {
+  const poolIds = new Map<string, bigint>();
+  for (const route of routes) {
+    for (const hop of route.hops) {
+      const poolId = computePoolIdFromKey(hop.poolKey);
+      poolIds.set(poolId.toString(), poolId);
+    }
+  }
+
+  const ids = [...poolIds.values()];
+  const results = await publicClient.multicall({
+    contracts: ids.map((poolId) => ({
+      address: ZAAMAddress,
+      abi: ZAAMAbi,
+      functionName: "pools",
+      args: [poolId],
+    })),
+    allowFailure: true,
+  });
+
+  const reserves = new Map<string, PoolReserves>();
+  results.forEach((result, i) => {
+    if (result.status !== "success") return;
+    const [reserve0, reserve1] = result.result as unknown as readonly bigint[];
+    if (reserve0 > 0n && reserve1 > 0n) reserves.set(ids[i].toString(), { reserve0, reserve1 });
+  });
+  return reserves;
+}
+
+const hopReserves = (hop: RouteHop, reserves: Map<string, PoolReserves>) => {
+  const pool = reserves.get(computePoolIdFromKey(hop.poolKey).toString());
+  if (!pool) return null;
+  return hop.zeroForOne
+    ? { reserveIn: pool.reserve0, reserveOut: pool.reserve1 }
+    : { reserveIn: pool.reserve1, reserveOut: pool.reserve0 };
+};
+
+const summarize = (route: Route, hops: HopQuote[], amountIn: bigint, simulated: boolean): RouteQuote => {
+  const last = hops[hops.length - 1];
+  const refunds: RouteRefund[] = [];
+  for (let i = 0; i < hops.length - 1; i++) {
+    const leftover = hops[i].amountOut - hops[i + 1].amountIn;
+    if (leftover <= 0n) continue;
+    const existing = refunds.find((refund) => tokenKey(refund.token) === tokenKey(hops[i].tokenOut));
+    if (existing) existing.amount += leftover;
+    else refunds.push({ token: hops[i].tokenOut, amount: leftover });
+  }
+
+  return {
+    route,
+    hops,
+    amountIn,
+    amountOut: last.amountOut,
+    amountOutMin: last.amountOutMin,
+    refunds,
+    ethRefund: refunds.find((refund) => refund.token === null)?.amount ?? 0n,
+    simulated,
+  };
+};
+
+/**
+ * Quote a route from pool reserves. `hopOutputs` overrides the modelled output of each hop
+ * (used to re-size the spends from simulated results).
+ * @param slippageBps Tolerance on the final output
+ * @returns The quote, or null if a pool is missing or a hop outputs nothing
+ */
+export function quoteRoute(
+  route: Route,
+  amountIn: bigint,
+  reserves: Map<string, PoolReserves>,
+  slippageBps: bigint = SLIPPAGE_BPS,
+  hopOutputs?: bigint[],
+): RouteQuote | null {
+  const hops: HopQuote[] = [];
+  const margin = slippageBps < ROUTE_SAFETY_MARGIN_BPS ? slippageBps : ROUTE_SAFETY_MARGIN_BPS;
+  const last = route.hops.length - 1;
+  let spend = amountIn;
+
+  for (const [i, hop] of route.hops.entries()) {
+    const pool = hopReserves(hop, reserves);
+    if (!pool || spend === 0n) return null;
+
+    const amountOut = hopOutputs?.[i] ?? getAmountOut(spend, pool.reserveIn, pool.reserveOut, hop.poolKey.swapFee);
+    if (amountOut === 0n) return null;
+
+    // The next hop spends nearly all of this one's output, which this hop then has to deliver in full
+    const amountOutMin = i === last ? withSlippage(amountOut, slippageBps) : withSlippage(amountOut, margin);
+    hops.push({ ...hop, ...pool, amountIn: spend, amountOut, amountOutMin });
+    spend = amountOutMin;
+  }
+
+  return summarize(route, hops, amountIn, false);
+}
+
+/**
+ * Encode a quote as ZAMM multicall data: one `swapExactIn` per hop, then recover every transient balance
+ * @param quote Route quote
+ * @param receiver Address receiving the output and any refunds
+ * @param deadlineSec Seconds from now until the swaps expire
+ * @returns Array of encoded function calls for multicall
+ */
+export function encodeRouteMulticall(quote: RouteQuote, receiver: Address, deadlineSec?: number): `0x${string}`[] {
+  const deadline = deadlineTimestamp(deadlineSec);
+  const last = quote.hops.length - 1;
+
+  const swaps = quote.hops.map((hop, i) =>
+    encodeFunctionData({
+      abi: ZAAMAbi,
+      functionName: "swapExactIn",
+      args: [
+        hop.poolKey,
+        hop.amountIn,
+        hop.amountOutMin,
+        hop.zeroForOne,
+        i === last ? receiver : ZAAMAddress, // intermediate outputs stay in ZAMM for the next hop
+        deadline,
+      ],
+    }),
+  );
+
+  // Recover leftovers of every token the route touches, the final output included
+  const seen = new Set<string>();
+  const recoveries = quote.route.path.flatMap((token) => {
+    const key = tokenKey(token);
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [
+      encodeFunctionData({
+        abi: ZAAMAbi,
+        functionName: "recoverTransientBalance",
+        args: [token === null ? zeroAddress : CoinsAddress, token ?? 0n, receiver],
+      }),
+    ];
+  });
+
+  return [...swaps, ...recoveries];
+}
+
+/**
+ * Run the route's multicall through eth_call and read back each hop's real output
+ * @returns The swap outputs per hop, or null when the simulation reverts
+ */
+async function simulateHopOutputs(publicClient: PublicClient, quote: RouteQuote, account: Address) {
+  try {
+    const { result } = await publicClient.simulateContract({
+      account,
+      address: ZAAMAddress,
+      abi: ZAAMAbi,
+      functionName: "multicall",
+      args: [encodeRouteMulticall(quote, account)],
+    });
+    return quote.hops.map((_, i) =>
+      decodeFunctionResult({ abi: ZAAMAbi, functionName: "swapExactIn", data: result[i] }),
+    );
+  } catch (error) {
+    console.warn("Route simulation failed, falling back to reserve math:", error);
+    return null;
+  }
+}
+
+/**
+ * Find the best coin-to-coin route and, when an account is available, tighten it by simulating
+ * the full multicall against current chain state
+ * @returns Best quote, or null when no route has liquidity
+ */
+export async function findBestRoute(
+  publicClient: PublicClient,
+  {
+    source,
+    target,
+    amountIn,
+    via = [],
+    slippageBps = SLIPPAGE_BPS,
+    account,
+  }: {
+    source: bigint;
+    target: bigint;
+    amountIn: bigint;
+    via?: bigint[];
+    slippageBps?: bigint;
+    account?: Address;
+  },
+): Promise<RouteQuote | null> {
+  if (amountIn === 0n || source === target) return null;
+
+  const routes = buildCandidateRoutes(source, target, via);
+  const reserves = await fetchRouteReserves(publicClient, routes);
+
+  let best: RouteQuote | null = null;
+  for (const route of routes) {
+    const quote = quoteRoute(route, amountIn, reserves, slippageBps);
+    if (quote && (!best || quote.amountOut > best.amountOut)) best = quote;
+  }
+  if (!best || !account) return best;
+
+  // Simulated outputs replace the model and re-size the next hop's spend; repeat until the spends
+  // we simulated are the spends we would send (each pass settles at least one more hop)
+  let quote = best;
+  for (let pass = 0; pass <= quote.hops.length; pass++) {
+    const outputs = await simulateHopOutputs(publicClient, quote, account);
+    if (!outputs) return best;
+    const next = quoteRoute(best.route, amountIn, reserves, slippageBps, outputs);
+    if (!next) return best;
+    if (next.hops.every((hop, i) => hop.amountIn === quote.hops[i].amountIn)) return { ...next, simulated: true };
+    quote = next;
+  }
+  return best;
+}
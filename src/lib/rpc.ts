@@ -0,0 +1,145 @@
+import { http, type Transport, fallback } from "viem";
+import { base, mainnet } from "viem/chains";
+
+/**
+ * RPC endpoints for every client in the app (wagmi's and the metadata hooks'), in priority order:
+ * 1. a URL the user entered in RPC settings, which always goes first when set
+ * 2. `VITE_MAINNET_RPC_URLS` / `VITE_BASE_RPC_URLS`, comma-separated
+ * 3. public endpoints
+ * Without a user URL the list is ranked by latency and stability as the session goes on.
+ */
+
+export type RpcChainId = typeof mainnet.id | typeof base.id;
+
+const PUBLIC_RPC_URLS: Record<RpcChainId, string[]> = {
+  [mainnet.id]: [mainnet.rpcUrls.default.http[0], "https://ethereum-rpc.publicnode.com", "https://eth.llamarpc.com"],
+  [base.id]: [base.rpcUrls.default.http[0], "https://base-rpc.publicnode.com"],
+};
+
+const ENV_RPC_URLS: Record<RpcChainId, string | undefined> = {
+  [mainnet.id]: import.meta.env.VITE_MAINNET_RPC_URLS,
+  [base.id]: import.meta.env.VITE_BASE_RPC_URLS,
+};
+
+// JSON-RPC requests made within this window are sent as one batch
+const BATCH_WAIT_MS = 16;
+const BATCH_SIZE = 100;
+const REQUEST_TIMEOUT_MS = 10_000;
+// How often the fallback re-ranks endpoints, and over how many samples
+const RANK_INTERVAL_MS = 60_000;
+const RANK_SAMPLE_COUNT = 5;
+
+/** Largest multicall3 payload wagmi aggregates concurrent `readContract`s into, in bytes */
+export const MULTICALL_BATCH_SIZE = 1024 * 8;
+
+const STORAGE_KEY = "coinchan-rpc-settings";
+
+export type RpcSettings = {
+  mainnetRpcUrl: string | null; // user-supplied endpoint; null uses the defaults
+};
+
+const DEFAULT_SETTINGS: RpcSettings = { mainnetRpcUrl: null };
+
+/**
+ * Check a user-entered RPC URL
+ * @returns A user-facing error, or null when the URL can be used
+ */
+export function validateRpcUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== "https:" && url.protocol !== "http:") return "RPC URL must start with https://";
+    return null;
+  } catch {
+    return "Enter a valid URL, e.g. https://mainnet.example.com";
+  }
+}
+
+export function loadRpcSettings(): RpcSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<RpcSettings>;
+    const url = typeof parsed.mainnetRpcUrl === "string" ? parsed.mainnetRpcUrl.trim() : "";
+    return { mainnetRpcUrl: url && validateRpcUrl(url) === null ? url : null };
+  } catch (error) {
+    console.error("Failed to load RPC settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Persist RPC settings. Clients are built once at startup, so the page must reload to pick them up.
+ */
+export function saveRpcSettings(settings: RpcSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+const parseUrlList = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => url && validateRpcUrl(url) === null);
+
+/**
+ * Endpoints for a chain in the order they're tried, without duplicates
+ */
+export function getRpcUrls(chainId: RpcChainId, settings: RpcSettings = loadRpcSettings()): string[] {
+  const user = chainId === mainnet.id && settings.mainnetRpcUrl ? [settings.mainnetRpcUrl] : [];
+  const configured = parseUrlList(ENV_RPC_URLS[chainId]);
+  const urls = [...user, ...(configured.length > 0 ? configured : PUBLIC_RPC_URLS[chainId])];
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Transport for a chain: batched HTTP per endpoint behind a viem `fallback`
+ */
+export function createRpcTransport(chainId: RpcChainId, settings: RpcSettings = loadRpcSettings()): Transport {
+  const urls = getRpcUrls(chainId, settings);
+  const hasUserUrl = chainId === mainnet.id && settings.mainnetRpcUrl !== null;
+
+  return fallback(
+    urls.map((url) =>
+      http(url, {
+        batch: { batchSize: BATCH_SIZE, wait: BATCH_WAIT_MS },
+        timeout: REQUEST_TIMEOUT_MS,
+        // The fallback moves on to the next endpoint instead
+        retryCount: 0,
+      }),
+    ),
+    {
+      // Ranking would reorder a user's endpoint behind faster public ones
+      rank: hasUserUrl ? false : { interval: RANK_INTERVAL_MS, sampleCount: RANK_SAMPLE_COUNT },
+      retryCount: 2,
+    },
+  );
+}
+
+/**
+ * Send a bare `eth_chainId` to check an endpoint before saving it
+ * @returns A user-facing error, or null when the endpoint answers for Ethereum mainnet
+ */
+export async function probeRpcUrl(url: string): Promise<string | null> {
+  const invalid = validateRpcUrl(url);
+  if (invalid) return invalid;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url.trim(), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+      signal: controller.signal,
+    });
+    if (!response.ok) return `The endpoint responded with HTTP ${response.status}`;
+    const { result } = (await response.json()) as { result?: string };
+    if (!result) return "The endpoint didn't return a chain ID";
+    if (Number.parseInt(result, 16) !== mainnet.id)
+      return `That endpoint serves chain ${Number.parseInt(result, 16)}, not Ethereum mainnet`;
+    return null;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") return "The endpoint didn't respond in time";
+    return "Couldn't reach the endpoint (check the URL and CORS settings)";
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -17,3 +17,22 @@ export function formatNumber(value: number, decimals: number = 2): string {
     maximumFractionDigits: decimals,
   }).format(value);
 }
+
+/**
+ * Format a coin price, which is often a tiny fraction of ETH: 4 significant digits below 1, 2 decimals above
+ */
+export function formatPrice(value: number): string {
+  return value.toLocaleString("en-US", value >= 1 ? { maximumFractionDigits: 2 } : { maximumSignificantDigits: 4 });
+}
+
+/**
+ * Format how long ago something happened, e.g. "5m ago"; past a day, the date
+ * @param timestamp Unix time in milliseconds
+ */
+export function formatAge(timestamp: number): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
@@ -1,44 +1,225 @@
+import {
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  EstimateGasExecutionError,
+  HttpRequestError,
+  InsufficientFundsError,
+  NonceMaxValueError,
+  NonceTooHighError,
+  NonceTooLowError,
+  SwitchChainError,
+  TimeoutError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+} from 'viem';
+import { ChainNotConfiguredError, ConnectorChainMismatchError } from 'wagmi';
+import { CoinchanAbi } from '../constants/Coinchan';
+import { CoinsAbi } from '../constants/Coins';
+import { ZAAMAbi } from '../constants/ZAAM';
+import { ZAMMSingleLiqETHAbi } from '../constants/ZAMMSingleLiqETH';
+
 /**
  * Utility functions for error handling in the application
  */
 
 /**
- * Checks if an error is a user rejection error from wallet interactions
- * This covers various wallet providers including MetaMask, Coinbase Wallet, and others
+ * Every custom error our contracts can revert with. Helpers (ZAMMSingleLiqETH, multicall) bubble up
+ * ZAAM's errors, so reverts are decoded against all of them rather than just the called contract's ABI.
  */
-export const isUserRejectionError = (error: unknown): boolean => {
-  if (!error) return false;
-  
-  // Convert error to string to check for common wallet rejection patterns
-  const errorMessage = String(error).toLowerCase();
-  
-  // Common user rejection error patterns
-  const rejectionPatterns = [
-    'user rejected', 
-    'user denied', 
-    'user cancelled',
-    'user canceled',
-    'rejected by user',
-    'denied by user', 
-    'declined by user',
-    'rejected transaction',
-    'transaction was rejected',
-    'user declined',
-    'rejected request',
-    'request rejected',
-    'action-rejected',
-    'user disapproved',
-    'user refused'
-  ];
-  
-  // Check if error message contains any of the rejection patterns
-  return rejectionPatterns.some(pattern => errorMessage.includes(pattern));
+const CONTRACT_ERRORS_ABI = [
+  ...ZAAMAbi,
+  ...CoinchanAbi,
+  ...CoinsAbi,
+  ...ZAMMSingleLiqETHAbi,
+].filter((item) => item.type === 'error');
+
+/**
+ * Human-readable messages for contract custom errors, keyed by error name
+ */
+export const CONTRACT_ERROR_MESSAGES: Record<string, string> = {
+  // ZAAM
+  InsufficientOutputAmount: 'Price moved beyond your slippage tolerance. Increase slippage or try a smaller amount.',
+  Expired: 'The transaction deadline passed. Increase the deadline in swap settings and try again.',
+  K: 'The pool rejected the trade because its reserves changed. Refresh the quote and try again.',
+  InsufficientLiquidity: 'Not enough liquidity in the pool for this trade.',
+  InsufficientInputAmount: 'The input amount is too small for this pool.',
+  InsufficientLiquidityMinted: 'The deposit is too small to mint any LP tokens.',
+  InvalidMsgVal: 'The ETH sent does not match what the contract expects. Try again with different amounts.',
+  InvalidPoolTokens: 'This pool does not support the selected tokens.',
+  InvalidPoolKey: 'This pool does not exist for the selected coin.',
+  InvalidSwapFee: 'The pool fee is not supported.',
+  Overflow: 'The amount is too large for this pool.',
+  Reentrancy: 'The contract is busy. Please try again.',
+  // Coinchan / Coins
+  NothingToVest: 'Nothing to claim yet; no liquidity has vested since your last claim.',
+  Pending: 'This lockup does not vest; its liquidity can only be claimed after the unlock date.',
+  Unauthorized: 'This wallet is not allowed to perform this action.',
+  InvalidArrays: 'Recipient and amount lists do not match.',
+  InvalidMetadata: 'The coin metadata is invalid.',
+  OnlyExternal: 'This action cannot be performed from a contract.',
+};
+
+/**
+ * Every class of failure the UI reacts to differently
+ */
+export type WalletErrorKind =
+  | 'user-rejected'
+  | 'insufficient-funds'
+  | 'wrong-chain'
+  | 'rpc-timeout'
+  | 'contract-revert'
+  | 'gas-estimation'
+  | 'nonce'
+  | 'unknown';
+
+export type ContractRevert = {
+  name: string;
+  args: readonly unknown[];
+};
+
+export type WalletError = {
+  kind: WalletErrorKind;
+  message: string; // what went wrong, for the user
+  retryHint: string | null; // what to do about it
+  revert?: ContractRevert; // set for 'contract-revert'
+  cause?: unknown;
+};
+
+const WALLET_ERROR_DETAILS: Record<WalletErrorKind, Pick<WalletError, 'message' | 'retryHint'>> = {
+  'user-rejected': { message: 'Request rejected in your wallet.', retryHint: null },
+  'insufficient-funds': {
+    message: 'Insufficient ETH to cover this transaction and its gas.',
+    retryHint: 'Lower the amount or add ETH to your wallet.',
+  },
+  'wrong-chain': {
+    message: 'Your wallet is connected to the wrong network.',
+    retryHint: 'Switch to Ethereum mainnet and try again.',
+  },
+  'rpc-timeout': {
+    message: 'The network request timed out.',
+    retryHint: 'Check your connection and try again in a moment.',
+  },
+  'contract-revert': {
+    message: 'The contract rejected this transaction.',
+    retryHint: 'Refresh the quote and try again.',
+  },
+  'gas-estimation': {
+    message: 'Gas could not be estimated for this transaction.',
+    retryHint: 'The transaction would likely fail. Check the amounts and try again.',
+  },
+  nonce: {
+    message: 'Your wallet has a transaction nonce conflict.',
+    retryHint: 'Wait for pending transactions to confirm, or reset the account nonce in your wallet.',
+  },
+  unknown: { message: 'Transaction failed.', retryHint: 'Please try again.' },
+};
+
+/**
+ * Build a WalletError of a given kind with the default message and retry hint
+ */
+export const createWalletError = (kind: WalletErrorKind, cause?: unknown): WalletError => ({
+  kind,
+  ...WALLET_ERROR_DETAILS[kind],
+  cause,
+});
+
+// Walk the `cause` chain of any error (viem and wagmi errors nest the original one)
+const findCause = <T>(error: unknown, predicate: (e: unknown) => e is T): T | null => {
+  let current = error;
+  for (let depth = 0; current && depth < 20; depth++) {
+    if (predicate(current)) return current;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return null;
+};
+
+const isInstance =
+  (...classes: (abstract new (...args: never[]) => Error)[]) =>
+  (e: unknown): e is Error =>
+    classes.some((errorClass) => e instanceof errorClass);
+
+// EIP-1193 code for rejections from wallets whose errors don't come through viem
+const hasRejectionCode = (e: unknown): e is { code: number | string } => {
+  const code = (e as { code?: unknown } | null)?.code;
+  return code === UserRejectedRequestError.code || code === 'ACTION_REJECTED';
 };
 
+/**
+ * Extracts the custom error a contract call reverted with, decoding the revert data against
+ * all known contract ABIs when viem could not decode it against the called contract's ABI
+ */
+export const decodeContractError = (error: unknown): (ContractRevert & { message: string }) | null => {
+  const reverted = findCause(
+    error,
+    (e): e is ContractFunctionRevertedError => e instanceof ContractFunctionRevertedError,
+  );
+  if (!reverted) return null;
+
+  let decoded: ContractRevert | null = reverted.data
+    ? { name: reverted.data.errorName, args: reverted.data.args ?? [] }
+    : null;
+  if (!decoded && reverted.raw) {
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: CONTRACT_ERRORS_ABI, data: reverted.raw });
+      decoded = { name: errorName, args: args ?? [] };
+    } catch {
+      // Unknown selector
+    }
+  }
+  if (!decoded && reverted.reason) decoded = { name: reverted.reason, args: [] };
+  if (!decoded) return null;
+
+  const message = CONTRACT_ERROR_MESSAGES[decoded.name] ?? `Transaction would revert: ${decoded.name}`;
+  return { ...decoded, message };
+};
+
+/**
+ * Classifies an error from a wallet / RPC / contract interaction by viem's and wagmi's error classes
+ */
+export const classifyWalletError = (error: unknown): WalletError => {
+  if (findCause(error, isInstance(UserRejectedRequestError)) || findCause(error, hasRejectionCode)) {
+    return createWalletError('user-rejected', error);
+  }
+  if (
+    findCause(
+      error,
+      isInstance(ChainMismatchError, ConnectorChainMismatchError, ChainNotConfiguredError, SwitchChainError),
+    )
+  ) {
+    return createWalletError('wrong-chain', error);
+  }
+  if (findCause(error, isInstance(InsufficientFundsError))) {
+    return createWalletError('insufficient-funds', error);
+  }
+  if (findCause(error, isInstance(NonceTooHighError, NonceTooLowError, NonceMaxValueError))) {
+    return createWalletError('nonce', error);
+  }
+
+  const revert = decodeContractError(error);
+  if (revert) {
+    const { message, ...decoded } = revert;
+    return { ...createWalletError('contract-revert', error), message, revert: decoded };
+  }
+
+  if (findCause(error, isInstance(EstimateGasExecutionError))) {
+    return createWalletError('gas-estimation', error);
+  }
+  if (findCause(error, isInstance(TimeoutError, HttpRequestError))) {
+    return createWalletError('rpc-timeout', error);
+  }
+  return createWalletError('unknown', error);
+};
+
+/**
+ * Checks if an error is a user rejection error from wallet interactions
+ */
+export const isUserRejectionError = (error: unknown): boolean =>
+  !!error && classifyWalletError(error).kind === 'user-rejected';
+
 /**
  * Handles errors from wallet interactions
- * If it's a user rejection error, it silently ignores it
- * Otherwise, it logs the error and optionally returns a user-friendly message
+ * If it's a user rejection, it silently ignores it and returns null
+ * Otherwise, it logs the error and returns the classified error for the UI
  */
 export const handleWalletError = (
   error: unknown, 
@@ -46,11 +227,12 @@ export const handleWalletError = (
     silent?: boolean; // If true, no console log for any error
     logRejections?: boolean; // If true, log user rejections (default false)
   } = {}
-): string | null => {
+): WalletError | null => {
   const { silent = false, logRejections = false } = options;
+  const walletError = classifyWalletError(error);
   
   // If it's a user rejection, handle quietly
-  if (isUserRejectionError(error)) {
+  if (walletError.kind === 'user-rejected') {
     // Only log user rejections if specifically requested
     if (logRejections && !silent) {
       console.log('User rejected wallet request');
@@ -58,11 +240,10 @@ export const handleWalletError = (
     return null;
   }
   
-  // For other errors, log and return message
+  // For other errors, log and return the classified error
   if (!silent) {
-    console.error('Wallet error:', error);
+    console.error(`Wallet error (${walletError.kind}):`, error);
   }
   
-  // Return a generic error message for non-rejection errors
-  return 'Transaction failed. Please try again.';
-};
\ No newline at end of file
+  return walletError;
+};
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Comma-separated RPC endpoints, tried in order; see src/lib/rpc.ts
+  readonly VITE_MAINNET_RPC_URLS?: string;
+  readonly VITE_BASE_RPC_URLS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,17 +1,27 @@
 import farcasterFrame from "@farcaster/frame-wagmi-connector";
 import { injected, coinbaseWallet, metaMask } from "wagmi/connectors";
-import { http, createConfig } from "wagmi";
+import { createConfig } from "wagmi";
+import { getPublicClient } from "wagmi/actions";
 import { base, mainnet } from "wagmi/chains";
+import { MULTICALL_BATCH_SIZE, createRpcTransport } from "./lib/rpc";
 
 export const config = createConfig({
   chains: [base, mainnet],
   connectors: [farcasterFrame(), injected(), coinbaseWallet(), metaMask()],
   transports: {
-    [base.id]: http(),
-    [mainnet.id]: http(),
+    [base.id]: createRpcTransport(base.id),
+    [mainnet.id]: createRpcTransport(mainnet.id),
   },
+  // Concurrent contract reads are aggregated through multicall3
+  batch: { multicall: { batchSize: MULTICALL_BATCH_SIZE } },
 });
 
+/**
+ * The shared mainnet client, for code that runs outside React (query functions, module-level helpers).
+ * Components should keep using wagmi's `usePublicClient`, which resolves to the same client.
+ */
+export const getMainnetClient = () => getPublicClient(config, { chainId: mainnet.id });
+
 declare module "wagmi" {
   interface Register {
     config: typeof config;